@@ -1,17 +1,50 @@
 // Background Service Worker
 // This runs in the background and handles extension lifecycle events
+// and makes all AI provider calls on behalf of the content script and popup
+
+import type { BackgroundRequest } from '../types';
+import { STREAM_PORT_NAME, StorageKey } from '../types';
+import { BackgroundRequestHandler } from './request-handler';
+import { MigrationService } from '../services/migration-service';
 
 console.log('Twitter Reply Assistant: Background service worker started');
 
+// Upgrade data saved by an older version (backs up first)
+function runMigrations() {
+  MigrationService.runMigrations()
+    .then(({ from, to }) => {
+      if (from !== to) {
+        console.log(`Storage migrated from v${from} to v${to}`);
+      }
+    })
+    .catch((error) => {
+      console.error('Failed to migrate storage:', error);
+    });
+}
+
 // Listen for installation
 chrome.runtime.onInstalled.addListener((details) => {
   console.log('Extension installed:', details.reason);
+  runMigrations();
+});
+
+// A migration that needs the API tokens waits while they are locked;
+// run the pending ones once the tokens are unlocked
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'session' && changes[StorageKey.TOKEN_KEY]?.newValue !== undefined) {
+    runMigrations();
+  }
 });
 
-// Listen for messages from content scripts or popup
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  console.log('Message received:', message);
-  // Handle messages here
-  sendResponse({ status: 'ok' });
+// Listen for requests from content scripts or popup
+chrome.runtime.onMessage.addListener((message: BackgroundRequest, sender, sendResponse) => {
+  BackgroundRequestHandler.handle(message, sender).then(sendResponse);
   return true; // Keep channel open for async response
 });
+
+// Streaming generation runs over a long-lived port
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === STREAM_PORT_NAME) {
+    BackgroundRequestHandler.handleStreamPort(port);
+  }
+});
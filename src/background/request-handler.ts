@@ -0,0 +1,218 @@
+/**
+ * Background Request Handler
+ *
+ * Serves the message protocol used by the content script and popup.
+ * All provider calls run here, so the API token never leaves the
+ * service worker.
+ */
+
+import type {
+  BackgroundRequest,
+  BackgroundResponse,
+  BackgroundResponseData,
+  GenerateWaitingMessage,
+  GeneratedReply,
+  StreamGenerateRequest,
+  StreamPortMessage,
+} from '../types';
+import { ErrorType, AppError, ErrorHelper, REWRITE_STYLE_PREFIX } from '../types';
+import { AIService } from '../services/ai-service';
+import { StorageService } from '../services/storage-service';
+import { UsageService } from '../services/usage-service';
+
+/**
+ * Background request handler class
+ * Dispatches one-shot messages and streaming ports to AIService
+ */
+export class BackgroundRequestHandler {
+  /**
+   * Abort controllers of in-flight generate requests, keyed by request ID
+   */
+  private static inFlight = new Map<string, AbortController>();
+
+  /**
+   * Handle a one-shot request
+   * @param request - Request from chrome.runtime.sendMessage
+   * @param sender - Sender of the request (receives rate limit wait notices)
+   * @returns Promise<BackgroundResponse> - Response envelope (never rejects)
+   */
+  static async handle(
+    request: BackgroundRequest,
+    sender?: chrome.runtime.MessageSender
+  ): Promise<BackgroundResponse<BackgroundResponseData[BackgroundRequest['type']]>> {
+    try {
+      return { ok: true, data: await this.dispatch(request, sender) };
+    } catch (error) {
+      if (ErrorHelper.isCancelled(error)) {
+        console.log('[Background] 请求已取消:', request.type);
+      } else {
+        console.error('[Background] 请求失败:', request.type, error);
+      }
+      return { ok: false, error: ErrorHelper.serialize(error) };
+    }
+  }
+
+  /**
+   * Serve a streaming generation over a port
+   * The client disconnecting the port cancels the generation
+   * @param port - Port connected with STREAM_PORT_NAME
+   */
+  static handleStreamPort(port: chrome.runtime.Port): void {
+    const controller = new AbortController();
+    let disconnected = false;
+
+    port.onDisconnect.addListener(() => {
+      disconnected = true;
+      controller.abort();
+    });
+
+    const post = (message: StreamPortMessage) => {
+      if (!disconnected) {
+        port.postMessage(message);
+      }
+    };
+
+    port.onMessage.addListener(async (request: StreamGenerateRequest) => {
+      if (request.type !== 'generate') return;
+
+      try {
+        const reply = await AIService.generateReplyStream(
+          request.tweet,
+          request.styleId,
+          (text) => post({ type: 'chunk', text }),
+          controller.signal,
+          (until) => post({ type: 'waiting', until })
+        );
+        this.recordUsage([reply], request.styleId);
+        post({ type: 'done', reply });
+      } catch (error) {
+        if (!ErrorHelper.isCancelled(error)) {
+          console.error('[Background] 流式生成失败:', error);
+        }
+        post({ type: 'error', error: ErrorHelper.serialize(error) });
+      }
+    });
+  }
+
+  /**
+   * Tell the sender that its generate request is queued by the rate limiter
+   * Content scripts are reached through their tab; extension pages through runtime messaging
+   */
+  private static notifyWaiting(
+    sender: chrome.runtime.MessageSender | undefined,
+    requestId: string,
+    until: number
+  ): void {
+    const message: GenerateWaitingMessage = { type: 'generate-waiting', requestId, until };
+    const tabId = sender?.tab?.id;
+
+    const sent = tabId !== undefined
+      ? chrome.tabs.sendMessage(tabId, message, { frameId: sender?.frameId })
+      : chrome.runtime.sendMessage(message);
+
+    sent.catch((error: unknown) => {
+      console.warn('[Background] 无法发送排队通知:', error);
+    });
+  }
+
+  /**
+   * Add the token usage of generated replies to the usage records
+   * A failed write is logged and doesn't fail the generation
+   */
+  private static recordUsage(replies: GeneratedReply[], styleId: string): void {
+    UsageService.recordReplies(replies, styleId).catch((error: unknown) => {
+      console.warn('[Background] 记录用量失败:', error);
+    });
+  }
+
+  /**
+   * Run a request and return its data
+   */
+  private static async dispatch(
+    request: BackgroundRequest,
+    sender?: chrome.runtime.MessageSender
+  ): Promise<BackgroundResponseData[BackgroundRequest['type']]> {
+    switch (request.type) {
+      case 'generate': {
+        const controller = new AbortController();
+        this.inFlight.set(request.requestId, controller);
+
+        try {
+          const replies = await AIService.generateReplies(
+            request.tweet,
+            request.styleId,
+            request.count,
+            controller.signal,
+            (until) => this.notifyWaiting(sender, request.requestId, until)
+          );
+          this.recordUsage(replies, request.styleId);
+          return replies;
+        } finally {
+          this.inFlight.delete(request.requestId);
+        }
+      }
+
+      case 'rewrite': {
+        const controller = new AbortController();
+        this.inFlight.set(request.requestId, controller);
+
+        try {
+          const reply = await AIService.rewriteDraft(
+            request.tweet,
+            request.draft,
+            request.operation,
+            controller.signal,
+            (until) => this.notifyWaiting(sender, request.requestId, until)
+          );
+          this.recordUsage([reply], `${REWRITE_STYLE_PREFIX}${request.operation}`);
+          return reply;
+        } finally {
+          this.inFlight.delete(request.requestId);
+        }
+      }
+
+      case 'cancel': {
+        const controller = this.inFlight.get(request.requestId);
+        controller?.abort();
+        return { cancelled: controller !== undefined };
+      }
+
+      case 'test-config':
+        return AIService.testConfig(request.config);
+
+      case 'list-models':
+        return AIService.listModels(request.config);
+
+      case 'config-status':
+        return { configured: await StorageService.hasAIConfig() };
+
+      case 'list-profiles': {
+        const [profiles, activeProfileId] = await Promise.all([
+          StorageService.getProfiles(),
+          StorageService.getActiveProfileId(),
+        ]);
+
+        // Leave the API tokens out
+        return {
+          profiles: profiles.map(({ id, name, config }) => ({
+            id,
+            name,
+            provider: config.provider,
+            model: config.model,
+          })),
+          activeProfileId,
+        };
+      }
+
+      case 'set-active-profile':
+        await StorageService.setActiveProfile(request.profileId);
+        return { activeProfileId: request.profileId };
+
+      default:
+        throw new AppError(
+          ErrorType.INVALID_CONFIG,
+          `Unknown request type: ${(request as { type: string }).type}`
+        );
+    }
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * 候选回复选择面板
+ *
+ * 显示在 AI 按钮下方，列出多个候选回复
+ * 每个候选支持：直接插入、编辑后插入、单独重新生成
+ */
+
+import { useState, useEffect } from 'react';
+import type { CSSProperties } from 'react';
+import { MAX_REPLY_LENGTH } from '../types';
+import { TweetLength } from '../utils/tweet-length';
+
+interface CandidatePickerProps {
+  /** 候选回复列表 */
+  candidates: string[];
+  /** 正在重新生成的候选索引 */
+  regeneratingIndex: number | null;
+  /** 插入回复的回调（text 可能经过编辑） */
+  onInsert: (text: string, index: number) => void;
+  /** 重新生成某个候选的回调 */
+  onRegenerate: (index: number) => void;
+  /** 关闭回调 */
+  onClose: () => void;
+  /** 回复长度上限（风格设置的上限，默认 MAX_REPLY_LENGTH） */
+  maxLength?: number;
+  /** 插入后输入框中保留的原有内容的长度（追加、光标处、替换选中时） */
+  existingLength?: number;
+}
+
+export function CandidatePicker({
+  candidates,
+  regeneratingIndex,
+  onInsert,
+  onRegenerate,
+  onClose,
+  maxLength = MAX_REPLY_LENGTH,
+  existingLength = 0,
+}: CandidatePickerProps) {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editText, setEditText] = useState('');
+
+  // ESC 键关闭
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [onClose]);
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setEditText(candidates[index]);
+  };
+
+  const actionButtonStyle = (primary: boolean, disabled: boolean): CSSProperties => ({
+    padding: '4px 10px',
+    borderRadius: '9999px',
+    border: primary ? 'none' : '1px solid #cfd9de',
+    backgroundColor: primary ? '#1d9bf0' : 'white',
+    color: primary ? 'white' : '#0f1419',
+    fontSize: '12px',
+    fontWeight: 600,
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.5 : 1,
+  });
+
+  return (
+    <div
+      className="twitter-ai-candidate-picker"
+      style={{
+        position: 'absolute',
+        top: '40px', // 按钮高度 36px + 4px 间距
+        left: '0',
+        zIndex: 999999,
+        backgroundColor: 'white',
+        borderRadius: '16px',
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.12), 0 4px 12px rgba(0, 0, 0, 0.08)',
+        border: '1px solid rgba(0, 0, 0, 0.06)',
+        padding: '12px',
+        width: '360px',
+        animation: 'fadeInScale 0.15s ease-out',
+      }}
+    >
+      {/* 标题 */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginBottom: '8px',
+        }}
+      >
+        <h3 style={{ margin: 0, fontSize: '15px', fontWeight: 700, color: '#1e293b' }}>
+          选择一条回复 ({candidates.length})
+        </h3>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="关闭"
+          style={{
+            border: 'none',
+            background: 'transparent',
+            color: '#64748b',
+            fontSize: '16px',
+            cursor: 'pointer',
+            padding: '2px 6px',
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* 候选列表 */}
+      <div style={{ maxHeight: '420px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        {candidates.map((candidate, index) => {
+          const isEditing = editingIndex === index;
+          const isRegenerating = regeneratingIndex === index;
+          const text = isEditing ? editText : candidate;
+          const weightedLength = TweetLength.getWeightedLength(text);
+          // 同时受风格的回复上限和整条推文的上限（含保留的原有内容）限制
+          const totalLength = existingLength + weightedLength;
+          const remaining = Math.min(maxLength - weightedLength, MAX_REPLY_LENGTH - totalLength);
+          const limit = weightedLength + remaining;
+
+          return (
+            <div
+              key={index}
+              style={{
+                border: '1px solid #e2e8f0',
+                borderRadius: '12px',
+                padding: '10px 12px',
+                backgroundColor: isRegenerating ? '#f8fafc' : 'white',
+              }}
+            >
+              {isEditing ? (
+                <textarea
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  rows={4}
+                  autoFocus
+                  style={{
+                    width: '100%',
+                    boxSizing: 'border-box',
+                    border: '1px solid #cbd5e1',
+                    borderRadius: '8px',
+                    padding: '6px 8px',
+                    fontSize: '14px',
+                    lineHeight: '20px',
+                    fontFamily: 'inherit',
+                    resize: 'vertical',
+                  }}
+                />
+              ) : (
+                <div
+                  style={{
+                    fontSize: '14px',
+                    lineHeight: '20px',
+                    color: isRegenerating ? '#94a3b8' : '#0f1419',
+                    whiteSpace: 'pre-wrap',
+                    wordBreak: 'break-word',
+                  }}
+                >
+                  {isRegenerating ? '正在重新生成...' : candidate}
+                </div>
+              )}
+
+              <div
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  marginTop: '8px',
+                  gap: '6px',
+                }}
+              >
+                <span
+                  title="按 X 的计数规则：中日韩文字和 emoji 计 2，链接计 23"
+                  style={{ fontSize: '12px', color: remaining < 0 ? '#f4212e' : '#64748b' }}
+                >
+                  {weightedLength}/{limit} · 剩余 {remaining}
+                </span>
+
+                <div style={{ display: 'flex', gap: '6px' }}>
+                  {isEditing ? (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => setEditingIndex(null)}
+                        style={actionButtonStyle(false, false)}
+                      >
+                        取消
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onInsert(editText.trim(), index)}
+                        disabled={editText.trim() === ''}
+                        style={actionButtonStyle(true, editText.trim() === '')}
+                      >
+                        确认插入
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => onRegenerate(index)}
+                        disabled={regeneratingIndex !== null}
+                        title="重新生成这一条"
+                        style={actionButtonStyle(false, regeneratingIndex !== null)}
+                      >
+                        🔄
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => startEditing(index)}
+                        disabled={isRegenerating}
+                        style={actionButtonStyle(false, isRegenerating)}
+                      >
+                        编辑后插入
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onInsert(candidate, index)}
+                        disabled={isRegenerating}
+                        style={actionButtonStyle(true, isRegenerating)}
+                      >
+                        插入
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,59 @@
 /**
  * 自定义风格管理组件
  *
- * 提供自定义回复风格的 CRUD 功能界面
+ * 提供自定义回复风格的 CRUD 功能界面，以及导入导出 JSON 风格包
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { StorageService, ConfigValidator } from '../services/storage-service';
-import type { CustomReplyStyle } from '../types';
-import { MAX_CUSTOM_STYLES, CUSTOM_STYLE_CONSTRAINTS, ErrorHelper } from '../types';
+import type {
+  AIProfile,
+  CustomReplyStyle,
+  StyleConflictStrategy,
+  StyleOverrides,
+  StylePackage,
+} from '../types';
+import {
+  MAX_CUSTOM_STYLES,
+  MAX_REPLY_LENGTH,
+  CUSTOM_STYLE_CONSTRAINTS,
+  PREFERENCE_CONSTRAINTS,
+  ErrorHelper,
+} from '../types';
 
 // 常用 emoji 供快速选择
 const COMMON_EMOJIS = ['🎨', '✨', '💡', '🚀', '⚡', '🌟', '💎', '🔥', '🎯', '🎪', '🎭', '🎬'];
 
+// 导入时同名或同 ID 风格的处理方式
+const CONFLICT_STRATEGY_LABELS: Record<StyleConflictStrategy, string> = {
+  skip: '跳过已存在的风格',
+  rename: '重命名后作为新风格导入',
+  overwrite: '覆盖已存在的风格',
+};
+
+// 表单中的可选覆盖项（留空表示使用全局配置）
+const EMPTY_OVERRIDES = {
+  profileId: '',
+  model: '',
+  temperature: '',
+  maxLength: '',
+};
+
+/**
+ * 将表单中的覆盖项转换为风格字段，空值为 undefined
+ */
+function toStyleOverrides(form: typeof EMPTY_OVERRIDES): StyleOverrides {
+  return {
+    profileId: form.profileId || undefined,
+    model: form.model.trim() || undefined,
+    temperature: form.temperature.trim() === '' ? undefined : Number(form.temperature),
+    maxLength: form.maxLength.trim() === '' ? undefined : Number(form.maxLength),
+  };
+}
+
 export function CustomStyleManager() {
   const [styles, setStyles] = useState<CustomReplyStyle[]>([]);
+  const [profiles, setProfiles] = useState<AIProfile[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
@@ -25,9 +65,17 @@ export function CustomStyleManager() {
     icon: '🎨',
     description: '',
     systemPrompt: '',
+    ...EMPTY_OVERRIDES,
   });
+  const [showAdvanced, setShowAdvanced] = useState(false);
   const [formErrors, setFormErrors] = useState<string[]>([]);
 
+  // 导入导出状态
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; stylePackage: StylePackage } | null>(null);
+  const [importStrategy, setImportStrategy] = useState<StyleConflictStrategy>('rename');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
   // 加载自定义风格
   useEffect(() => {
     loadStyles();
@@ -35,8 +83,13 @@ export function CustomStyleManager() {
 
   const loadStyles = async () => {
     try {
-      const loadedStyles = await StorageService.getCustomStyles();
+      const [loadedStyles, loadedProfiles] = await Promise.all([
+        StorageService.getCustomStyles(),
+        StorageService.getProfiles(),
+      ]);
       setStyles(loadedStyles);
+      setProfiles(loadedProfiles);
+      setSelectedIds((prev) => prev.filter((id) => loadedStyles.some((style) => style.id === id)));
     } catch (error: unknown) {
       const formatted = ErrorHelper.formatForUser(error);
       setMessage({ type: 'error', text: `加载失败：${formatted}` });
@@ -51,7 +104,9 @@ export function CustomStyleManager() {
       icon: '🎨',
       description: '',
       systemPrompt: '',
+      ...EMPTY_OVERRIDES,
     });
+    setShowAdvanced(false);
     setFormErrors([]);
     setShowForm(true);
   };
@@ -64,15 +119,33 @@ export function CustomStyleManager() {
       icon: style.icon,
       description: style.description,
       systemPrompt: style.systemPrompt,
+      profileId: style.profileId ?? '',
+      model: style.model ?? '',
+      temperature: style.temperature?.toString() ?? '',
+      maxLength: style.maxLength?.toString() ?? '',
     });
+    setShowAdvanced(
+      style.profileId !== undefined ||
+      style.model !== undefined ||
+      style.temperature !== undefined ||
+      style.maxLength !== undefined
+    );
     setFormErrors([]);
     setShowForm(true);
   };
 
   // 保存（添加或更新）
   const handleSave = async () => {
+    const styleData = {
+      name: formData.name,
+      icon: formData.icon,
+      description: formData.description,
+      systemPrompt: formData.systemPrompt,
+      ...toStyleOverrides(formData),
+    };
+
     // 验证
-    const validation = ConfigValidator.validateCustomStyle(formData);
+    const validation = ConfigValidator.validateCustomStyle(styleData);
     if (!validation.valid) {
       setFormErrors(validation.errors);
       return;
@@ -84,11 +157,11 @@ export function CustomStyleManager() {
     try {
       if (editingId) {
         // 更新
-        await StorageService.updateCustomStyle(editingId, formData);
+        await StorageService.updateCustomStyle(editingId, styleData);
         setMessage({ type: 'success', text: '✅ 风格已更新' });
       } else {
         // 添加
-        await StorageService.saveCustomStyle(formData);
+        await StorageService.saveCustomStyle(styleData);
         setMessage({ type: 'success', text: '✅ 风格已添加' });
       }
 
@@ -134,6 +207,96 @@ export function CustomStyleManager() {
     }
   };
 
+  // 勾选或取消勾选要导出的风格
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]
+    );
+  };
+
+  // 导出所选风格（未勾选时导出全部）为 JSON 文件
+  const handleExport = async () => {
+    try {
+      const stylePackage = await StorageService.exportCustomStyles(
+        selectedIds.length > 0 ? selectedIds : undefined
+      );
+
+      const blob = new Blob([JSON.stringify(stylePackage, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `reply-styles-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setMessage({ type: 'success', text: `✅ 已导出 ${stylePackage.styles.length} 个风格` });
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: formatted });
+    }
+  };
+
+  // 读取并校验导入文件，确认后再写入
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setMessage({ type: 'error', text: '❌ 无法读取文件：不是有效的 JSON' });
+      return;
+    }
+
+    const validation = ConfigValidator.validateStylePackage(data);
+    if (!validation.valid) {
+      setMessage({ type: 'error', text: `❌ 无法导入：\n${validation.errors.join('\n')}` });
+      return;
+    }
+
+    setMessage(null);
+    setPendingImport({ fileName: file.name, stylePackage: data as StylePackage });
+  };
+
+  // 按所选方式导入
+  const handleImport = async () => {
+    if (!pendingImport) return;
+
+    setIsLoading(true);
+
+    try {
+      const result = await StorageService.importCustomStyles(pendingImport.stylePackage, importStrategy);
+      const lines = [
+        `导入 ${result.imported.length} 个，覆盖 ${result.overwritten.length} 个，跳过 ${result.skipped.length} 个`,
+        ...result.skipped.map(({ name, reason }) => `• ${name}：${reason}`),
+      ];
+      const changed = result.imported.length + result.overwritten.length > 0;
+
+      setMessage({ type: changed ? 'success' : 'error', text: `${changed ? '✅' : '⚠️'} ${lines.join('\n')}` });
+      setPendingImport(null);
+      await loadStyles();
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: formatted });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 导入文件中与现有风格同名或同 ID 的数量
+  const conflictCount = pendingImport
+    ? pendingImport.stylePackage.styles.filter((incoming) =>
+        styles.some((style) =>
+          style.id === incoming?.id ||
+          (typeof incoming?.name === 'string' &&
+            style.name.trim().toLowerCase() === incoming.name.trim().toLowerCase())
+        )
+      ).length
+    : 0;
+
   // 取消编辑
   const handleCancel = () => {
     setShowForm(false);
@@ -170,8 +333,83 @@ export function CustomStyleManager() {
             <span>添加新风格</span>
           </button>
         </div>
+
+        {/* 导入导出 */}
+        <div className="flex gap-2 mt-3 pt-3 border-t border-gray-100">
+          <button
+            onClick={handleExport}
+            disabled={isLoading || styles.length === 0}
+            className="modern-btn flex-1 px-3 py-2 text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:transform-none"
+          >
+            📤 {selectedIds.length > 0 ? `导出所选（${selectedIds.length}）` : '导出全部'}
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading || showForm}
+            className="modern-btn flex-1 px-3 py-2 text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:transform-none"
+          >
+            📥 导入风格包
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileSelected}
+            className="hidden"
+          />
+        </div>
       </div>
 
+      {/* 导入确认 */}
+      {pendingImport && (
+        <div className="modern-card bg-gradient-to-br from-blue-50 to-indigo-50 border-blue-200 p-4 space-y-3 animate-fade-in">
+          <div>
+            <h4 className="font-semibold text-gray-800">导入风格包</h4>
+            <p className="text-xs text-gray-600 mt-0.5 break-all">
+              {pendingImport.fileName}：{pendingImport.stylePackage.styles.length} 个风格
+              {conflictCount > 0 && `，其中 ${conflictCount} 个与现有风格同名或同 ID`}
+            </p>
+          </div>
+
+          {conflictCount > 0 && (
+            <div className="space-y-1.5">
+              {(Object.keys(CONFLICT_STRATEGY_LABELS) as StyleConflictStrategy[]).map((strategy) => (
+                <label key={strategy} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="import-strategy"
+                    checked={importStrategy === strategy}
+                    onChange={() => setImportStrategy(strategy)}
+                  />
+                  {CONFLICT_STRATEGY_LABELS[strategy]}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            最多保留 {MAX_CUSTOM_STYLES} 个自定义风格，超出的风格会被跳过；风格包不包含配置档案设置
+          </p>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleImport}
+              disabled={isLoading}
+              className="modern-btn flex-1 py-2 px-4 bg-gradient-to-r from-blue-600 to-blue-500 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+            >
+              {isLoading ? '导入中...' : '导入'}
+            </button>
+            <button
+              onClick={() => setPendingImport(null)}
+              disabled={isLoading}
+              className="modern-btn py-2 px-4 bg-white border-2 border-gray-200 text-gray-700 text-sm font-medium hover:border-gray-300 disabled:opacity-50 disabled:transform-none"
+            >
+              取消
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* 消息提示 */}
       {message && (
         <div
@@ -308,6 +546,107 @@ export function CustomStyleManager() {
               </p>
             </div>
 
+            {/* 高级设置（可选覆盖项） */}
+            <div className="border-t border-blue-200 pt-4">
+              <button
+                type="button"
+                onClick={() => setShowAdvanced(!showAdvanced)}
+                className="flex items-center gap-1.5 text-sm font-semibold text-gray-800"
+              >
+                <span>{showAdvanced ? '▾' : '▸'}</span>
+                <span>高级设置（可选）</span>
+              </button>
+              <p className="text-xs text-gray-600 mt-1">
+                为该风格单独指定模型和参数，留空则使用全局配置与生成偏好
+              </p>
+
+              {showAdvanced && (
+                <div className="space-y-4 mt-4">
+                  {/* 配置档案 */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-800 mb-2">
+                      配置档案
+                    </label>
+                    <select
+                      value={formData.profileId}
+                      onChange={(e) => setFormData({ ...formData, profileId: e.target.value })}
+                      className="modern-input w-full px-3 py-2 text-sm"
+                    >
+                      <option value="">使用当前配置</option>
+                      {profiles.map((profile) => (
+                        <option key={profile.id} value={profile.id}>
+                          {profile.name}（{profile.config.model}）
+                        </option>
+                      ))}
+                      {formData.profileId && !profiles.some((p) => p.id === formData.profileId) && (
+                        <option value={formData.profileId}>（档案已删除）</option>
+                      )}
+                    </select>
+                    {profiles.length === 0 && (
+                      <p className="text-xs text-gray-600 mt-1.5">
+                        可在「配置」标签页将提供商配置另存为档案
+                      </p>
+                    )}
+                  </div>
+
+                  {/* 模型 */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-800 mb-2">
+                      模型
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.model}
+                      onChange={(e) => setFormData({ ...formData, model: e.target.value })}
+                      placeholder="留空使用配置中的模型，例如：glm-4-flash"
+                      maxLength={CUSTOM_STYLE_CONSTRAINTS.MODEL_MAX_LENGTH}
+                      className="modern-input w-full px-4 py-2.5 text-sm"
+                    />
+                    <p className="text-xs text-gray-600 mt-1.5">
+                      模型需属于所选配置的提供商
+                    </p>
+                  </div>
+
+                  {/* Temperature 与最大长度 */}
+                  <div className="flex gap-3">
+                    <div className="flex-1">
+                      <label className="block text-sm font-semibold text-gray-800 mb-2">
+                        Temperature
+                      </label>
+                      <input
+                        type="number"
+                        min={PREFERENCE_CONSTRAINTS.TEMPERATURE_MIN}
+                        max={PREFERENCE_CONSTRAINTS.TEMPERATURE_MAX}
+                        step={0.1}
+                        value={formData.temperature}
+                        onChange={(e) => setFormData({ ...formData, temperature: e.target.value })}
+                        placeholder="使用偏好设置"
+                        className="modern-input w-full px-4 py-2.5 text-sm"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <label className="block text-sm font-semibold text-gray-800 mb-2">
+                        最大长度
+                      </label>
+                      <input
+                        type="number"
+                        min={CUSTOM_STYLE_CONSTRAINTS.REPLY_LENGTH_MIN}
+                        max={MAX_REPLY_LENGTH}
+                        step={10}
+                        value={formData.maxLength}
+                        onChange={(e) => setFormData({ ...formData, maxLength: e.target.value })}
+                        placeholder={`${MAX_REPLY_LENGTH}`}
+                        className="modern-input w-full px-4 py-2.5 text-sm"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-600">
+                    最大长度按 X 的计数规则计算（中日韩文字计 2），范围 {CUSTOM_STYLE_CONSTRAINTS.REPLY_LENGTH_MIN} - {MAX_REPLY_LENGTH}
+                  </p>
+                </div>
+              )}
+            </div>
+
             {/* 验证错误 */}
             {formErrors.length > 0 && (
               <div className="modern-card bg-gradient-to-br from-red-50 to-rose-50 border-red-200 p-4 animate-fade-in">
@@ -395,7 +734,15 @@ export function CustomStyleManager() {
 
                   {/* 内容 */}
                   <div className="flex-1 min-w-0">
-                    <h4 className="font-semibold text-gray-900 mb-1">{style.name}</h4>
+                    <label className="flex items-center gap-2 mb-1 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(style.id)}
+                        onChange={() => toggleSelected(style.id)}
+                        title="选择以导出"
+                      />
+                      <h4 className="font-semibold text-gray-900">{style.name}</h4>
+                    </label>
                     <p className="text-sm text-gray-600 mb-3">{style.description}</p>
 
                     {/* 系统提示词预览 */}
@@ -411,6 +758,32 @@ export function CustomStyleManager() {
                       </p>
                     </div>
 
+                    {/* 覆盖项 */}
+                    {(style.profileId || style.model || style.temperature !== undefined || style.maxLength !== undefined) && (
+                      <div className="flex flex-wrap gap-1.5 mt-3">
+                        {style.profileId && (
+                          <span className="px-2 py-0.5 text-xs font-medium text-indigo-700 bg-indigo-100 rounded-full">
+                            档案：{profiles.find((p) => p.id === style.profileId)?.name ?? '已删除'}
+                          </span>
+                        )}
+                        {style.model && (
+                          <span className="px-2 py-0.5 text-xs font-medium text-indigo-700 bg-indigo-100 rounded-full">
+                            {style.model}
+                          </span>
+                        )}
+                        {style.temperature !== undefined && (
+                          <span className="px-2 py-0.5 text-xs font-medium text-indigo-700 bg-indigo-100 rounded-full">
+                            T {style.temperature}
+                          </span>
+                        )}
+                        {style.maxLength !== undefined && (
+                          <span className="px-2 py-0.5 text-xs font-medium text-indigo-700 bg-indigo-100 rounded-full">
+                            ≤ {style.maxLength} 字符
+                          </span>
+                        )}
+                      </div>
+                    )}
+
                     {/* 时间戳 */}
                     <div className="flex items-center gap-1.5 mt-3">
                       <svg className="w-3.5 h-3.5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -0,0 +1,254 @@
+/**
+ * 生成偏好设置组件
+ *
+ * 编辑 Temperature、Top P、最大 Token 数、默认风格、候选数量、输出语言和时间线模式
+ */
+
+import { useState, useEffect } from 'react';
+import { StorageService, ConfigValidator } from '../services/storage-service';
+import type { OutputLanguage, ReplyStyle, UserPreferences } from '../types';
+import {
+  DEFAULT_USER_PREFERENCES,
+  MAX_REPLY_CANDIDATES,
+  OUTPUT_LANGUAGE_NAMES,
+  PREFERENCE_CONSTRAINTS,
+  REPLY_STYLES,
+  ErrorHelper,
+} from '../types';
+
+export function PreferencesSettings() {
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_USER_PREFERENCES);
+  const [styles, setStyles] = useState<ReplyStyle[]>(REPLY_STYLES);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // 加载偏好和可选风格
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const [stored, allStyles] = await Promise.all([
+          StorageService.getUserPreferences(),
+          StorageService.getAllStyles(),
+        ]);
+        setPreferences(stored);
+        setStyles(allStyles);
+      } catch (error: unknown) {
+        const formatted = ErrorHelper.formatForUser(error);
+        setMessage({ type: 'error', text: `加载失败：${formatted}` });
+      }
+    };
+
+    loadData();
+  }, []);
+
+  const update = <K extends keyof UserPreferences>(key: K, value: UserPreferences[K]) => {
+    setPreferences((prev) => ({ ...prev, [key]: value }));
+  };
+
+  // 保存偏好
+  const handleSave = async () => {
+    const validation = ConfigValidator.validatePreferences(preferences);
+    if (!validation.valid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      await StorageService.setUserPreferences(preferences);
+      setMessage({ type: 'success', text: '✅ 偏好已保存' });
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: formatted });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 恢复默认值（需保存后生效）
+  const handleReset = () => {
+    setPreferences({ ...DEFAULT_USER_PREFERENCES });
+    setErrors([]);
+  };
+
+  return (
+    <div className="modern-card p-4 space-y-4">
+      <div>
+        <h3 className="font-semibold text-gray-800">生成偏好</h3>
+        <p className="text-xs text-gray-500 mt-0.5">对所有提供商生效，保存后下次生成时使用</p>
+      </div>
+
+      {/* 默认风格 */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-800 mb-2">
+          默认风格
+        </label>
+        <select
+          value={preferences.defaultStyleId}
+          onChange={(e) => update('defaultStyleId', e.target.value)}
+          className="modern-input w-full px-3 py-2 text-sm"
+        >
+          {styles.map((style) => (
+            <option key={style.id} value={style.id}>
+              {style.icon} {style.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* 候选数量 */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-800 mb-2">
+          候选数量
+        </label>
+        <div className="flex gap-2">
+          {Array.from({ length: MAX_REPLY_CANDIDATES }, (_, i) => i + 1).map((count) => (
+            <button
+              key={count}
+              type="button"
+              onClick={() => update('candidateCount', count)}
+              className={`modern-btn flex-1 py-2 text-sm font-medium ${
+                preferences.candidateCount === count
+                  ? 'border-2 border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-2 border-gray-200 bg-white text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* 输出语言 */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-800 mb-2">
+          输出语言
+        </label>
+        <select
+          value={preferences.outputLanguage}
+          onChange={(e) => update('outputLanguage', e.target.value as OutputLanguage)}
+          className="modern-input w-full px-3 py-2 text-sm"
+        >
+          {(Object.keys(OUTPUT_LANGUAGE_NAMES) as OutputLanguage[]).map((language) => (
+            <option key={language} value={language}>
+              {OUTPUT_LANGUAGE_NAMES[language]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Temperature */}
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <label className="text-sm font-semibold text-gray-800">Temperature</label>
+          <span className="text-sm font-mono text-gray-700">{preferences.temperature.toFixed(1)}</span>
+        </div>
+        <input
+          type="range"
+          min={PREFERENCE_CONSTRAINTS.TEMPERATURE_MIN}
+          max={PREFERENCE_CONSTRAINTS.TEMPERATURE_MAX}
+          step={0.1}
+          value={preferences.temperature}
+          onChange={(e) => update('temperature', Number(e.target.value))}
+          className="w-full"
+        />
+        <p className="text-xs text-gray-500 mt-1">越高越有创意，越低越稳定（Claude 和 GLM 最高按 1 计算）</p>
+      </div>
+
+      {/* Top P */}
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <label className="text-sm font-semibold text-gray-800">Top P</label>
+          <span className="text-sm font-mono text-gray-700">{preferences.topP.toFixed(2)}</span>
+        </div>
+        <input
+          type="range"
+          min={PREFERENCE_CONSTRAINTS.TOP_P_MIN}
+          max={PREFERENCE_CONSTRAINTS.TOP_P_MAX}
+          step={0.05}
+          value={preferences.topP}
+          onChange={(e) => update('topP', Number(e.target.value))}
+          className="w-full"
+        />
+        <p className="text-xs text-gray-500 mt-1">1 表示不限制；一般只调整 Temperature 或 Top P 其中之一</p>
+      </div>
+
+      {/* 最大 Token 数 */}
+      <div>
+        <label className="block text-sm font-semibold text-gray-800 mb-2">
+          最大 Token 数
+        </label>
+        <input
+          type="number"
+          min={PREFERENCE_CONSTRAINTS.MAX_TOKENS_MIN}
+          max={PREFERENCE_CONSTRAINTS.MAX_TOKENS_MAX}
+          step={1}
+          value={preferences.maxTokens}
+          onChange={(e) => update('maxTokens', Number(e.target.value))}
+          className="modern-input w-full px-4 py-2.5 text-sm"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          {PREFERENCE_CONSTRAINTS.MAX_TOKENS_MIN} - {PREFERENCE_CONSTRAINTS.MAX_TOKENS_MAX}，推理模型需要更大的值
+        </p>
+      </div>
+
+      {/* 时间线模式 */}
+      <label className="flex items-start gap-2 text-sm text-gray-800 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={preferences.timelineMode}
+          onChange={(e) => update('timelineMode', e.target.checked)}
+          className="mt-0.5"
+        />
+        <span>
+          <span className="font-semibold">时间线模式</span>
+          <span className="block text-xs text-gray-500">
+            在时间线每条推文的操作栏中显示 AI 按钮，生成后自动打开回复框并填入
+          </span>
+        </span>
+      </label>
+
+      {/* 验证错误 */}
+      {errors.length > 0 && (
+        <div className="modern-card bg-gradient-to-br from-red-50 to-rose-50 border-red-200 p-3 animate-fade-in">
+          <ul className="text-sm text-red-700 list-disc list-inside space-y-1">
+            {errors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* 消息提示 */}
+      {message && (
+        <p className={`text-sm whitespace-pre-wrap ${
+          message.type === 'success' ? 'text-green-700' : 'text-red-700'
+        }`}>
+          {message.text}
+        </p>
+      )}
+
+      {/* 操作按钮 */}
+      <div className="flex gap-3">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="modern-btn flex-1 py-2.5 px-4 bg-gradient-to-r from-blue-600 to-blue-500 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+        >
+          {isSaving ? '保存中...' : '保存偏好'}
+        </button>
+        <button
+          onClick={handleReset}
+          disabled={isSaving}
+          className="modern-btn py-2.5 px-4 bg-white border-2 border-gray-200 text-gray-700 text-sm font-medium hover:border-gray-300 disabled:opacity-50 disabled:transform-none"
+        >
+          恢复默认
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+/**
+ * 配置档案组件
+ *
+ * 管理多套命名的提供商配置：切换当前档案、重命名、复制、删除，
+ * 将表单中的配置另存为新档案，并设置当前配置失败时依次尝试的备用档案
+ */
+
+import { useState, useEffect } from 'react';
+import { StorageService, ConfigValidator } from '../services/storage-service';
+import type { AIConfig, AIProfile } from '../types';
+import { MAX_PROFILES, PROFILE_CONSTRAINTS, PROVIDER_NAMES, ErrorHelper } from '../types';
+
+interface ProfileManagerProps {
+  /** 所有档案 */
+  profiles: AIProfile[];
+  /** 当前档案 ID */
+  activeProfileId: string | null;
+  /** 表单中的当前配置（另存为档案时使用） */
+  currentConfig: AIConfig;
+  /** 档案或当前档案变化后的回调（由父组件重新加载） */
+  onChange: () => void;
+}
+
+export function ProfileManager({
+  profiles,
+  activeProfileId,
+  currentConfig,
+  onChange,
+}: ProfileManagerProps) {
+  const [fallbackIds, setFallbackIds] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // 档案列表变化时重新加载备用顺序（删除档案会同时移出备用列表）
+  useEffect(() => {
+    const loadFallbackIds = async () => {
+      try {
+        const storedFallbackIds = await StorageService.getFallbackProfileIds();
+        setFallbackIds(storedFallbackIds.filter((id) => profiles.some((p) => p.id === id)));
+      } catch (error: unknown) {
+        const formatted = ErrorHelper.formatForUser(error);
+        setMessage({ type: 'error', text: `加载失败：${formatted}` });
+      }
+    };
+
+    loadFallbackIds();
+  }, [profiles]);
+
+  // 显示提示，3 秒后自动清除
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  // 执行档案操作，成功后通知父组件重新加载
+  const runAction = async (action: () => Promise<unknown>, successText?: string) => {
+    try {
+      await action();
+      onChange();
+      if (successText) {
+        showMessage('success', successText);
+      }
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: formatted });
+    }
+  };
+
+  // 另存为新档案
+  const handleSave = async () => {
+    const nameValidation = ConfigValidator.validateProfileName(name);
+    if (!nameValidation.valid) {
+      setMessage({ type: 'error', text: nameValidation.error! });
+      return;
+    }
+
+    const validation = ConfigValidator.validateConfig(currentConfig);
+    if (!validation.valid) {
+      setMessage({ type: 'error', text: `当前配置无效：\n${validation.errors.join('\n')}` });
+      return;
+    }
+
+    setIsSaving(true);
+
+    await runAction(async () => {
+      await StorageService.saveProfile(name, currentConfig);
+      setName('');
+    }, '✅ 档案已保存');
+
+    setIsSaving(false);
+  };
+
+  // 开始重命名
+  const startRename = (profile: AIProfile) => {
+    setRenamingId(profile.id);
+    setRenameValue(profile.name);
+  };
+
+  // 保存新名称
+  const handleRename = async (profileId: string) => {
+    const nameValidation = ConfigValidator.validateProfileName(renameValue);
+    if (!nameValidation.valid) {
+      setMessage({ type: 'error', text: nameValidation.error! });
+      return;
+    }
+
+    await runAction(async () => {
+      await StorageService.renameProfile(profileId, renameValue);
+      setRenamingId(null);
+    });
+  };
+
+  // 删除档案
+  const handleDelete = (profile: AIProfile) => {
+    const warning = profile.id === activeProfileId
+      ? '这是当前使用的档案，删除后需要重新选择档案。'
+      : '使用该档案的风格将改用当前配置。';
+
+    if (!confirm(`确定要删除档案"${profile.name}"吗？${warning}`)) {
+      return;
+    }
+
+    runAction(() => StorageService.deleteProfile(profile.id));
+  };
+
+  // 保存备用顺序
+  const saveFallbackIds = async (ids: string[]) => {
+    try {
+      await StorageService.setFallbackProfileIds(ids);
+      setFallbackIds(ids);
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: formatted });
+    }
+  };
+
+  // 加入或移出备用列表
+  const handleToggleFallback = (profileId: string) => {
+    saveFallbackIds(
+      fallbackIds.includes(profileId)
+        ? fallbackIds.filter((id) => id !== profileId)
+        : [...fallbackIds, profileId]
+    );
+  };
+
+  // 调整备用顺序（direction: -1 上移，1 下移）
+  const handleMoveFallback = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= fallbackIds.length) return;
+
+    const next = [...fallbackIds];
+    [next[index], next[target]] = [next[target], next[index]];
+    saveFallbackIds(next);
+  };
+
+  const fallbackProfiles = fallbackIds
+    .map((id) => profiles.find((profile) => profile.id === id))
+    .filter((profile): profile is AIProfile => profile !== undefined);
+
+  const isFull = profiles.length >= MAX_PROFILES;
+
+  return (
+    <div className="modern-card p-4 space-y-3">
+      <div>
+        <h3 className="font-semibold text-gray-800">配置档案</h3>
+        <p className="text-xs text-gray-500 mt-0.5">
+          上方表单编辑的是当前档案；也可在自定义风格中单独指定档案（{profiles.length}/{MAX_PROFILES}）
+        </p>
+      </div>
+
+      {/* 档案列表 */}
+      {profiles.length > 0 && (
+        <div className="space-y-2">
+          {profiles.map((profile) => {
+            const isActive = profile.id === activeProfileId;
+            const isFallback = fallbackIds.includes(profile.id);
+
+            return (
+              <div
+                key={profile.id}
+                className={`p-2.5 rounded-lg border space-y-2 ${
+                  isActive ? 'bg-blue-50 border-blue-300' : 'bg-gray-50 border-gray-200'
+                }`}
+              >
+                {renamingId === profile.id ? (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename(profile.id);
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      maxLength={PROFILE_CONSTRAINTS.NAME_MAX_LENGTH}
+                      autoFocus
+                      className="modern-input flex-1 px-2 py-1 text-sm"
+                    />
+                    <button
+                      onClick={() => handleRename(profile.id)}
+                      className="modern-btn px-3 py-1 text-xs bg-blue-600 text-white"
+                    >
+                      保存
+                    </button>
+                    <button
+                      onClick={() => setRenamingId(null)}
+                      className="modern-btn px-3 py-1 text-xs bg-white border border-gray-200 text-gray-700"
+                    >
+                      取消
+                    </button>
+                  </div>
+                ) : (
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-800 truncate">
+                      {profile.name}
+                      {isActive && (
+                        <span className="ml-1.5 px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 text-xs">当前</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {PROVIDER_NAMES[profile.config.provider]} · {profile.config.model}
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-1.5">
+                  {!isActive && (
+                    <button
+                      onClick={() => runAction(() => StorageService.setActiveProfile(profile.id))}
+                      className="modern-btn px-2.5 py-1 text-xs bg-blue-100 text-blue-700 hover:bg-blue-200"
+                    >
+                      设为当前
+                    </button>
+                  )}
+                  <button
+                    onClick={() => startRename(profile)}
+                    className="modern-btn px-2.5 py-1 text-xs bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    重命名
+                  </button>
+                  <button
+                    onClick={() => runAction(() => StorageService.duplicateProfile(profile.id), '✅ 已复制档案')}
+                    disabled={isFull}
+                    className="modern-btn px-2.5 py-1 text-xs bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:transform-none"
+                  >
+                    复制
+                  </button>
+                  <button
+                    onClick={() => handleToggleFallback(profile.id)}
+                    className={`modern-btn px-2.5 py-1 text-xs ${
+                      isFallback
+                        ? 'bg-amber-100 text-amber-700 hover:bg-amber-200'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {isFallback ? '取消备用' : '设为备用'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(profile)}
+                    className="modern-btn px-2.5 py-1 text-xs bg-red-100 text-red-700 hover:bg-red-200"
+                  >
+                    删除
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* 备用顺序 */}
+      {fallbackProfiles.length > 0 && (
+        <div className="space-y-1.5">
+          <p className="text-xs font-semibold text-gray-700">备用顺序</p>
+          <p className="text-xs text-gray-500">当前配置出错或被限流时，按以下顺序改用备用档案</p>
+          {fallbackProfiles.map((profile, index) => (
+            <div
+              key={profile.id}
+              className="flex items-center justify-between gap-2 px-2.5 py-1.5 bg-amber-50 rounded-lg border border-amber-200"
+            >
+              <span className="text-xs text-gray-800 truncate">
+                {index + 1}. {profile.name}（{PROVIDER_NAMES[profile.config.provider]}）
+              </span>
+              <div className="flex gap-1 flex-shrink-0">
+                <button
+                  onClick={() => handleMoveFallback(index, -1)}
+                  disabled={index === 0}
+                  className="modern-btn px-2 py-0.5 text-xs bg-white border border-gray-200 text-gray-700 disabled:opacity-40 disabled:transform-none"
+                  title="上移"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => handleMoveFallback(index, 1)}
+                  disabled={index === fallbackProfiles.length - 1}
+                  className="modern-btn px-2 py-0.5 text-xs bg-white border border-gray-200 text-gray-700 disabled:opacity-40 disabled:transform-none"
+                  title="下移"
+                >
+                  ↓
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* 另存为档案 */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="档案名称，例如：工作 DeepSeek"
+          maxLength={PROFILE_CONSTRAINTS.NAME_MAX_LENGTH}
+          className="modern-input flex-1 px-3 py-2 text-sm"
+        />
+        <button
+          onClick={handleSave}
+          disabled={isSaving || isFull}
+          className="modern-btn px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-500 text-white text-sm font-medium whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+        >
+          {isSaving ? '保存中...' : '另存为新档案'}
+        </button>
+      </div>
+
+      {message && (
+        <p className={`text-sm whitespace-pre-wrap ${
+          message.type === 'success' ? 'text-green-700' : 'text-red-700'
+        }`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * 请求限速设置组件
+ *
+ * 为每个提供商设置每分钟请求数和突发请求数，超出时请求会排队等待
+ */
+
+import { useState, useEffect } from 'react';
+import { StorageService, ConfigValidator } from '../services/storage-service';
+import type { AIProvider, RateLimitConfig, RateLimitSettings as RateLimits } from '../types';
+import {
+  DEFAULT_RATE_LIMITS,
+  PROVIDER_NAMES,
+  RATE_LIMIT_CONSTRAINTS,
+  RATE_LIMIT_MAX_WAIT,
+  ErrorHelper,
+} from '../types';
+
+export function RateLimitSettings() {
+  const [limits, setLimits] = useState<RateLimits>(DEFAULT_RATE_LIMITS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    StorageService.getRateLimits()
+      .then(setLimits)
+      .catch((error: unknown) => {
+        const formatted = ErrorHelper.formatForUser(error);
+        setMessage({ type: 'error', text: `加载失败：${formatted}` });
+      });
+  }, []);
+
+  const update = (provider: AIProvider, key: keyof RateLimitConfig, value: number) => {
+    setLimits((prev) => ({ ...prev, [provider]: { ...prev[provider], [key]: value } }));
+  };
+
+  // 保存限速设置
+  const handleSave = async () => {
+    const validation = ConfigValidator.validateRateLimits(limits);
+    if (!validation.valid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      await StorageService.setRateLimits(limits);
+      setMessage({ type: 'success', text: '✅ 限速设置已保存' });
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: formatted });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 恢复默认值（需保存后生效）
+  const handleReset = () => {
+    setLimits({ ...DEFAULT_RATE_LIMITS });
+    setErrors([]);
+  };
+
+  return (
+    <div className="modern-card p-4 space-y-3">
+      <div>
+        <h3 className="font-semibold text-gray-800">请求限速</h3>
+        <p className="text-xs text-gray-500 mt-0.5">
+          超出速率的请求会排队等待，按钮上显示倒计时；提供商返回限流时自动暂停。
+          每分钟请求数为 0 表示不限制，排队超过 {RATE_LIMIT_MAX_WAIT / 1000} 秒时直接报错
+        </p>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_auto] gap-x-2 gap-y-1.5 items-center text-sm">
+        <span className="text-xs font-semibold text-gray-600">提供商</span>
+        <span className="text-xs font-semibold text-gray-600 w-20">每分钟</span>
+        <span className="text-xs font-semibold text-gray-600 w-20">突发</span>
+        {(Object.keys(PROVIDER_NAMES) as AIProvider[]).map((provider) => (
+          <div key={provider} className="contents">
+            <span className="text-gray-800 truncate">{PROVIDER_NAMES[provider]}</span>
+            <input
+              type="number"
+              min={0}
+              max={RATE_LIMIT_CONSTRAINTS.REQUESTS_PER_MINUTE_MAX}
+              step={1}
+              value={limits[provider].requestsPerMinute}
+              onChange={(e) => update(provider, 'requestsPerMinute', Number(e.target.value))}
+              className="modern-input w-20 px-2 py-1 text-sm"
+            />
+            <input
+              type="number"
+              min={RATE_LIMIT_CONSTRAINTS.BURST_MIN}
+              max={RATE_LIMIT_CONSTRAINTS.BURST_MAX}
+              step={1}
+              value={limits[provider].burst}
+              onChange={(e) => update(provider, 'burst', Number(e.target.value))}
+              className="modern-input w-20 px-2 py-1 text-sm"
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* 验证错误 */}
+      {errors.length > 0 && (
+        <div className="modern-card bg-gradient-to-br from-red-50 to-rose-50 border-red-200 p-3 animate-fade-in">
+          <ul className="text-sm text-red-700 list-disc list-inside space-y-1">
+            {errors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* 消息提示 */}
+      {message && (
+        <p className={`text-sm whitespace-pre-wrap ${
+          message.type === 'success' ? 'text-green-700' : 'text-red-700'
+        }`}>
+          {message.text}
+        </p>
+      )}
+
+      {/* 操作按钮 */}
+      <div className="flex gap-3">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="modern-btn flex-1 py-2.5 px-4 bg-gradient-to-r from-blue-600 to-blue-500 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+        >
+          {isSaving ? '保存中...' : '保存限速'}
+        </button>
+        <button
+          onClick={handleReset}
+          disabled={isSaving}
+          className="modern-btn py-2.5 px-4 bg-white border-2 border-gray-200 text-gray-700 text-sm font-medium hover:border-gray-300 disabled:opacity-50 disabled:transform-none"
+        >
+          恢复默认
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+/**
+ * 回复历史组件
+ *
+ * 浏览已生成的回复：搜索、按风格和日期筛选、复制、重新生成
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { HistoryService } from '../services/history-service';
+import { StorageService } from '../services/storage-service';
+import { BackgroundClient } from '../services/background-client';
+import type { ReplyHistoryEntry, ReplyStyle } from '../types';
+import { PROVIDER_NAMES, ErrorHelper, REWRITE_OPERATIONS, REWRITE_STYLE_PREFIX } from '../types';
+
+// 日期筛选范围
+type DateRange = 'all' | 'today' | '7d' | '30d';
+
+const DATE_RANGE_LABELS: Record<DateRange, string> = {
+  all: '全部时间',
+  today: '今天',
+  '7d': '最近 7 天',
+  '30d': '最近 30 天',
+};
+
+// 每次渲染的条目数，避免历史较多时弹窗卡顿
+const PAGE_SIZE = 30;
+
+/**
+ * 获取日期范围的起始时间戳
+ */
+function getRangeStart(range: DateRange): number {
+  const now = new Date();
+
+  switch (range) {
+    case 'today':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    case '7d':
+      return now.getTime() - 7 * 24 * 60 * 60 * 1000;
+    case '30d':
+      return now.getTime() - 30 * 24 * 60 * 60 * 1000;
+    default:
+      return 0;
+  }
+}
+
+export function ReplyHistory() {
+  const [entries, setEntries] = useState<ReplyHistoryEntry[]>([]);
+  const [styles, setStyles] = useState<ReplyStyle[]>([]);
+  const [search, setSearch] = useState('');
+  const [styleFilter, setStyleFilter] = useState('all');
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [rerunningId, setRerunningId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // 加载历史和风格，并监听其他页面写入的新记录
+  useEffect(() => {
+    loadData();
+    return HistoryService.onHistoryChange(setEntries);
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [history, allStyles] = await Promise.all([
+        HistoryService.getHistory(),
+        StorageService.getAllStyles(),
+      ]);
+      setEntries(history);
+      setStyles(allStyles);
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: `加载失败：${formatted}` });
+    }
+  };
+
+  // 应用搜索和筛选
+  const filteredEntries = useMemo(() => {
+    const keyword = search.trim().toLowerCase();
+    const rangeStart = getRangeStart(dateRange);
+
+    return entries.filter((entry) => {
+      if (styleFilter !== 'all' && entry.styleId !== styleFilter) return false;
+      if (entry.createdAt < rangeStart) return false;
+      if (!keyword) return true;
+
+      return [entry.reply, entry.tweetText, entry.authorHandle ?? '']
+        .some((text) => text.toLowerCase().includes(keyword));
+    });
+  }, [entries, search, styleFilter, dateRange]);
+
+  // 风格的显示名称，润色草稿的记录显示润色操作
+  const getStyleLabel = (styleId: string): string => {
+    const rewrite = REWRITE_OPERATIONS.find((op) => styleId === `${REWRITE_STYLE_PREFIX}${op.id}`);
+    if (rewrite) return `${rewrite.icon} 润色草稿：${rewrite.name}`;
+
+    const style = styles.find((s) => s.id === styleId);
+    return style ? `${style.icon} ${style.name}` : styleId;
+  };
+
+  // 显示提示，3 秒后自动清除
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  // 复制回复
+  const handleCopy = async (entry: ReplyHistoryEntry) => {
+    try {
+      await navigator.clipboard.writeText(entry.reply);
+      setCopiedId(entry.id);
+      setTimeout(() => setCopiedId(null), 1500);
+    } catch (error: unknown) {
+      console.error('复制失败:', error);
+      showMessage('error', '复制失败，请手动选择文本复制');
+    }
+  };
+
+  // 用相同的推文和风格重新生成
+  const handleRerun = async (entry: ReplyHistoryEntry) => {
+    setRerunningId(entry.id);
+
+    try {
+      const reply = await BackgroundClient.generateReply(entry.tweetText, entry.styleId);
+
+      await HistoryService.addEntry({
+        tweetText: entry.tweetText,
+        tweetId: entry.tweetId,
+        tweetUrl: entry.tweetUrl,
+        authorHandle: entry.authorHandle,
+        styleId: entry.styleId,
+        reply: reply.text,
+        provider: reply.provider,
+        model: reply.model,
+        latency: reply.latency,
+        usage: reply.usage,
+        isFallback: reply.isFallback,
+        inserted: false,
+      });
+
+      showMessage('success', '✅ 已重新生成，新回复在列表顶部');
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: `重新生成失败：\n${formatted}` });
+    } finally {
+      setRerunningId(null);
+    }
+  };
+
+  // 删除单条记录
+  const handleDelete = async (id: string) => {
+    try {
+      await HistoryService.deleteEntry(id);
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: formatted });
+    }
+  };
+
+  // 清空历史
+  const handleClear = async () => {
+    if (!confirm('确定要清空全部回复历史吗？此操作不可撤销。')) return;
+
+    try {
+      await HistoryService.clearHistory();
+      setEntries([]);
+      showMessage('success', '✅ 历史已清空');
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: formatted });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* 搜索和筛选 */}
+      <div className="modern-card p-4 space-y-3">
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="font-semibold text-gray-800">回复历史</h3>
+            <p className="text-sm text-gray-600 mt-0.5">
+              共 {entries.length} 条，显示 {filteredEntries.length} 条
+            </p>
+          </div>
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="modern-btn px-4 py-2 bg-white border-2 border-gray-200 text-gray-700 text-sm font-medium hover:border-red-300 hover:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+          >
+            清空历史
+          </button>
+        </div>
+
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setVisibleCount(PAGE_SIZE);
+          }}
+          placeholder="搜索回复、推文内容或作者..."
+          className="modern-input w-full px-4 py-2.5 text-sm"
+        />
+
+        <div className="flex gap-2">
+          <select
+            value={styleFilter}
+            onChange={(e) => {
+              setStyleFilter(e.target.value);
+              setVisibleCount(PAGE_SIZE);
+            }}
+            className="modern-input flex-1 px-3 py-2 text-sm"
+          >
+            <option value="all">全部风格</option>
+            {styles.map((style) => (
+              <option key={style.id} value={style.id}>
+                {style.icon} {style.name}
+              </option>
+            ))}
+            {REWRITE_OPERATIONS.map((operation) => (
+              <option key={operation.id} value={`${REWRITE_STYLE_PREFIX}${operation.id}`}>
+                {operation.icon} 润色草稿：{operation.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={dateRange}
+            onChange={(e) => {
+              setDateRange(e.target.value as DateRange);
+              setVisibleCount(PAGE_SIZE);
+            }}
+            className="modern-input flex-1 px-3 py-2 text-sm"
+          >
+            {(Object.keys(DATE_RANGE_LABELS) as DateRange[]).map((range) => (
+              <option key={range} value={range}>
+                {DATE_RANGE_LABELS[range]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* 消息提示 */}
+      {message && (
+        <div
+          className={`modern-card p-4 animate-fade-in ${
+            message.type === 'success'
+              ? 'bg-gradient-to-br from-green-50 to-emerald-50 border-green-200'
+              : 'bg-gradient-to-br from-red-50 to-rose-50 border-red-200'
+          }`}
+        >
+          <pre className={`text-sm whitespace-pre-wrap font-sans ${
+            message.type === 'success' ? 'text-green-800' : 'text-red-800'
+          }`}>{message.text}</pre>
+        </div>
+      )}
+
+      {/* 历史列表 */}
+      {filteredEntries.length === 0 ? (
+        <div className="modern-card p-12 text-center animate-fade-in">
+          <p className="text-gray-500 font-medium mb-1">
+            {entries.length === 0 ? '暂无回复历史' : '没有符合条件的记录'}
+          </p>
+          <p className="text-xs text-gray-400">
+            {entries.length === 0 ? '在 Twitter 上生成的回复会自动保存在这里' : '试试调整搜索词或筛选条件'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filteredEntries.slice(0, visibleCount).map((entry) => {
+            // 润色记录没有保存原草稿，无法重新生成
+            const isRewrite = entry.styleId.startsWith(REWRITE_STYLE_PREFIX);
+
+            return (
+              <div key={entry.id} className="modern-card p-4 animate-fade-in">
+                {/* 风格、时间和状态 */}
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <span className="text-sm font-medium text-gray-800 truncate">
+                    {getStyleLabel(entry.styleId)}
+                  </span>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {entry.inserted && (
+                      <span className="px-2 py-0.5 text-xs font-medium text-green-700 bg-green-100 rounded-full">
+                        已插入
+                      </span>
+                    )}
+                    <span className="text-xs text-gray-500">
+                      {new Date(entry.createdAt).toLocaleString('zh-CN')}
+                    </span>
+                  </div>
+                </div>
+
+                {/* 回复内容 */}
+                <p className="text-sm text-gray-900 whitespace-pre-wrap break-words mb-3">
+                  {entry.reply}
+                </p>
+
+                {/* 原推文 */}
+                <div className="bg-gray-50 rounded-lg p-3 mb-3">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs font-medium text-gray-600">
+                      {entry.authorHandle ? `@${entry.authorHandle}` : '原推文'}
+                    </span>
+                    {entry.tweetUrl && (
+                      <a
+                        href={entry.tweetUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-blue-600 hover:text-blue-700"
+                      >
+                        查看推文 ↗
+                      </a>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-600 line-clamp-3 break-words">
+                    {entry.tweetText || '(未获取到推文内容)'}
+                  </p>
+                </div>
+
+                {/* 生成信息 */}
+                <p className="text-xs text-gray-500 mb-3">
+                  {PROVIDER_NAMES[entry.provider] ?? entry.provider} · {entry.model} · {entry.latency}ms
+                  {entry.usage && ` · ${entry.usage.totalTokens} tokens`}
+                  {entry.isFallback && (
+                    <span className="ml-1.5 px-1.5 py-0.5 rounded bg-amber-100 text-amber-700">备用</span>
+                  )}
+                </p>
+
+                {/* 操作按钮 */}
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleCopy(entry)}
+                    className="modern-btn flex-1 py-2 px-3 bg-white border-2 border-gray-200 text-gray-700 text-xs font-medium hover:border-blue-300"
+                  >
+                    {copiedId === entry.id ? '✅ 已复制' : '📋 复制'}
+                  </button>
+                  <button
+                    onClick={() => handleRerun(entry)}
+                    disabled={rerunningId !== null || isRewrite}
+                    title={isRewrite ? '润色记录不保存原草稿，无法重新生成' : undefined}
+                    className="modern-btn flex-1 py-2 px-3 bg-gradient-to-r from-blue-600 to-blue-500 text-white text-xs font-medium disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+                  >
+                    {rerunningId === entry.id ? '生成中...' : '🔄 重新生成'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(entry.id)}
+                    className="modern-btn py-2 px-3 bg-white border-2 border-gray-200 text-gray-500 text-xs font-medium hover:border-red-300 hover:text-red-600"
+                  >
+                    删除
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+
+          {filteredEntries.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+              className="modern-btn w-full py-2.5 bg-white border-2 border-gray-200 text-gray-700 text-sm font-medium hover:border-gray-300"
+            >
+              显示更多（剩余 {filteredEntries.length - visibleCount} 条）
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
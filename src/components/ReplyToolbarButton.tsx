@@ -5,207 +5,425 @@
  * 点击后显示风格选择器，选择风格后生成回复
  */
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { StyleSelector } from './StyleSelector';
-import { AIService } from '../services/ai-service';
+import { StreamingPreview } from './StreamingPreview';
+import { CandidatePicker } from './CandidatePicker';
+import { BackgroundClient } from '../services/background-client';
+import { HistoryService } from '../services/history-service';
+import { StorageService } from '../services/storage-service';
 import { TwitterDOM } from '../utils/twitter-dom';
-import { ErrorHelper, AppError, ErrorType } from '../types';
+import { Toast } from '../utils/toast';
+import { TweetLength } from '../utils/tweet-length';
+import { ErrorHelper, AppError, ErrorType, PROVIDER_NAMES, MAX_UNDO_SNAPSHOTS, MAX_REPLY_LENGTH, REWRITE_STYLE_PREFIX } from '../types';
+import type { GeneratedReply, InsertMode, RewriteOperation, TextSelection, TweetContext, TweetInfo } from '../types';
 
-interface ReplyToolbarButtonProps {
-  /** 推文文本内容 */
-  tweetText: string;
-  /** 回复框元素（Draft.js contenteditable div）*/
+/**
+ * AI 插入前输入框的内容，用于撤销
+ */
+interface ComposerSnapshot {
   replyBox: HTMLElement;
+  text: string;
+}
+
+interface ReplyToolbarButtonProps {
+  /** 要回复的推文及其对话上下文 */
+  tweetContext: TweetContext;
+  /** 推文 ID、链接和作者（用于回复历史） */
+  tweetInfo?: TweetInfo;
+  /** 获取要填入的回复框元素（Draft.js contenteditable div；串推编辑器中为正在编辑的那一条）*/
+  getReplyBox: () => HTMLElement;
 }
 
-export function ReplyToolbarButton({ tweetText, replyBox }: ReplyToolbarButtonProps) {
+export function ReplyToolbarButton({ tweetContext, tweetInfo, getReplyBox }: ReplyToolbarButtonProps) {
+  const tweetText = tweetContext.target.text;
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [lastError, setLastError] = useState<AppError | null>(null);
   const [lastStyleId, setLastStyleId] = useState<string | null>(null);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [insertMode, setInsertMode] = useState<InsertMode>('replace');
+  const [undoCount, setUndoCount] = useState(0);
+  const [hasDraft, setHasDraft] = useState(false);
+  const [defaultStyleId, setDefaultStyleId] = useState<string | undefined>(undefined);
+  const [candidates, setCandidates] = useState<GeneratedReply[]>([]);
+  const [candidateHistoryIds, setCandidateHistoryIds] = useState<(string | null)[]>([]);
+  const [candidateStyleId, setCandidateStyleId] = useState<string | null>(null);
+  // 候选回复所用风格的长度上限
+  const [candidateMaxLength, setCandidateMaxLength] = useState(MAX_REPLY_LENGTH);
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+  const [isHovered, setIsHovered] = useState(false);
+  // 限速排队时请求的发送时间，以及剩余秒数（用于按钮倒计时）
+  const [waitUntil, setWaitUntil] = useState<number | null>(null);
+  const [waitSeconds, setWaitSeconds] = useState<number | null>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
+  // 当前生成请求的取消控制器
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // 候选回复「重新生成」请求的取消控制器（关闭候选面板时取消）
+  const regenerateControllerRef = useRef<AbortController | null>(null);
+  // 点击 AI 按钮前输入框中的光标/选区（焦点离开输入框后就取不到了）
+  const selectionRef = useRef<TextSelection | null>(null);
+  // 每次 AI 插入前的输入框内容（最新的在最后）
+  const undoStackRef = useRef<ComposerSnapshot[]>([]);
+
+  // 读取用户偏好：默认候选数量和默认风格
+  useEffect(() => {
+    StorageService.getUserPreferences()
+      .then((preferences) => {
+        setCandidateCount(preferences.candidateCount);
+        setDefaultStyleId(preferences.defaultStyleId);
+      })
+      .catch((error) => {
+        console.warn('[AI Reply Toolbar] 读取用户偏好失败:', error);
+      });
+  }, []);
+
+  // 组件卸载（回复框关闭）时取消未完成的请求
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      regenerateControllerRef.current?.abort();
+    };
+  }, []);
+
+  // 排队倒计时
+  useEffect(() => {
+    if (waitUntil === null) {
+      setWaitSeconds(null);
+      return;
+    }
+
+    const tick = () => {
+      const remaining = Math.ceil((waitUntil - Date.now()) / 1000);
+      setWaitSeconds(remaining > 0 ? remaining : null);
+    };
+
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [waitUntil]);
 
   const handleButtonClick = () => {
-    if (isLoading) return;
+    // 生成中点击按钮即取消
+    if (isLoading) {
+      abortControllerRef.current?.abort();
+      return;
+    }
+    if (!isOpen) {
+      setHasDraft(TwitterDOM.getReplyText(getReplyBox()).trim().length > 0);
+    }
     setIsOpen(!isOpen);
   };
 
   const handleSelectStyle = async (styleId: string) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setIsLoading(true);
     setIsOpen(false);
     setLastStyleId(styleId);
     setLastError(null);
+    closeCandidates();
 
     try {
-      console.log(`[AI Reply Toolbar] 开始生成回复，风格: ${styleId}`);
+      console.log(`[AI Reply Toolbar] 开始生成回复，风格: ${styleId}，候选数量: ${candidateCount}`);
+
+      if (candidateCount > 1) {
+        // 多候选模式：生成后显示选择面板，由用户决定插入哪一条
+        const replies = await BackgroundClient.generateReplies(
+          tweetContext,
+          styleId,
+          candidateCount,
+          controller.signal,
+          setWaitUntil
+        );
+        console.log(`[AI Reply Toolbar] 已生成 ${replies.length} 条候选回复`);
+        setCandidateHistoryIds(await recordHistory(styleId, replies));
+        setCandidateStyleId(styleId);
+        setCandidateMaxLength(await getStyleMaxLength(styleId));
+        setCandidates(replies);
+        return;
+      }
 
-      // 生成回复
-      const reply = await AIService.generateReply(tweetText, styleId);
+      // 流式生成回复，先在预览中显示，完成后再填充
+      setStreamingText('');
+      const reply = await BackgroundClient.generateReplyStream(tweetContext, styleId, (partialText) => {
+        setWaitUntil(null);
+        setStreamingText(partialText);
+      }, controller.signal, setWaitUntil);
+      setStreamingText(null);
 
-      console.log(`[AI Reply Toolbar] 回复生成成功: "${reply}"`);
+      console.log(`[AI Reply Toolbar] 回复生成成功: "${reply.text}"`);
 
-      // 填充回复
+      let inserted = false;
       try {
-        TwitterDOM.fillReplyText(replyBox, reply);
-        console.log('[AI Reply Toolbar] 回复已填充到输入框');
-      } catch (fillError) {
-        console.error('[AI Reply Toolbar] 填充失败:', fillError);
-        throw new AppError(
-          ErrorType.TWITTER_DOM_ERROR,
-          'Failed to fill reply text into Twitter input box',
-          fillError
-        );
+        await insertReply(reply.text, reply);
+        inserted = true;
+      } finally {
+        recordHistory(styleId, [reply], inserted ? 0 : -1);
       }
+    } catch (err: unknown) {
+      handleError(err);
+    } finally {
+      abortControllerRef.current = null;
+      setWaitUntil(null);
+      setStreamingText(null);
+      setIsLoading(false);
+    }
+  };
 
-      // 聚焦输入框
-      replyBox.focus();
+  // 润色输入框中已写好的草稿，完成后替换草稿（可撤销）
+  const handleRewrite = async (operation: RewriteOperation) => {
+    const draft = TwitterDOM.getReplyText(getReplyBox());
+    if (!draft.trim()) return;
 
-      // 显示成功提示
-      showSuccessToast('✅ 回复已生成！');
-    } catch (err: unknown) {
-      console.error('[AI Reply Toolbar] 生成失败:', err);
-
-      // Store error for potential retry
-      if (err instanceof AppError) {
-        setLastError(err);
-        showDetailedErrorToast(err);
-      } else if (err instanceof Error) {
-        const appError = new AppError(
-          ErrorType.GENERATION_FAILED,
-          err.message,
-          err
-        );
-        setLastError(appError);
-        showDetailedErrorToast(appError);
-      } else {
-        const appError = new AppError(
-          ErrorType.GENERATION_FAILED,
-          'Unknown error occurred',
-          err
-        );
-        setLastError(appError);
-        showDetailedErrorToast(appError);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsLoading(true);
+    setIsOpen(false);
+    setLastError(null);
+    closeCandidates();
+
+    try {
+      console.log(`[AI Reply Toolbar] 开始润色草稿，操作: ${operation}`);
+
+      const reply = await BackgroundClient.rewriteDraft(
+        tweetContext,
+        draft,
+        operation,
+        controller.signal,
+        setWaitUntil
+      );
+
+      console.log(`[AI Reply Toolbar] 草稿润色成功: "${reply.text}"`);
+
+      let inserted = false;
+      try {
+        await insertReply(reply.text, reply, 'replace', '✅ 草稿已润色！');
+        inserted = true;
+      } finally {
+        recordHistory(`${REWRITE_STYLE_PREFIX}${operation}`, [reply], inserted ? 0 : -1);
       }
+    } catch (err: unknown) {
+      handleError(err, () => handleRewrite(operation));
     } finally {
+      abortControllerRef.current = null;
+      setWaitUntil(null);
       setIsLoading(false);
     }
   };
 
-  // 重试上次失败的操作
-  const handleRetry = () => {
-    if (lastStyleId && !isLoading) {
-      handleSelectStyle(lastStyleId);
+  // 按选定的插入方式将回复填充到输入框，提示中注明生成回复的提供商
+  const insertReply = async (
+    reply: string,
+    source: GeneratedReply,
+    mode: InsertMode = insertMode,
+    successText = '✅ 回复已生成！'
+  ) => {
+    const replyBox = getReplyBox();
+    const snapshot = { replyBox, text: TwitterDOM.getReplyText(replyBox) };
+    pushSnapshot(snapshot);
+
+    try {
+      await TwitterDOM.fillReplyText(replyBox, reply, mode, selectionRef.current);
+      console.log('[AI Reply Toolbar] 回复已填充到输入框');
+    } catch (fillError) {
+      // 内容没有变化时不需要撤销
+      if (TwitterDOM.getReplyText(replyBox) === snapshot.text) {
+        popSnapshot();
+      }
+      console.error('[AI Reply Toolbar] 填充失败:', fillError);
+      throw new AppError(
+        ErrorType.TWITTER_DOM_ERROR,
+        'Failed to fill reply text into Twitter input box',
+        fillError
+      );
     }
-  };
 
-  // 简单的成功提示
-  const showSuccessToast = (message: string) => {
-    const toast = document.createElement('div');
-    toast.textContent = message;
-    Object.assign(toast.style, {
-      position: 'fixed',
-      top: '20px',
-      right: '20px',
-      backgroundColor: '#00ba7c',
-      color: 'white',
-      padding: '12px 24px',
-      borderRadius: '8px',
-      boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
-      zIndex: '10000',
-      fontSize: '14px',
-      fontWeight: '600',
+    // 聚焦输入框，下次插入从本次插入的文本之后开始
+    replyBox.focus();
+    selectionRef.current = TwitterDOM.getSelectionOffsets(replyBox);
+
+    // 显示成功提示
+    const providerName = PROVIDER_NAMES[source.provider];
+    Toast.success(`${successText}（${providerName}${source.isFallback ? '，备用配置' : ''}）`, {
+      label: '↩️ 撤销',
+      onClick: handleUndo,
     });
+  };
 
-    document.body.appendChild(toast);
+  // 记录插入前的内容，超出上限时丢弃最早的
+  const pushSnapshot = (snapshot: ComposerSnapshot) => {
+    undoStackRef.current = [...undoStackRef.current, snapshot].slice(-MAX_UNDO_SNAPSHOTS);
+    setUndoCount(undoStackRef.current.length);
+  };
 
-    setTimeout(() => {
-      toast.remove();
-    }, 3000);
+  const popSnapshot = (): ComposerSnapshot | undefined => {
+    const snapshot = undoStackRef.current.pop();
+    setUndoCount(undoStackRef.current.length);
+    return snapshot;
   };
 
-  // 详细的错误提示（带重试按钮）
-  const showDetailedErrorToast = (error: AppError) => {
-    const toast = document.createElement('div');
-    const errorIcon = ErrorHelper.getErrorIcon(error.type);
-    const userMessage = error.getUserMessage();
-    const info = error.getDetailedInfo();
-    const canRetry = ErrorHelper.shouldShowRetry(error);
-
-    // Create toast container
-    Object.assign(toast.style, {
-      position: 'fixed',
-      top: '20px',
-      right: '20px',
-      backgroundColor: '#f4212e',
-      color: 'white',
-      padding: '16px',
-      borderRadius: '12px',
-      boxShadow: '0 4px 16px rgba(0, 0, 0, 0.2)',
-      zIndex: '10000',
-      fontSize: '13px',
-      maxWidth: '350px',
-      fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif',
-    });
+  // 撤销最近一次 AI 插入：用同样的插入方式恢复插入前的内容
+  const handleUndo = async () => {
+    const snapshot = popSnapshot();
+    if (!snapshot) return;
+
+    setIsOpen(false);
+
+    if (!snapshot.replyBox.isConnected) {
+      Toast.show('输入框已关闭，无法撤销', '#536471');
+      return;
+    }
 
-    // Build content
-    let content = `
-      <div style="display: flex; align-items: start; gap: 8px;">
-        <span style="font-size: 20px;">${errorIcon}</span>
-        <div style="flex: 1;">
-          <div style="font-weight: 600; margin-bottom: 6px;">${userMessage}</div>
-          <div style="font-size: 12px; opacity: 0.9; line-height: 1.4;">
-            ${info.tips.slice(0, 2).map(tip => `• ${tip}`).join('<br>')}
-          </div>
-    `;
-
-    // Add retry button if retryable
-    if (canRetry) {
-      content += `
-          <button
-            id="ai-reply-retry-btn"
-            style="
-              margin-top: 10px;
-              padding: 6px 12px;
-              background: rgba(255, 255, 255, 0.2);
-              border: 1px solid rgba(255, 255, 255, 0.3);
-              border-radius: 6px;
-              color: white;
-              font-size: 12px;
-              font-weight: 600;
-              cursor: pointer;
-              transition: background 0.2s;
-            "
-            onmouseover="this.style.background='rgba(255, 255, 255, 0.3)'"
-            onmouseout="this.style.background='rgba(255, 255, 255, 0.2)'"
-          >
-            🔄 重试
-          </button>
-      `;
+    try {
+      await TwitterDOM.fillReplyText(snapshot.replyBox, snapshot.text, 'replace');
+      snapshot.replyBox.focus();
+      selectionRef.current = TwitterDOM.getSelectionOffsets(snapshot.replyBox);
+      console.log('[AI Reply Toolbar] 已撤销 AI 插入');
+      Toast.show('↩️ 已撤销 AI 插入', '#536471');
+    } catch (undoError) {
+      console.error('[AI Reply Toolbar] 撤销失败:', undoError);
+      pushSnapshot(snapshot);
+      Toast.error(new AppError(
+        ErrorType.TWITTER_DOM_ERROR,
+        'Failed to restore reply text box content',
+        undoError
+      ));
+    }
+  };
+
+  // 保存到回复历史，返回每条回复的历史记录 ID（保存失败不影响生成）
+  const recordHistory = async (
+    styleId: string,
+    replies: GeneratedReply[],
+    insertedIndex = -1
+  ): Promise<(string | null)[]> => {
+    try {
+      const entries = await HistoryService.addEntries(
+        replies.map((reply, index) => ({
+          ...tweetInfo,
+          tweetText,
+          styleId,
+          reply: reply.text,
+          provider: reply.provider,
+          model: reply.model,
+          latency: reply.latency,
+          usage: reply.usage,
+          isFallback: reply.isFallback,
+          inserted: index === insertedIndex,
+        }))
+      );
+      return entries.map((entry) => entry.id);
+    } catch (historyError) {
+      console.warn('[AI Reply Toolbar] 保存回复历史失败:', historyError);
+      return replies.map(() => null);
     }
+  };
 
-    content += `
-        </div>
-      </div>
-    `;
-
-    toast.innerHTML = content;
-    document.body.appendChild(toast);
-
-    // Add retry click handler
-    if (canRetry) {
-      const retryBtn = toast.querySelector('#ai-reply-retry-btn');
-      if (retryBtn) {
-        retryBtn.addEventListener('click', () => {
-          toast.remove();
-          handleRetry();
+  // 从候选面板插入某一条回复
+  const handleInsertCandidate = async (reply: string, index: number) => {
+    try {
+      await insertReply(reply, candidates[index]);
+      closeCandidates();
+
+      const historyId = candidateHistoryIds[index];
+      if (historyId) {
+        HistoryService.markInserted(historyId).catch((historyError) => {
+          console.warn('[AI Reply Toolbar] 更新回复历史失败:', historyError);
         });
       }
+    } catch (err: unknown) {
+      handleError(err);
     }
+  };
+
+  // 重新生成某一条候选回复
+  const handleRegenerateCandidate = async (index: number) => {
+    if (!candidateStyleId || regeneratingIndex !== null) return;
+
+    const controller = new AbortController();
+    regenerateControllerRef.current = controller;
+    setRegeneratingIndex(index);
 
-    // Auto remove after 8 seconds
-    setTimeout(() => {
-      toast.remove();
-    }, 8000);
+    try {
+      const reply = await BackgroundClient.generateReply(tweetContext, candidateStyleId, controller.signal);
+      const [historyId] = await recordHistory(candidateStyleId, [reply]);
+      setCandidates((prev) => prev.map((candidate, i) => (i === index ? reply : candidate)));
+      setCandidateHistoryIds((prev) => prev.map((id, i) => (i === index ? historyId : id)));
+    } catch (err: unknown) {
+      // 关闭候选面板导致的取消不需要提示
+      if (!controller.signal.aborted) {
+        handleError(err);
+      }
+    } finally {
+      if (regenerateControllerRef.current === controller) {
+        regenerateControllerRef.current = null;
+        setRegeneratingIndex(null);
+      }
+    }
+  };
+
+  // 风格设置的回复长度上限（读取失败时使用默认上限）
+  const getStyleMaxLength = async (styleId: string): Promise<number> => {
+    try {
+      const styles = await StorageService.getAllStyles();
+      return styles.find((style) => style.id === styleId)?.maxLength ?? MAX_REPLY_LENGTH;
+    } catch (error) {
+      console.warn('[AI Reply Toolbar] 读取风格失败:', error);
+      return MAX_REPLY_LENGTH;
+    }
+  };
+
+  // 关闭候选面板，并取消正在进行的「重新生成」
+  const closeCandidates = () => {
+    regenerateControllerRef.current?.abort();
+    regenerateControllerRef.current = null;
+    setRegeneratingIndex(null);
+    setCandidates([]);
+  };
+
+  // 统一的错误处理（默认重试上次选择的风格）
+  const handleError = (err: unknown, onRetry: () => void = handleRetry) => {
+    // 用户主动取消不是错误
+    if (ErrorHelper.isCancelled(err)) {
+      console.log('[AI Reply Toolbar] 已取消生成');
+      Toast.show('⏹️ 已取消生成', '#536471');
+      return;
+    }
+
+    console.error('[AI Reply Toolbar] 生成失败:', err);
+
+    // Store error for potential retry
+    if (err instanceof AppError) {
+      setLastError(err);
+      Toast.error(err, onRetry);
+    } else if (err instanceof Error) {
+      const appError = new AppError(
+        ErrorType.GENERATION_FAILED,
+        err.message,
+        err
+      );
+      setLastError(appError);
+      Toast.error(appError, onRetry);
+    } else {
+      const appError = new AppError(
+        ErrorType.GENERATION_FAILED,
+        'Unknown error occurred',
+        err
+      );
+      setLastError(appError);
+      Toast.error(appError, onRetry);
+    }
+  };
+
+  // 重试上次失败的操作
+  const handleRetry = () => {
+    if (lastStyleId && !isLoading) {
+      handleSelectStyle(lastStyleId);
+    }
   };
 
   return (
@@ -213,11 +431,19 @@ export function ReplyToolbarButton({ tweetText, replyBox }: ReplyToolbarButtonPr
       {/* AI 按钮 - 模仿 Twitter 工具栏按钮样式 */}
       <button
         ref={buttonRef}
+        onMouseDown={() => {
+          selectionRef.current = TwitterDOM.getSelectionOffsets(getReplyBox());
+        }}
         onClick={handleButtonClick}
-        disabled={isLoading}
         className="twitter-ai-toolbar-button"
-        title="AI 智能回复"
-        aria-label="AI 智能回复"
+        title={
+          isLoading
+            ? waitSeconds !== null
+              ? `请求频率受限，${waitSeconds} 秒后发送，点击取消`
+              : '生成中，点击取消'
+            : 'AI 智能回复'
+        }
+        aria-label={isLoading ? '取消生成' : 'AI 智能回复'}
         style={{
           display: 'inline-flex',
           alignItems: 'center',
@@ -228,34 +454,67 @@ export function ReplyToolbarButton({ tweetText, replyBox }: ReplyToolbarButtonPr
           border: 'none',
           backgroundColor: isOpen ? '#e8f5fd' : 'transparent',
           color: isOpen ? '#1d9bf0' : '#536471',
-          cursor: isLoading ? 'not-allowed' : 'pointer',
+          cursor: 'pointer',
           transition: 'background-color 0.2s',
-          fontSize: '18px',
+          fontSize: isLoading && waitSeconds !== null && !isHovered ? '13px' : '18px',
+          fontWeight: 600,
           padding: 0,
-          opacity: isLoading ? 0.5 : 1,
         }}
         onMouseEnter={(e) => {
-          if (!isLoading) {
-            e.currentTarget.style.backgroundColor = '#e8f5fd';
-            e.currentTarget.style.color = '#1d9bf0';
-          }
+          setIsHovered(true);
+          e.currentTarget.style.backgroundColor = isLoading ? '#fee2e2' : '#e8f5fd';
+          e.currentTarget.style.color = isLoading ? '#f4212e' : '#1d9bf0';
         }}
         onMouseLeave={(e) => {
+          setIsHovered(false);
           if (!isOpen) {
             e.currentTarget.style.backgroundColor = 'transparent';
             e.currentTarget.style.color = '#536471';
           }
         }}
       >
-        {isLoading ? '⏳' : '🤖'}
+        {isLoading
+          ? isHovered
+            ? '⏹️'
+            : waitSeconds !== null
+              ? `${waitSeconds}s`
+              : '⏳'
+          : '🤖'}
       </button>
 
+      {/* 流式生成预览 - 出现在按钮右侧 */}
+      {streamingText !== null && <StreamingPreview text={streamingText} />}
+
+      {/* 候选回复面板 - 出现在按钮下方 */}
+      {candidates.length > 0 && (
+        <CandidatePicker
+          candidates={candidates.map((candidate) => candidate.text)}
+          maxLength={candidateMaxLength}
+          existingLength={TweetLength.getWeightedLength(
+            TwitterDOM.getKeptText(getReplyBox(), insertMode, selectionRef.current)
+          )}
+          regeneratingIndex={regeneratingIndex}
+          onInsert={handleInsertCandidate}
+          onRegenerate={handleRegenerateCandidate}
+          onClose={closeCandidates}
+        />
+      )}
+
       {/* 风格选择器 - 出现在按钮右侧 */}
       <StyleSelector
         isOpen={isOpen}
         onClose={() => setIsOpen(false)}
         onSelectStyle={handleSelectStyle}
         isLoading={isLoading}
+        candidateCount={candidateCount}
+        defaultStyleId={defaultStyleId}
+        onCandidateCountChange={setCandidateCount}
+        insertMode={insertMode}
+        onInsertModeChange={setInsertMode}
+        undoCount={undoCount}
+        onUndo={handleUndo}
+        hasDraft={hasDraft}
+        onRewrite={handleRewrite}
       />
     </div>
   );
@@ -0,0 +1,95 @@
+/**
+ * 数据版本与备份组件
+ *
+ * 显示本机的数据版本，并可恢复升级迁移前自动保存的备份
+ */
+
+import { useState, useEffect } from 'react';
+import { MigrationService } from '../services/migration-service';
+import type { StorageBackup } from '../types';
+import { ErrorHelper } from '../types';
+
+export function StorageBackupCard() {
+  const [schemaVersion, setSchemaVersion] = useState<number | null>(null);
+  const [backup, setBackup] = useState<StorageBackup | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [version, storedBackup] = await Promise.all([
+        MigrationService.getSchemaVersion(),
+        MigrationService.getBackup(),
+      ]);
+      setSchemaVersion(version);
+      setBackup(storedBackup);
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: `加载失败：${formatted}` });
+    }
+  };
+
+  // 恢复迁移前的备份
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    const time = new Date(backup.createdAt).toLocaleString('zh-CN');
+    if (!confirm(`确定要恢复 ${time} 的备份吗？之后保存的配置、风格和历史都会丢失。`)) {
+      return;
+    }
+
+    setIsRestoring(true);
+
+    try {
+      await MigrationService.restoreBackup();
+      setMessage({ type: 'success', text: '✅ 已恢复备份，请重新打开弹窗' });
+      await loadData();
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: formatted });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="modern-card p-4 space-y-3 text-sm">
+      <div className="flex justify-between items-center">
+        <span className="text-gray-600">数据版本</span>
+        <span className="font-medium text-gray-900">
+          {schemaVersion === null ? '加载中...' : `v${schemaVersion}`}
+        </span>
+      </div>
+
+      {backup && (
+        <div className="flex justify-between items-center gap-3">
+          <div className="min-w-0">
+            <p className="text-gray-600">升级前备份</p>
+            <p className="text-xs text-gray-400">
+              v{backup.schemaVersion} · {new Date(backup.createdAt).toLocaleString('zh-CN')}
+            </p>
+          </div>
+          <button
+            onClick={handleRestore}
+            disabled={isRestoring}
+            className="modern-btn px-3 py-1.5 text-xs bg-amber-100 text-amber-700 hover:bg-amber-200 disabled:opacity-50 disabled:transform-none whitespace-nowrap"
+          >
+            {isRestoring ? '恢复中...' : '恢复备份'}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-sm whitespace-pre-wrap ${
+          message.type === 'success' ? 'text-green-700' : 'text-red-700'
+        }`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
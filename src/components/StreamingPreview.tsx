@@ -0,0 +1,80 @@
+/**
+ * 流式生成预览组件
+ *
+ * 在 AI 按钮旁实时显示正在生成的回复内容
+ * 生成完成后才会真正填充到回复框中
+ */
+
+import { useEffect, useRef } from 'react';
+
+interface StreamingPreviewProps {
+  /** 当前已生成的文本 */
+  text: string;
+}
+
+export function StreamingPreview({ text }: StreamingPreviewProps) {
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  // 内容增长时保持滚动到底部
+  useEffect(() => {
+    if (contentRef.current) {
+      contentRef.current.scrollTop = contentRef.current.scrollHeight;
+    }
+  }, [text]);
+
+  return (
+    <div
+      className="twitter-ai-streaming-preview"
+      style={{
+        position: 'absolute',
+        top: '0',
+        left: '40px', // 按钮宽度 36px + 4px 间距
+        zIndex: 999999,
+        backgroundColor: 'white',
+        borderRadius: '16px',
+        boxShadow: '0 10px 40px rgba(0, 0, 0, 0.12), 0 4px 12px rgba(0, 0, 0, 0.08)',
+        border: '1px solid rgba(0, 0, 0, 0.06)',
+        padding: '12px 14px',
+        width: '320px',
+        animation: 'fadeInScale 0.15s ease-out',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '6px',
+          fontSize: '12px',
+          fontWeight: 600,
+          color: '#64748b',
+          marginBottom: '8px',
+        }}
+      >
+        <span style={{
+          display: 'inline-block',
+          width: '12px',
+          height: '12px',
+          border: '2px solid #e2e8f0',
+          borderTopColor: '#3b82f6',
+          borderRadius: '50%',
+          animation: 'spin 0.8s linear infinite',
+        }}></span>
+        <span>AI 正在输入...</span>
+      </div>
+      <div
+        ref={contentRef}
+        style={{
+          maxHeight: '160px',
+          overflowY: 'auto',
+          fontSize: '14px',
+          lineHeight: '20px',
+          color: '#0f1419',
+          whiteSpace: 'pre-wrap',
+          wordBreak: 'break-word',
+        }}
+      >
+        {text || <span style={{ color: '#94a3b8' }}>等待模型响应...</span>}
+      </div>
+    </div>
+  );
+}
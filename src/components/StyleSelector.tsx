@@ -1,13 +1,14 @@
 /**
  * 风格选择器组件
  *
- * 显示预设风格和自定义风格的下拉菜单
+ * 显示预设风格和自定义风格的下拉菜单，并可切换当前配置档案
  */
 
 import React, { useState, useEffect, useRef } from 'react';
-import type { ReplyStyle } from '../types';
-import { REPLY_STYLES } from '../types';
+import type { AIProfileSummary, InsertMode, ReplyStyle, RewriteOperation } from '../types';
+import { REPLY_STYLES, MAX_REPLY_CANDIDATES, PROVIDER_NAMES, INSERT_MODES, REWRITE_OPERATIONS } from '../types';
 import { StorageService } from '../services/storage-service';
+import { BackgroundClient } from '../services/background-client';
 
 interface StyleSelectorProps {
   /** 选择风格时的回调 */
@@ -18,6 +19,24 @@ interface StyleSelectorProps {
   onClose: () => void;
   /** 是否正在加载 */
   isLoading?: boolean;
+  /** 候选回复数量 */
+  candidateCount?: number;
+  /** 修改候选回复数量的回调 */
+  onCandidateCountChange?: (count: number) => void;
+  /** 默认风格 ID（显示「默认」标记） */
+  defaultStyleId?: string;
+  /** 回复的插入方式 */
+  insertMode?: InsertMode;
+  /** 修改插入方式的回调（不传时不显示） */
+  onInsertModeChange?: (mode: InsertMode) => void;
+  /** 可撤销的 AI 插入次数 */
+  undoCount?: number;
+  /** 撤销最近一次 AI 插入的回调 */
+  onUndo?: () => void;
+  /** 输入框中是否已有草稿 */
+  hasDraft?: boolean;
+  /** 润色草稿的回调（不传时不显示） */
+  onRewrite?: (operation: RewriteOperation) => void;
 }
 
 export function StyleSelector({
@@ -25,9 +44,20 @@ export function StyleSelector({
   isOpen,
   onClose,
   isLoading = false,
+  candidateCount = 1,
+  onCandidateCountChange,
+  defaultStyleId,
+  insertMode = 'replace',
+  onInsertModeChange,
+  undoCount = 0,
+  onUndo,
+  hasDraft = false,
+  onRewrite,
 }: StyleSelectorProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [allStyles, setAllStyles] = useState<ReplyStyle[]>(REPLY_STYLES);
+  const [profiles, setProfiles] = useState<AIProfileSummary[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
 
   // 加载所有风格（预设 + 自定义）
   useEffect(() => {
@@ -45,6 +75,33 @@ export function StyleSelector({
     loadStyles();
   }, [isOpen]); // 每次打开时重新加载，确保显示最新的自定义风格
 
+  // 加载配置档案（经后台获取，不含 API Token）
+  useEffect(() => {
+    if (!isOpen) return;
+
+    BackgroundClient.listProfiles()
+      .then((result) => {
+        setProfiles(result.profiles);
+        setActiveProfileId(result.activeProfileId);
+      })
+      .catch((error) => {
+        console.error('Failed to load profiles:', error);
+      });
+  }, [isOpen]);
+
+  // 切换当前配置档案
+  const handleProfileChange = async (profileId: string) => {
+    const previousId = activeProfileId;
+    setActiveProfileId(profileId);
+
+    try {
+      await BackgroundClient.setActiveProfile(profileId);
+    } catch (error) {
+      console.error('Failed to switch profile:', error);
+      setActiveProfileId(previousId);
+    }
+  };
+
   // 点击外部关闭
   useEffect(() => {
     if (!isOpen) return;
@@ -91,6 +148,25 @@ export function StyleSelector({
     onSelectStyle(styleId);
   };
 
+  // 默认风格标记
+  const renderDefaultBadge = (styleId: string) =>
+    styleId === defaultStyleId && (
+      <span
+        style={{
+          marginLeft: '6px',
+          padding: '1px 6px',
+          borderRadius: '9999px',
+          backgroundColor: '#eff6ff',
+          color: '#1d4ed8',
+          fontSize: '11px',
+          fontWeight: 600,
+          verticalAlign: 'middle',
+        }}
+      >
+        默认
+      </span>
+    );
+
   // 分离预设风格和自定义风格
   const presetStyles = allStyles.filter(s => REPLY_STYLES.some(preset => preset.id === s.id));
   const customStyles = allStyles.filter(s => !REPLY_STYLES.some(preset => preset.id === s.id));
@@ -177,6 +253,160 @@ export function StyleSelector({
             <>🤖 AI 将以选定风格生成回复</>
           )}
         </p>
+
+        {/* 配置档案 */}
+        {profiles.length > 1 && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '10px' }}>
+            <span style={{ fontSize: '12px', color: '#64748b', fontWeight: 500, flexShrink: 0 }}>配置档案</span>
+            <select
+              value={activeProfileId ?? ''}
+              onChange={(e) => handleProfileChange(e.target.value)}
+              disabled={isLoading}
+              style={{
+                flex: 1,
+                minWidth: 0,
+                height: '26px',
+                padding: '0 6px',
+                borderRadius: '6px',
+                border: '1px solid #e2e8f0',
+                backgroundColor: 'white',
+                color: '#1e293b',
+                fontSize: '12px',
+                cursor: isLoading ? 'not-allowed' : 'pointer',
+              }}
+            >
+              {!activeProfileId && (
+                <option value="" disabled>
+                  选择档案
+                </option>
+              )}
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}（{PROVIDER_NAMES[profile.provider]} · {profile.model}）
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* 候选数量 */}
+        {onCandidateCountChange && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '10px' }}>
+            <span style={{ fontSize: '12px', color: '#64748b', fontWeight: 500 }}>候选数量</span>
+            <div style={{ display: 'flex', gap: '4px' }}>
+              {Array.from({ length: MAX_REPLY_CANDIDATES }, (_, i) => i + 1).map((count) => (
+                <button
+                  key={count}
+                  type="button"
+                  onClick={() => onCandidateCountChange(count)}
+                  disabled={isLoading}
+                  style={{
+                    minWidth: '28px',
+                    height: '24px',
+                    padding: '0 8px',
+                    borderRadius: '6px',
+                    border: candidateCount === count ? '1px solid #3b82f6' : '1px solid #e2e8f0',
+                    backgroundColor: candidateCount === count ? '#eff6ff' : 'white',
+                    color: candidateCount === count ? '#1d4ed8' : '#475569',
+                    fontSize: '12px',
+                    fontWeight: 600,
+                    cursor: isLoading ? 'not-allowed' : 'pointer',
+                  }}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* 插入方式 */}
+        {onInsertModeChange && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '10px' }}>
+            <span style={{ fontSize: '12px', color: '#64748b', fontWeight: 500 }}>插入方式</span>
+            <div style={{ display: 'flex', gap: '4px' }}>
+              {INSERT_MODES.map((mode) => (
+                <button
+                  key={mode.id}
+                  type="button"
+                  onClick={() => onInsertModeChange(mode.id)}
+                  disabled={isLoading}
+                  title={mode.description}
+                  style={{
+                    height: '24px',
+                    padding: '0 8px',
+                    borderRadius: '6px',
+                    border: insertMode === mode.id ? '1px solid #3b82f6' : '1px solid #e2e8f0',
+                    backgroundColor: insertMode === mode.id ? '#eff6ff' : 'white',
+                    color: insertMode === mode.id ? '#1d4ed8' : '#475569',
+                    fontSize: '12px',
+                    fontWeight: 600,
+                    cursor: isLoading ? 'not-allowed' : 'pointer',
+                  }}
+                >
+                  {mode.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* 润色草稿 */}
+        {onRewrite && (
+          <div style={{ marginTop: '10px' }}>
+            <span style={{ fontSize: '12px', color: '#64748b', fontWeight: 500 }}>
+              润色我的草稿{!hasDraft && '（请先在输入框中写好草稿）'}
+            </span>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '6px' }}>
+              {REWRITE_OPERATIONS.map((operation) => (
+                <button
+                  key={operation.id}
+                  type="button"
+                  onClick={() => onRewrite(operation.id)}
+                  disabled={isLoading || !hasDraft}
+                  style={{
+                    height: '24px',
+                    padding: '0 8px',
+                    borderRadius: '6px',
+                    border: '1px solid #e2e8f0',
+                    backgroundColor: 'white',
+                    color: '#475569',
+                    fontSize: '12px',
+                    fontWeight: 600,
+                    cursor: isLoading || !hasDraft ? 'not-allowed' : 'pointer',
+                    opacity: hasDraft ? 1 : 0.5,
+                  }}
+                >
+                  {operation.icon} {operation.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* 撤销 AI 插入 */}
+        {onUndo && undoCount > 0 && (
+          <button
+            type="button"
+            onClick={onUndo}
+            disabled={isLoading}
+            style={{
+              display: 'block',
+              width: '100%',
+              height: '28px',
+              marginTop: '10px',
+              borderRadius: '6px',
+              border: '1px solid #e2e8f0',
+              backgroundColor: 'white',
+              color: '#475569',
+              fontSize: '12px',
+              fontWeight: 600,
+              cursor: isLoading ? 'not-allowed' : 'pointer',
+            }}
+          >
+            ↩️ 撤销 AI 插入（{undoCount}）
+          </button>
+        )}
       </div>
 
       {/* 风格列表 */}
@@ -282,6 +512,7 @@ export function StyleSelector({
                     }}
                   >
                     {style.name}
+                    {renderDefaultBadge(style.id)}
                   </div>
                   <div
                     style={{
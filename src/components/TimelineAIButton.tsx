@@ -0,0 +1,247 @@
+/**
+ * 时间线推文操作栏中的 AI 按钮组件
+ *
+ * 时间线模式下显示在每条推文的操作栏中（回复、转推、喜欢旁边）
+ * 选择风格后根据这条推文生成回复，再打开原生回复框并填入
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { StyleSelector } from './StyleSelector';
+import { BackgroundClient } from '../services/background-client';
+import { HistoryService } from '../services/history-service';
+import { StorageService } from '../services/storage-service';
+import { TwitterDOM } from '../utils/twitter-dom';
+import { Toast } from '../utils/toast';
+import { ErrorHelper, AppError, ErrorType, PROVIDER_NAMES } from '../types';
+import type { GeneratedReply, TweetContext, TweetInfo } from '../types';
+
+interface TimelineAIButtonProps {
+  /** 按钮所在的推文元素（article） */
+  tweetElement: HTMLElement;
+}
+
+export function TimelineAIButton({ tweetElement }: TimelineAIButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isHovered, setIsHovered] = useState(false);
+  const [defaultStyleId, setDefaultStyleId] = useState<string | undefined>(undefined);
+  // 限速排队时请求的发送时间，以及剩余秒数（用于按钮倒计时）
+  const [waitUntil, setWaitUntil] = useState<number | null>(null);
+  const [waitSeconds, setWaitSeconds] = useState<number | null>(null);
+  // 当前生成请求的取消控制器
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // 读取默认风格
+  useEffect(() => {
+    StorageService.getUserPreferences()
+      .then((preferences) => setDefaultStyleId(preferences.defaultStyleId))
+      .catch((error) => {
+        console.warn('[AI Timeline Button] 读取用户偏好失败:', error);
+      });
+  }, []);
+
+  // 组件卸载（推文滚出列表或元素被复用）时取消未完成的请求
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  // 排队倒计时
+  useEffect(() => {
+    if (waitUntil === null) {
+      setWaitSeconds(null);
+      return;
+    }
+
+    const tick = () => {
+      const remaining = Math.ceil((waitUntil - Date.now()) / 1000);
+      setWaitSeconds(remaining > 0 ? remaining : null);
+    };
+
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [waitUntil]);
+
+  const handleButtonClick = () => {
+    // 生成中点击按钮即取消
+    if (isLoading) {
+      abortControllerRef.current?.abort();
+      return;
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleSelectStyle = async (styleId: string) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsLoading(true);
+    setIsOpen(false);
+
+    try {
+      // 点击时再读取推文，避免使用元素被复用前的内容
+      const tweetContext = TwitterDOM.getTweetContext(tweetElement);
+      const tweetInfo = TwitterDOM.getTweetInfo(tweetElement);
+
+      if (!tweetContext.target.text) {
+        console.warn('[AI Timeline Button] 无法提取推文文本');
+      }
+
+      console.log(`[AI Timeline Button] 开始生成回复，风格: ${styleId}`, tweetInfo.tweetId);
+
+      const reply = await BackgroundClient.generateReply(
+        tweetContext,
+        styleId,
+        controller.signal,
+        setWaitUntil
+      );
+
+      console.log(`[AI Timeline Button] 回复生成成功: "${reply.text}"`);
+
+      let inserted = false;
+      try {
+        await openAndFill(reply);
+        inserted = true;
+      } finally {
+        recordHistory(tweetContext, tweetInfo, styleId, reply, inserted);
+      }
+    } catch (err: unknown) {
+      handleError(err, styleId);
+    } finally {
+      abortControllerRef.current = null;
+      setWaitUntil(null);
+      setIsLoading(false);
+    }
+  };
+
+  // 打开原生回复框并填入回复
+  const openAndFill = async (reply: GeneratedReply) => {
+    if (!TwitterDOM.clickReplyButton(tweetElement)) {
+      throw new AppError(ErrorType.TWITTER_DOM_ERROR, 'Reply button not found on tweet');
+    }
+
+    const replyBox = await TwitterDOM.waitForReplyBox(3000, true);
+    if (!replyBox) {
+      throw new AppError(ErrorType.TWITTER_DOM_ERROR, 'Reply dialog did not open');
+    }
+
+    try {
+      await TwitterDOM.fillReplyText(replyBox, reply.text);
+    } catch (fillError) {
+      console.error('[AI Timeline Button] 填充失败:', fillError);
+      throw new AppError(
+        ErrorType.TWITTER_DOM_ERROR,
+        'Failed to fill reply text into Twitter input box',
+        fillError
+      );
+    }
+
+    const providerName = PROVIDER_NAMES[reply.provider];
+    Toast.success(`✅ 回复已生成！（${providerName}${reply.isFallback ? '，备用配置' : ''}）`);
+  };
+
+  // 保存到回复历史（保存失败不影响生成）
+  const recordHistory = (
+    tweetContext: TweetContext,
+    tweetInfo: TweetInfo,
+    styleId: string,
+    reply: GeneratedReply,
+    inserted: boolean
+  ) => {
+    HistoryService.addEntries([{
+      ...tweetInfo,
+      tweetText: tweetContext.target.text,
+      styleId,
+      reply: reply.text,
+      provider: reply.provider,
+      model: reply.model,
+      latency: reply.latency,
+      usage: reply.usage,
+      isFallback: reply.isFallback,
+      inserted,
+    }]).catch((historyError) => {
+      console.warn('[AI Timeline Button] 保存回复历史失败:', historyError);
+    });
+  };
+
+  // 统一的错误处理
+  const handleError = (err: unknown, styleId: string) => {
+    // 用户主动取消不是错误
+    if (ErrorHelper.isCancelled(err)) {
+      console.log('[AI Timeline Button] 已取消生成');
+      Toast.show('⏹️ 已取消生成', '#536471');
+      return;
+    }
+
+    console.error('[AI Timeline Button] 生成失败:', err);
+
+    const appError = err instanceof AppError
+      ? err
+      : new AppError(
+        ErrorType.GENERATION_FAILED,
+        err instanceof Error ? err.message : 'Unknown error occurred',
+        err
+      );
+
+    Toast.error(appError, () => {
+      if (tweetElement.isConnected) {
+        handleSelectStyle(styleId);
+      }
+    });
+  };
+
+  return (
+    <div style={{ position: 'relative', display: 'inline-flex', alignItems: 'center' }}>
+      {/* AI 按钮 - 模仿推文操作栏按钮样式 */}
+      <button
+        onClick={handleButtonClick}
+        className="twitter-ai-timeline-button"
+        title={
+          isLoading
+            ? waitSeconds !== null
+              ? `请求频率受限，${waitSeconds} 秒后发送，点击取消`
+              : '生成中，点击取消'
+            : 'AI 回复这条推文'
+        }
+        aria-label={isLoading ? '取消生成' : 'AI 回复这条推文'}
+        style={{
+          display: 'inline-flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          width: '34px',
+          height: '34px',
+          borderRadius: '50%',
+          border: 'none',
+          backgroundColor: isOpen || isHovered ? (isLoading ? '#fee2e2' : '#e8f5fd') : 'transparent',
+          cursor: 'pointer',
+          transition: 'background-color 0.2s',
+          fontSize: isLoading && waitSeconds !== null && !isHovered ? '12px' : '16px',
+          fontWeight: 600,
+          color: isLoading && isHovered ? '#f4212e' : isOpen || isHovered ? '#1d9bf0' : '#536471',
+          padding: 0,
+        }}
+        onMouseEnter={() => setIsHovered(true)}
+        onMouseLeave={() => setIsHovered(false)}
+      >
+        {isLoading
+          ? isHovered
+            ? '⏹️'
+            : waitSeconds !== null
+              ? `${waitSeconds}s`
+              : '⏳'
+          : '🤖'}
+      </button>
+
+      {/* 风格选择器 - 出现在按钮右侧 */}
+      <StyleSelector
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        onSelectStyle={handleSelectStyle}
+        isLoading={isLoading}
+        defaultStyleId={defaultStyleId}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+/**
+ * API Token 安全设置组件
+ *
+ * 选择 Token 的存储位置（同步或仅本设备），并用口令加密 Token
+ */
+
+import { useState } from 'react';
+import { TokenVault } from '../services/token-vault';
+import { ConfigValidator } from '../services/storage-service';
+import type { TokenSecurityStatus } from '../types';
+import { PASSPHRASE_MIN_LENGTH, ErrorHelper } from '../types';
+
+interface TokenSecuritySettingsProps {
+  status: TokenSecurityStatus;
+  onChange: () => void;
+}
+
+export function TokenSecuritySettings({ status, onChange }: TokenSecuritySettingsProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // 执行操作后通知弹窗重新加载配置和 Token 状态
+  const run = async (action: () => Promise<void>, successText: string) => {
+    setIsWorking(true);
+    setMessage(null);
+
+    try {
+      await action();
+      setMessage({ type: 'success', text: successText });
+      setTimeout(() => setMessage(null), 3000);
+      onChange();
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: formatted });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // 切换存储位置
+  const handleAreaChange = (localOnly: boolean) => {
+    if (localOnly && !confirm('Token 将只保存在本设备，其他设备上同步的 Token 会被删除，需要在那些设备上重新填写。确定吗？')) {
+      return;
+    }
+
+    run(
+      () => TokenVault.setStorageArea(localOnly ? 'local' : 'sync'),
+      localOnly ? '✅ Token 已改为仅保存在本设备' : '✅ Token 已改为跨设备同步'
+    );
+  };
+
+  // 启用加密
+  const handleEnable = () => {
+    const validation = ConfigValidator.validatePassphrase(passphrase, confirmation);
+    if (!validation.valid) {
+      setMessage({ type: 'error', text: validation.error! });
+      return;
+    }
+
+    run(async () => {
+      await TokenVault.enableEncryption(passphrase);
+      setPassphrase('');
+      setConfirmation('');
+    }, '✅ 已启用加密，关闭浏览器后需要用口令解锁');
+  };
+
+  // 关闭加密
+  const handleDisable = () => {
+    if (!confirm('确定要关闭加密吗？Token 将以明文保存。')) {
+      return;
+    }
+
+    run(() => TokenVault.disableEncryption(), '✅ 已关闭加密');
+  };
+
+  return (
+    <div className="modern-card p-4 space-y-3">
+      <div>
+        <h3 className="font-semibold text-gray-800">Token 安全</h3>
+        <p className="text-xs text-gray-500 mt-0.5">
+          默认 Token 以明文保存在浏览器同步存储中
+        </p>
+      </div>
+
+      <label className="flex items-start gap-2 text-sm text-gray-800 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={status.area === 'local'}
+          disabled={isWorking}
+          onChange={(e) => handleAreaChange(e.target.checked)}
+          className="mt-0.5"
+        />
+        <span>
+          仅保存在本设备（不同步）
+          <span className="block text-xs text-gray-500">
+            开启后其他设备上不再有 Token，需要分别填写
+          </span>
+        </span>
+      </label>
+
+      {!status.encrypted ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-800">用口令加密 Token</p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={`口令（至少 ${PASSPHRASE_MIN_LENGTH} 个字符）`}
+            className="modern-input w-full px-3 py-2 text-sm"
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="再次输入口令"
+            className="modern-input w-full px-3 py-2 text-sm"
+          />
+          <p className="text-xs text-amber-700">
+            ⚠️ 口令无法找回，忘记后只能重置并重新填写 Token
+          </p>
+          <button
+            onClick={handleEnable}
+            disabled={isWorking || !passphrase}
+            className="modern-btn w-full py-2 px-4 bg-gradient-to-r from-blue-600 to-blue-500 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+          >
+            {isWorking ? '处理中...' : '启用加密'}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-800">
+            🔒 Token 已加密{status.unlocked ? '，本次会话已解锁' : '，尚未解锁'}
+          </p>
+          {status.unlocked && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => run(() => TokenVault.lock(), '✅ 已锁定')}
+                disabled={isWorking}
+                className="modern-btn flex-1 px-3 py-2 text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:transform-none"
+              >
+                立即锁定
+              </button>
+              <button
+                onClick={handleDisable}
+                disabled={isWorking}
+                className="modern-btn flex-1 px-3 py-2 text-sm bg-red-50 text-red-600 hover:bg-red-100 disabled:opacity-50 disabled:transform-none"
+              >
+                关闭加密
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-sm whitespace-pre-wrap ${
+          message.type === 'success' ? 'text-green-700' : 'text-red-700'
+        }`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
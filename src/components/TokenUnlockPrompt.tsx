@@ -0,0 +1,98 @@
+/**
+ * API Token 解锁组件
+ *
+ * Token 已加密且本次浏览器会话尚未解锁时显示，输入口令后解锁；
+ * 忘记口令时可重置加密（加密的 Token 会被删除，需要重新填写）
+ */
+
+import { useState } from 'react';
+import { TokenVault } from '../services/token-vault';
+import { ErrorHelper } from '../types';
+
+interface TokenUnlockPromptProps {
+  onUnlocked: () => void;
+}
+
+export function TokenUnlockPrompt({ onUnlocked }: TokenUnlockPromptProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState('');
+
+  // 解锁
+  const handleUnlock = async () => {
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError('');
+
+    try {
+      const unlocked = await TokenVault.unlock(passphrase);
+
+      if (unlocked) {
+        setPassphrase('');
+        onUnlocked();
+      } else {
+        setError('口令错误');
+      }
+    } catch (error: unknown) {
+      setError(ErrorHelper.formatForUser(error));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  // 忘记口令：删除加密的 Token
+  const handleReset = async () => {
+    if (!confirm('确定要重置加密吗？所有加密的 API Token 都会被删除，需要重新填写。')) {
+      return;
+    }
+
+    try {
+      await TokenVault.resetEncryption();
+      onUnlocked();
+    } catch (error: unknown) {
+      setError(ErrorHelper.formatForUser(error));
+    }
+  };
+
+  return (
+    <div className="modern-card bg-gradient-to-br from-amber-50 to-yellow-50 border-amber-200 p-4 mb-4 space-y-3 animate-fade-in">
+      <div>
+        <h3 className="font-semibold text-amber-800">🔒 API Token 已加密</h3>
+        <p className="text-xs text-amber-700 mt-0.5">
+          输入口令解锁后才能生成回复，关闭浏览器后需要重新解锁
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleUnlock();
+          }}
+          placeholder="输入口令"
+          autoFocus
+          className="modern-input flex-1 px-3 py-2 text-sm"
+        />
+        <button
+          onClick={handleUnlock}
+          disabled={isUnlocking || !passphrase}
+          className="modern-btn px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-500 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none whitespace-nowrap"
+        >
+          {isUnlocking ? '解锁中...' : '解锁'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-700 whitespace-pre-wrap">{error}</p>}
+
+      <button
+        onClick={handleReset}
+        className="text-xs text-gray-500 hover:text-red-600 underline"
+      >
+        忘记口令？重置加密
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,520 @@
+/**
+ * 用量统计组件
+ *
+ * 按天、月、提供商、模型和风格汇总 Token 用量，按价格表估算费用，
+ * 并在接近每月预算时提醒
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { UsageService } from '../services/usage-service';
+import { StorageService, ConfigValidator } from '../services/storage-service';
+import type {
+  AIProvider,
+  ModelPrice,
+  ReplyStyle,
+  UsageRecord,
+  UsageSettings,
+  UsageSummary,
+} from '../types';
+import {
+  BUDGET_WARNING_RATIO,
+  DEFAULT_USAGE_SETTINGS,
+  MAX_MODEL_PRICES,
+  PROVIDER_NAMES,
+  REWRITE_OPERATIONS,
+  REWRITE_STYLE_PREFIX,
+  USAGE_CONSTRAINTS,
+  ErrorHelper,
+} from '../types';
+
+// 明细的分组方式
+type GroupBy = 'day' | 'month' | 'provider' | 'model' | 'style';
+
+const GROUP_BY_LABELS: Record<GroupBy, string> = {
+  day: '按天',
+  month: '按月',
+  provider: '按提供商',
+  model: '按模型',
+  style: '按风格',
+};
+
+/**
+ * 格式化 Token 数（1.2K / 3.4M）
+ */
+function formatTokens(tokens: number): string {
+  if (tokens >= 1e6) return `${(tokens / 1e6).toFixed(1)}M`;
+  if (tokens >= 1e3) return `${(tokens / 1e3).toFixed(1)}K`;
+  return String(tokens);
+}
+
+/**
+ * 格式化费用，金额很小时保留更多小数
+ */
+function formatCost(cost: number, currency: string): string {
+  const digits = cost > 0 && cost < 0.01 ? 4 : 2;
+  return `${currency}${cost.toFixed(digits)}`;
+}
+
+export function UsageDashboard() {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [settings, setSettings] = useState<UsageSettings>(DEFAULT_USAGE_SETTINGS);
+  const [draft, setDraft] = useState<UsageSettings>(DEFAULT_USAGE_SETTINGS);
+  const [styles, setStyles] = useState<ReplyStyle[]>([]);
+  const [month, setMonth] = useState(() => UsageService.getDateKey(Date.now()).slice(0, 7));
+  const [groupBy, setGroupBy] = useState<GroupBy>('day');
+  const [showSettings, setShowSettings] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // 加载用量、价格表和风格，并监听后台写入的新用量
+  useEffect(() => {
+    loadData();
+    return UsageService.onUsageChange(setRecords);
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [storedRecords, storedSettings, allStyles] = await Promise.all([
+        UsageService.getRecords(),
+        StorageService.getUsageSettings(),
+        StorageService.getAllStyles(),
+      ]);
+      setRecords(storedRecords);
+      setSettings(storedSettings);
+      setDraft(storedSettings);
+      setStyles(allStyles);
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: `加载失败：${formatted}` });
+    }
+  };
+
+  const today = UsageService.getDateKey(Date.now());
+  const currentMonth = today.slice(0, 7);
+  const { prices, currency, monthlyBudget } = settings;
+
+  // 有记录的月份（含本月），最新的在前
+  const months = useMemo(
+    () => [...new Set([currentMonth, ...records.map((record) => record.date.slice(0, 7))])]
+      .sort((a, b) => b.localeCompare(a)),
+    [records, currentMonth]
+  );
+
+  const todaySummary = useMemo(
+    () => UsageService.summarize(records.filter((record) => record.date === today), prices),
+    [records, prices, today]
+  );
+
+  const monthRecords = useMemo(
+    () => records.filter((record) => record.date.startsWith(month)),
+    [records, month]
+  );
+
+  const monthSummary = useMemo(
+    () => UsageService.summarize(monthRecords, prices),
+    [monthRecords, prices]
+  );
+
+  const currentMonthCost = useMemo(
+    () => UsageService.summarize(records.filter((record) => record.date.startsWith(currentMonth)), prices).cost,
+    [records, prices, currentMonth]
+  );
+
+  // 明细分组（按月时统计所有月份，其余统计所选月份）
+  const groups = useMemo(() => {
+    const getKey: Record<GroupBy, (record: UsageRecord) => string> = {
+      day: (record) => record.date,
+      month: (record) => record.date.slice(0, 7),
+      provider: (record) => record.provider,
+      model: (record) => `${record.provider}:${record.model}`,
+      style: (record) => record.styleId,
+    };
+
+    const grouped = UsageService.summarizeBy(
+      groupBy === 'month' ? records : monthRecords,
+      prices,
+      getKey[groupBy]
+    );
+
+    // 时间分组按时间倒序
+    if (groupBy === 'day' || groupBy === 'month') {
+      grouped.sort((a, b) => b.key.localeCompare(a.key));
+    }
+
+    return grouped;
+  }, [records, monthRecords, prices, groupBy]);
+
+  // 价格表中没有的模型（本地模型免费，不需要定价）
+  const unpricedModels = useMemo(() => {
+    const seen = new Map<string, { provider: AIProvider; model: string }>();
+
+    for (const { provider, model } of records) {
+      const priced = draft.prices.some((price) => price.provider === provider && price.model === model);
+      if (provider !== 'local' && !priced) {
+        seen.set(`${provider}:${model}`, { provider, model });
+      }
+    }
+
+    return [...seen.values()];
+  }, [records, draft.prices]);
+
+  // 分组的显示名称
+  const getGroupLabel = (key: string): string => {
+    switch (groupBy) {
+      case 'provider':
+        return PROVIDER_NAMES[key as AIProvider] ?? key;
+      case 'model': {
+        const [provider, ...model] = key.split(':');
+        return `${model.join(':')}（${PROVIDER_NAMES[provider as AIProvider] ?? provider}）`;
+      }
+      case 'style': {
+        const rewrite = REWRITE_OPERATIONS.find((op) => key === `${REWRITE_STYLE_PREFIX}${op.id}`);
+        if (rewrite) return `${rewrite.icon} 润色草稿：${rewrite.name}`;
+
+        const style = styles.find((s) => s.id === key);
+        return style ? `${style.icon} ${style.name}` : '已删除的风格';
+      }
+      default:
+        return key;
+    }
+  };
+
+  const updatePrice = (index: number, changes: Partial<ModelPrice>) => {
+    setDraft((prev) => ({
+      ...prev,
+      prices: prev.prices.map((price, i) => (i === index ? { ...price, ...changes } : price)),
+    }));
+  };
+
+  const removePrice = (index: number) => {
+    setDraft((prev) => ({ ...prev, prices: prev.prices.filter((_, i) => i !== index) }));
+  };
+
+  const addPrices = (entries: Array<{ provider: AIProvider; model: string }>) => {
+    setDraft((prev) => ({
+      ...prev,
+      prices: [
+        ...prev.prices,
+        ...entries.map((entry) => ({ ...entry, inputPrice: 0, outputPrice: 0 })),
+      ].slice(0, MAX_MODEL_PRICES),
+    }));
+  };
+
+  // 保存价格表和预算
+  const handleSave = async () => {
+    const validation = ConfigValidator.validateUsageSettings(draft);
+    if (!validation.valid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      await StorageService.setUsageSettings(draft);
+      const saved = await StorageService.getUsageSettings();
+      setSettings(saved);
+      setDraft(saved);
+      setMessage({ type: 'success', text: '✅ 价格与预算已保存' });
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: formatted });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 清空用量记录
+  const handleClear = async () => {
+    if (!confirm('确定要清空所有用量记录吗？此操作无法撤销。')) {
+      return;
+    }
+
+    try {
+      await UsageService.clearRecords();
+      setRecords([]);
+    } catch (error: unknown) {
+      const formatted = ErrorHelper.formatForUser(error);
+      setMessage({ type: 'error', text: formatted });
+    }
+  };
+
+  const budgetRatio = monthlyBudget > 0 ? currentMonthCost / monthlyBudget : 0;
+
+  const renderSummaryCard = (title: string, summary: UsageSummary) => (
+    <div className="modern-card p-3 space-y-1">
+      <p className="text-xs text-gray-500">{title}</p>
+      <p className="text-lg font-bold text-gray-800">{formatCost(summary.cost, currency)}</p>
+      <p className="text-xs text-gray-600">
+        {formatTokens(summary.promptTokens + summary.completionTokens)} Token · {summary.requests} 次请求
+      </p>
+      <p className="text-xs text-gray-400">
+        输入 {formatTokens(summary.promptTokens)} / 输出 {formatTokens(summary.completionTokens)}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* 预算提醒 */}
+      {monthlyBudget > 0 && budgetRatio >= BUDGET_WARNING_RATIO && (
+        <div className={`modern-card p-3 text-sm animate-fade-in ${
+          budgetRatio >= 1
+            ? 'bg-gradient-to-br from-red-50 to-rose-50 border-red-200 text-red-700'
+            : 'bg-gradient-to-br from-amber-50 to-yellow-50 border-amber-200 text-amber-800'
+        }`}>
+          {budgetRatio >= 1 ? '⚠️ 本月费用已超出预算' : '⚠️ 本月费用即将达到预算'}
+          （{formatCost(currentMonthCost, currency)} / {formatCost(monthlyBudget, currency)}）
+        </div>
+      )}
+
+      {/* 今日和本月汇总 */}
+      <div className="grid grid-cols-2 gap-3">
+        {renderSummaryCard('今天', todaySummary)}
+        {renderSummaryCard(month === currentMonth ? '本月' : month, monthSummary)}
+      </div>
+
+      {/* 预算进度 */}
+      {monthlyBudget > 0 && (
+        <div className="modern-card p-3 space-y-1.5">
+          <div className="flex justify-between text-xs text-gray-600">
+            <span>本月预算</span>
+            <span>{Math.round(budgetRatio * 100)}%</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${
+                budgetRatio >= 1 ? 'bg-red-500' : budgetRatio >= BUDGET_WARNING_RATIO ? 'bg-amber-500' : 'bg-blue-500'
+              }`}
+              style={{ width: `${Math.min(100, budgetRatio * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {monthSummary.unpricedTokens > 0 && (
+        <p className="text-xs text-amber-700">
+          有 {formatTokens(monthSummary.unpricedTokens)} Token 的模型不在价格表中，未计入费用
+        </p>
+      )}
+
+      {/* 明细 */}
+      <div className="modern-card p-4 space-y-3">
+        <div className="flex gap-2">
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+            className="modern-input flex-1 px-2 py-1.5 text-sm"
+          >
+            {(Object.keys(GROUP_BY_LABELS) as GroupBy[]).map((key) => (
+              <option key={key} value={key}>{GROUP_BY_LABELS[key]}</option>
+            ))}
+          </select>
+          {groupBy !== 'month' && (
+            <select
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="modern-input flex-1 px-2 py-1.5 text-sm"
+            >
+              {months.map((m) => (
+                <option key={m} value={m}>{m === currentMonth ? `${m}（本月）` : m}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {groups.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">暂无用量记录</p>
+        ) : (
+          <div className="space-y-1">
+            {groups.map(({ key, summary }) => (
+              <div
+                key={key}
+                className="flex items-center justify-between gap-2 px-2.5 py-1.5 bg-gray-50 rounded-lg text-xs"
+              >
+                <span className="text-gray-800 truncate">{getGroupLabel(key)}</span>
+                <span className="text-gray-600 whitespace-nowrap">
+                  {formatTokens(summary.promptTokens + summary.completionTokens)} · {summary.requests} 次 ·{' '}
+                  <span className="font-medium text-gray-800">{formatCost(summary.cost, currency)}</span>
+                  {summary.unpricedTokens > 0 && <span className="text-amber-600"> *</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-gray-400">
+          用量以提供商返回的数据为准；费用为按价格表计算的估算值，* 表示含未定价的模型
+        </p>
+      </div>
+
+      {/* 价格与预算 */}
+      <div className="modern-card p-4 space-y-3">
+        <button
+          onClick={() => setShowSettings(!showSettings)}
+          className="w-full flex items-center justify-between text-left"
+        >
+          <h3 className="font-semibold text-gray-800">价格与预算</h3>
+          <span className="text-xs text-gray-500">{showSettings ? '收起 ▲' : '展开 ▼'}</span>
+        </button>
+
+        {showSettings && (
+          <div className="space-y-3">
+            <div className="flex gap-3">
+              <label className="flex-1 space-y-1">
+                <span className="block text-xs font-semibold text-gray-700">货币符号</span>
+                <input
+                  type="text"
+                  value={draft.currency}
+                  onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+                  maxLength={USAGE_CONSTRAINTS.CURRENCY_MAX_LENGTH}
+                  className="modern-input w-full px-2 py-1.5 text-sm"
+                />
+              </label>
+              <label className="flex-1 space-y-1">
+                <span className="block text-xs font-semibold text-gray-700">每月预算（0 为不限）</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={USAGE_CONSTRAINTS.BUDGET_MAX}
+                  step="any"
+                  value={draft.monthlyBudget}
+                  onChange={(e) => setDraft({ ...draft, monthlyBudget: Number(e.target.value) })}
+                  className="modern-input w-full px-2 py-1.5 text-sm"
+                />
+              </label>
+            </div>
+
+            <div className="space-y-1.5">
+              <p className="text-xs font-semibold text-gray-700">
+                价格表（每百万 Token，{draft.prices.length}/{MAX_MODEL_PRICES}）
+              </p>
+              <p className="text-xs text-gray-500">默认价格仅供参考，请以提供商官网为准；本地模型不计费</p>
+
+              {draft.prices.map((price, index) => (
+                <div key={index} className="p-2 bg-gray-50 rounded-lg border border-gray-200 space-y-1.5">
+                  <div className="flex gap-1.5">
+                    <select
+                      value={price.provider}
+                      onChange={(e) => updatePrice(index, { provider: e.target.value as AIProvider })}
+                      className="modern-input w-28 px-1.5 py-1 text-xs"
+                    >
+                      {(Object.keys(PROVIDER_NAMES) as AIProvider[]).map((provider) => (
+                        <option key={provider} value={provider}>{PROVIDER_NAMES[provider]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={price.model}
+                      onChange={(e) => updatePrice(index, { model: e.target.value })}
+                      placeholder="模型名称"
+                      className="modern-input flex-1 min-w-0 px-2 py-1 text-xs"
+                    />
+                    <button
+                      onClick={() => removePrice(index)}
+                      className="modern-btn px-2 py-1 text-xs bg-red-100 text-red-700 hover:bg-red-200"
+                      title="删除"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  <div className="flex gap-1.5 items-center text-xs text-gray-600">
+                    <span>输入</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={price.inputPrice}
+                      onChange={(e) => updatePrice(index, { inputPrice: Number(e.target.value) })}
+                      className="modern-input w-20 px-2 py-1 text-xs"
+                    />
+                    <span>输出</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={price.outputPrice}
+                      onChange={(e) => updatePrice(index, { outputPrice: Number(e.target.value) })}
+                      className="modern-input w-20 px-2 py-1 text-xs"
+                    />
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => addPrices([{ provider: 'custom', model: '' }])}
+                  disabled={draft.prices.length >= MAX_MODEL_PRICES}
+                  className="modern-btn px-3 py-1.5 text-xs bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:transform-none"
+                >
+                  ➕ 添加模型
+                </button>
+                {unpricedModels.length > 0 && (
+                  <button
+                    onClick={() => addPrices(unpricedModels)}
+                    disabled={draft.prices.length >= MAX_MODEL_PRICES}
+                    className="modern-btn px-3 py-1.5 text-xs bg-amber-100 text-amber-700 hover:bg-amber-200 disabled:opacity-50 disabled:transform-none"
+                  >
+                    添加未定价的模型（{unpricedModels.length}）
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* 验证错误 */}
+            {errors.length > 0 && (
+              <div className="modern-card bg-gradient-to-br from-red-50 to-rose-50 border-red-200 p-3 animate-fade-in">
+                <ul className="text-sm text-red-700 list-disc list-inside space-y-1">
+                  {errors.map((error, index) => (
+                    <li key={index}>{error}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="modern-btn flex-1 py-2.5 px-4 bg-gradient-to-r from-blue-600 to-blue-500 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+              >
+                {isSaving ? '保存中...' : '保存'}
+              </button>
+              <button
+                onClick={() => {
+                  setDraft(settings);
+                  setErrors([]);
+                }}
+                disabled={isSaving}
+                className="modern-btn py-2.5 px-4 bg-white border-2 border-gray-200 text-gray-700 text-sm font-medium hover:border-gray-300 disabled:opacity-50 disabled:transform-none"
+              >
+                撤销修改
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* 消息提示 */}
+      {message && (
+        <p className={`text-sm whitespace-pre-wrap ${
+          message.type === 'success' ? 'text-green-700' : 'text-red-700'
+        }`}>
+          {message.text}
+        </p>
+      )}
+
+      {records.length > 0 && (
+        <button
+          onClick={handleClear}
+          className="modern-btn w-full py-2 px-4 bg-white border-2 border-red-200 text-red-600 text-sm font-medium hover:bg-red-50"
+        >
+          清空用量记录
+        </button>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ import './styles.css';
 
 // 导入注入器
 import { twitterInjector } from './twitter-injector.tsx';
-import { StorageService } from '../services/storage-service';
+import { BackgroundClient } from '../services/background-client';
 
 console.log('[Twitter Reply Assistant] Content script 已加载');
 
@@ -19,7 +19,7 @@ console.log('[Twitter Reply Assistant] Content script 已加载');
 async function initialize() {
   try {
     // 检查是否有配置
-    const hasConfig = await StorageService.hasAIConfig();
+    const hasConfig = await BackgroundClient.hasAIConfig();
 
     if (!hasConfig) {
       console.warn('[Twitter Reply Assistant] 未找到 API 配置');
@@ -48,8 +48,8 @@ async function initialize() {
     }, delay);
 
     // 监听配置变化
-    StorageService.onConfigChange((config) => {
-      if (config) {
+    BackgroundClient.onConfigStatusChange((configured) => {
+      if (configured) {
         console.log('[Twitter Reply Assistant] 配置已更新');
         // 延迟重新注入
         setTimeout(() => {
@@ -1,27 +1,57 @@
 /**
  * Twitter 注入器
  *
- * 监听 Twitter 回复弹窗的出现，自动在工具栏中注入 AI 按钮
+ * 监听回复框（回复弹窗和推文详情页的内联回复框）的出现，自动在工具栏中注入 AI 按钮
+ * 开启时间线模式时，还会在每条推文的操作栏中注入 AI 按钮
  */
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { ReplyToolbarButton } from '../components/ReplyToolbarButton';
+import { TimelineAIButton } from '../components/TimelineAIButton';
+import { StorageService } from '../services/storage-service';
 import { TwitterDOM } from '../utils/twitter-dom';
-import { DOM_DEBOUNCE_DELAY } from '../types';
+import { DOM_DEBOUNCE_DELAY, TWITTER_SELECTORS } from '../types';
+import type { ReplyComposer, TweetContext, TweetInfo } from '../types';
+
+/**
+ * 注入到一个回复框中的 AI 按钮
+ */
+interface ComposerMount {
+  /** 按钮容器 */
+  container: HTMLElement;
+  /** 渲染按钮的 React 根节点 */
+  root: ReactDOM.Root;
+  /** 最近聚焦的输入框（串推编辑器中有多个） */
+  activeReplyBox: HTMLElement;
+  /** 记录聚焦输入框的监听器（卸载时移除） */
+  onFocusIn: (event: FocusEvent) => void;
+}
 
 /**
  * Twitter 注入器类
  */
 export class TwitterInjector {
   private observer: MutationObserver | null = null;
-  private processedDialogs = new Set<HTMLElement>();
+  // 已安排注入、正在等待工具栏渲染的回复框
+  private pendingComposers = new Set<HTMLElement>();
+  // 每个回复框（按容器元素）注入的 AI 按钮
+  private composerMounts = new Map<HTMLElement, ComposerMount>();
   private debouncedInject: () => void;
+  private debouncedTimelineInject: () => void;
+  // 时间线模式：按钮容器及其 React 根节点
+  private timelineMode = false;
+  private timelineRoots = new Map<HTMLElement, ReactDOM.Root>();
+  private unsubscribePreferences: (() => void) | null = null;
 
   constructor() {
     // 创建防抖的注入函数
     this.debouncedInject = TwitterDOM.debounce(
-      () => this.injectToolbarButton(),
+      () => this.injectToolbarButtons(),
+      DOM_DEBOUNCE_DELAY
+    );
+    this.debouncedTimelineInject = TwitterDOM.debounce(
+      () => this.injectTimelineButtons(),
       DOM_DEBOUNCE_DELAY
     );
   }
@@ -39,11 +69,23 @@ export class TwitterInjector {
     }
 
     // 立即检查当前是否有回复框
-    this.injectToolbarButton();
+    this.injectToolbarButtons();
 
     // 开始监听 DOM 变化
     this.startObserving();
 
+    // 读取并监听时间线模式设置
+    StorageService.getUserPreferences()
+      .then((preferences) => this.setTimelineMode(preferences.timelineMode))
+      .catch((error) => {
+        console.warn('[Twitter Injector] 读取用户偏好失败:', error);
+      });
+
+    this.unsubscribePreferences?.();
+    this.unsubscribePreferences = StorageService.onPreferencesChange((preferences) => {
+      this.setTimelineMode(preferences.timelineMode);
+    });
+
     console.log('[Twitter Injector] 回复框监听器已启动');
   }
 
@@ -56,43 +98,101 @@ export class TwitterInjector {
       this.observer = null;
     }
 
-    this.processedDialogs.clear();
+    this.pendingComposers.clear();
+
+    this.unsubscribePreferences?.();
+    this.unsubscribePreferences = null;
+    this.removeToolbarButtons();
+    this.removeTimelineButtons();
 
     console.log('[Twitter Injector] 回复框监听器已停止');
   }
 
+  /**
+   * 开启或关闭时间线模式
+   */
+  private setTimelineMode(enabled: boolean): void {
+    if (enabled === this.timelineMode) return;
+
+    this.timelineMode = enabled;
+    console.log(`[Twitter Injector] 时间线模式已${enabled ? '开启' : '关闭'}`);
+
+    if (enabled) {
+      this.injectTimelineButtons();
+    } else {
+      this.removeTimelineButtons();
+    }
+  }
+
   /**
    * 开始监听 DOM 变化
    */
   private startObserving(): void {
     this.observer = new MutationObserver((mutations) => {
-      // 检查是否有新的对话框元素
-      let hasNewDialog = false;
+      // 检查是否有新的回复框，以及推文是否有变化
+      let hasNewComposer = false;
+      let hasTweetChange = false;
+      // 已注入按钮的回复框被移除（弹窗关闭等），需要卸载 React 根节点
+      let hasRemovedComposer = false;
 
       for (const mutation of mutations) {
+        for (const node of mutation.removedNodes) {
+          if (
+            !hasRemovedComposer &&
+            node.nodeType === Node.ELEMENT_NODE &&
+            [...this.composerMounts.values()].some(({ container }) => node.contains(container))
+          ) {
+            hasRemovedComposer = true;
+          }
+        }
+
         if (mutation.addedNodes.length > 0) {
           for (const node of mutation.addedNodes) {
             if (node.nodeType === Node.ELEMENT_NODE) {
               const element = node as HTMLElement;
-              // 检查是否是回复弹窗或包含回复弹窗
+
+              // 忽略我们自己注入的按钮
+              if (element.closest('.twitter-ai-reply-button, .twitter-ai-toolbar-container')) {
+                continue;
+              }
+
+              // 检查是否是回复弹窗、回复框或包含它们
               if (
-                element.getAttribute('role') === 'dialog' ||
-                element.querySelector('[role="dialog"]') ||
-                element.querySelector('[data-testid="tweetTextarea_0"]')
+                !hasNewComposer && (
+                  element.getAttribute('role') === 'dialog' ||
+                  element.matches(TWITTER_SELECTORS.ANY_REPLY_TEXTAREA) ||
+                  element.querySelector(`[role="dialog"], ${TWITTER_SELECTORS.ANY_REPLY_TEXTAREA}`)
+                )
               ) {
-                hasNewDialog = true;
-                break;
+                hasNewComposer = true;
+              }
+
+              // 新推文，或虚拟列表复用的推文元素内容被替换
+              // 页内跳转到另一条推文时，内联回复框也需要重新绑定
+              if (
+                !hasTweetChange &&
+                (element.closest(TWITTER_SELECTORS.TWEET) || element.querySelector(TWITTER_SELECTORS.TWEET))
+              ) {
+                hasTweetChange = true;
               }
             }
           }
         }
-        if (hasNewDialog) break;
+        if (hasNewComposer && hasTweetChange && hasRemovedComposer) break;
+      }
+
+      if (hasRemovedComposer) {
+        this.cleanupToolbarButtons();
       }
 
-      if (hasNewDialog) {
-        // 使用防抖避免频繁调用
+      // 使用防抖避免频繁调用（工具栏被重新渲染时回复框还在，需要重新注入）
+      if (hasNewComposer || hasTweetChange || hasRemovedComposer) {
         this.debouncedInject();
       }
+
+      if (hasTweetChange && this.timelineMode) {
+        this.debouncedTimelineInject();
+      }
     });
 
     // 观察整个文档的子树变化
@@ -103,49 +203,74 @@ export class TwitterInjector {
   }
 
   /**
-   * 在回复框工具栏中注入 AI 按钮
+   * 在页面上所有回复框的工具栏中注入 AI 按钮
    */
-  private injectToolbarButton(): void {
-    // 查找回复弹窗
-    const dialog = TwitterDOM.findReplyDialog();
-    if (!dialog) {
-      // console.log('[Twitter Injector] 未找到回复弹窗');
-      return;
+  private injectToolbarButtons(): void {
+    this.cleanupToolbarButtons();
+
+    for (const composer of TwitterDOM.findReplyComposers()) {
+      this.injectToolbarButton(composer);
     }
+  }
 
-    // 检查是否已经处理过这个弹窗
-    if (this.processedDialogs.has(dialog)) {
-      // console.log('[Twitter Injector] 回复弹窗已处理过');
-      return;
+  /**
+   * 卸载已离开页面的回复框中的按钮
+   * 按钮容器被移除（弹窗关闭、Twitter 重新渲染了工具栏）时卸载，之后会重新注入
+   */
+  private cleanupToolbarButtons(): void {
+    for (const [composerRoot, mount] of this.composerMounts) {
+      if (!composerRoot.isConnected || !mount.container.isConnected) {
+        this.unmountToolbarButton(composerRoot);
+      }
     }
+  }
 
-    // 检查是否已经注入过按钮
-    if (TwitterDOM.hasToolbarAIButton(dialog)) {
-      this.processedDialogs.add(dialog);
+  /**
+   * 在一个回复框的工具栏中注入 AI 按钮
+   * 按钮绑定到注入时所回复的推文；回复框改为回复另一条推文时重新注入
+   */
+  private injectToolbarButton(composer: ReplyComposer): void {
+    const { root } = composer;
+
+    // 等待工具栏渲染中
+    if (this.pendingComposers.has(root)) {
       return;
     }
 
-    console.log('[Twitter Injector] 发现回复弹窗，准备注入 AI 按钮...');
+    // 获取推文 ID、链接和作者（用于回复历史）
+    const tweetInfo = TwitterDOM.getTweetInfoFromComposer(composer);
+    const existing = this.composerMounts.get(root);
 
-    // 获取回复框
-    const replyBox = dialog.querySelector('[data-testid="tweetTextarea_0"]') as HTMLElement;
-    if (!replyBox) {
-      console.warn('[Twitter Injector] 未找到回复输入框');
-      return;
+    if (existing) {
+      if (existing.container.dataset.targetTweetId === (tweetInfo.tweetId ?? '')) {
+        return;
+      }
+
+      // 页内跳转后同一个回复框回复的是另一条推文
+      console.log('[Twitter Injector] 回复框的目标推文已变化，重新注入 AI 按钮');
+      this.unmountToolbarButton(root);
     }
 
-    // 获取推文文本
-    const tweetText = TwitterDOM.getTweetTextFromReplyDialog(dialog);
-    if (!tweetText) {
+    console.log(`[Twitter Injector] 发现${composer.kind === 'dialog' ? '回复弹窗' : '内联回复框'}，准备注入 AI 按钮...`);
+
+    // 获取推文及其对话上下文
+    const tweetContext = TwitterDOM.getTweetContextFromComposer(composer);
+    if (!tweetContext.target.text) {
       console.warn('[Twitter Injector] 无法提取原推文文本');
       // 即使没有推文文本也继续，允许用户手动输入
     }
 
-    console.log('[Twitter Injector] 原推文文本:', tweetText || '(未找到)');
+    console.log('[Twitter Injector] 原推文文本:', tweetContext.target.text || '(未找到)', {
+      parents: tweetContext.parents.length,
+      quoted: Boolean(tweetContext.quoted),
+    });
 
     // 等待一小段时间让工具栏渲染
+    this.pendingComposers.add(root);
+
     setTimeout(() => {
-      this.injectButton(dialog, replyBox, tweetText || '');
+      this.pendingComposers.delete(root);
+      this.injectButton(composer, tweetContext, tweetInfo);
     }, 500); // 增加等待时间到 500ms
   }
 
@@ -153,23 +278,33 @@ export class TwitterInjector {
    * 执行注入
    */
   private injectButton(
-    dialog: HTMLElement,
-    replyBox: HTMLElement,
-    tweetText: string
+    composer: ReplyComposer,
+    tweetContext: TweetContext,
+    tweetInfo: TweetInfo
   ): void {
-    // 获取工具栏
-    const toolbar = TwitterDOM.getToolbarFromReplyDialog(dialog);
+    const { root: composerRoot, replyBox } = composer;
+
+    // 回复框已关闭
+    if (!replyBox.isConnected) {
+      return;
+    }
 
     // 再次检查是否已经注入过
-    if (TwitterDOM.hasToolbarAIButton(dialog)) {
-      this.processedDialogs.add(dialog);
+    if (this.composerMounts.has(composerRoot)) {
       return;
     }
 
+    // 移除残留的按钮（例如 reinjectAll 之前注入、未被跟踪的按钮）
+    composerRoot.querySelectorAll('.twitter-ai-toolbar-container').forEach((button) => button.remove());
+
+    // 获取工具栏
+    const toolbar = TwitterDOM.getToolbarFromReplyDialog(composerRoot);
+
     try {
       // 创建 AI 按钮容器
       const aiButtonContainer = document.createElement('div');
       aiButtonContainer.className = 'twitter-ai-toolbar-container';
+      aiButtonContainer.dataset.targetTweetId = tweetInfo.tweetId ?? '';
       Object.assign(aiButtonContainer.style, {
         display: 'inline-flex',
         alignItems: 'center',
@@ -186,7 +321,7 @@ export class TwitterInjector {
 
         // 查找回复框的父容器
         let parent = replyBox.parentElement;
-        while (parent && parent !== dialog) {
+        while (parent && parent !== composerRoot) {
           // 查找包含回复框的较大容器
           if (parent.offsetHeight > 50 && parent.offsetHeight < 300) {
             // 创建一个浮动容器
@@ -213,7 +348,7 @@ export class TwitterInjector {
           parent = parent.parentElement;
         }
 
-        // 如果还是找不到合适的位置，直接插入到对话框底部
+        // 如果还是找不到合适的位置，直接插入到回复框容器底部
         if (!aiButtonContainer.parentElement) {
           Object.assign(aiButtonContainer.style, {
             position: 'fixed',
@@ -225,39 +360,164 @@ export class TwitterInjector {
             padding: '2px',
             boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
           });
-          dialog.appendChild(aiButtonContainer);
+          composerRoot.appendChild(aiButtonContainer);
           console.log('[Twitter Injector] 使用固定定位注入 AI 按钮');
         }
       }
 
+      // 记录最近聚焦的输入框，串推编辑器中把回复填入正在编辑的那一条
+      const onFocusIn = (event: FocusEvent) => {
+        const target = event.target as HTMLElement;
+        const box = TwitterDOM.getReplyBoxes(composerRoot).find((candidate) => candidate.contains(target));
+        if (box) {
+          mount.activeReplyBox = box;
+        }
+      };
+
+      const getReplyBox = () =>
+        mount.activeReplyBox.isConnected
+          ? mount.activeReplyBox
+          : TwitterDOM.getReplyBoxes(composerRoot)[0] ?? replyBox;
+
       // 使用 React 渲染 AI 按钮
       const root = ReactDOM.createRoot(aiButtonContainer);
+      const mount: ComposerMount = {
+        container: aiButtonContainer,
+        root,
+        activeReplyBox: replyBox,
+        onFocusIn,
+      };
+
+      composerRoot.addEventListener('focusin', onFocusIn);
+      this.composerMounts.set(composerRoot, mount);
+
       root.render(
-        <ReplyToolbarButton tweetText={tweetText} replyBox={replyBox} />
+        <ReplyToolbarButton tweetContext={tweetContext} tweetInfo={tweetInfo} getReplyBox={getReplyBox} />
       );
 
-      // 标记为已处理
-      this.processedDialogs.add(dialog);
-
       console.log('[Twitter Injector] ✅ AI 按钮已成功注入');
     } catch (error) {
       console.error('[Twitter Injector] 注入失败:', error);
     }
   }
 
+  /**
+   * 卸载并移除一个回复框中的 AI 按钮
+   */
+  private unmountToolbarButton(composerRoot: HTMLElement): void {
+    const mount = this.composerMounts.get(composerRoot);
+    if (!mount) return;
+
+    mount.root.unmount();
+    mount.container.remove();
+    composerRoot.removeEventListener('focusin', mount.onFocusIn);
+    this.composerMounts.delete(composerRoot);
+  }
+
+  /**
+   * 移除所有回复框中的 AI 按钮
+   */
+  private removeToolbarButtons(): void {
+    for (const composerRoot of [...this.composerMounts.keys()]) {
+      this.unmountToolbarButton(composerRoot);
+    }
+
+    document.querySelectorAll('.twitter-ai-toolbar-container').forEach((button) => button.remove());
+  }
+
+  /**
+   * 在时间线推文的操作栏中注入 AI 按钮
+   * 推文元素会被虚拟列表复用：按处理时记录的推文 ID 判断是否需要重新注入
+   */
+  private injectTimelineButtons(): void {
+    if (!this.timelineMode) return;
+
+    // 卸载已被移出页面的按钮
+    for (const [container, root] of this.timelineRoots) {
+      if (!container.isConnected) {
+        root.unmount();
+        this.timelineRoots.delete(container);
+      }
+    }
+
+    for (const tweet of TwitterDOM.getAllTweets()) {
+      // 回复弹窗中展示的推文不需要按钮
+      if (tweet.closest('[role="dialog"]')) continue;
+
+      const tweetId = TwitterDOM.getTweetId(tweet);
+
+      if (TwitterDOM.isProcessed(tweet, tweetId) && TwitterDOM.hasAIButton(tweet)) {
+        continue;
+      }
+
+      // 元素已复用给另一条推文，或按钮被 Twitter 重新渲染掉
+      this.removeTimelineButton(tweet);
+      this.injectTimelineButton(tweet, tweetId);
+    }
+  }
+
+  /**
+   * 在一条推文的操作栏中注入 AI 按钮
+   */
+  private injectTimelineButton(tweet: HTMLElement, tweetId: string | null): void {
+    const actionBar = TwitterDOM.getReplyButtonContainer(tweet);
+    if (!actionBar) return;
+
+    try {
+      const container = document.createElement('div');
+      container.className = 'twitter-ai-reply-button';
+
+      // 阻止点击冒泡到推文（否则会打开推文详情页）
+      container.addEventListener('click', (event) => event.stopPropagation());
+
+      actionBar.appendChild(container);
+
+      const root = ReactDOM.createRoot(container);
+      root.render(<TimelineAIButton tweetElement={tweet} />);
+
+      this.timelineRoots.set(container, root);
+      TwitterDOM.markAsProcessed(tweet, tweetId);
+    } catch (error) {
+      console.error('[Twitter Injector] 时间线按钮注入失败:', error);
+    }
+  }
+
+  /**
+   * 移除一条推文中的 AI 按钮
+   */
+  private removeTimelineButton(tweet: HTMLElement): void {
+    tweet.querySelectorAll<HTMLElement>('.twitter-ai-reply-button').forEach((container) => {
+      this.timelineRoots.get(container)?.unmount();
+      this.timelineRoots.delete(container);
+      container.remove();
+    });
+  }
+
+  /**
+   * 移除所有时间线按钮
+   */
+  private removeTimelineButtons(): void {
+    for (const [container, root] of this.timelineRoots) {
+      root.unmount();
+      container.remove();
+    }
+    this.timelineRoots.clear();
+  }
+
   /**
    * 重新注入所有回复框（用于调试）
    */
   reinjectAll(): void {
     console.log('[Twitter Injector] 重新注入回复框...');
-    this.processedDialogs.clear();
+    this.pendingComposers.clear();
 
     // 移除所有已注入的按钮
-    const existingButtons = document.querySelectorAll('.twitter-ai-toolbar-container');
-    existingButtons.forEach((button) => button.remove());
+    this.removeToolbarButtons();
+    this.removeTimelineButtons();
 
     // 重新注入
-    this.injectToolbarButton();
+    this.injectToolbarButtons();
+    this.injectTimelineButtons();
   }
 }
 
@@ -2,14 +2,37 @@ import React, { useState, useEffect } from 'react';
 import ReactDOM from 'react-dom/client';
 import '../index.css';
 import { StorageService, ConfigValidator } from '../services/storage-service';
-import { AIService } from '../services/ai-service';
-import type { AIConfig, AIProvider } from '../types';
-import { PROVIDER_URLS, PROVIDER_NAMES, MODEL_SUGGESTIONS, REPLY_STYLES, ErrorHelper, AppError } from '../types';
+import { BackgroundClient } from '../services/background-client';
+import type { AIConfig, AIProfile, AIProvider, TokenSecurityStatus } from '../types';
+import { PROVIDER_URLS, PROVIDER_NAMES, PROVIDER_REQUIRES_TOKEN, MODEL_SUGGESTIONS, REPLY_STYLES, MAX_REPLY_LENGTH, ErrorHelper, AppError } from '../types';
 import { CustomStyleManager } from '../components/CustomStyleManager';
+import { ReplyHistory } from '../components/ReplyHistory';
+import { PreferencesSettings } from '../components/PreferencesSettings';
+import { ProfileManager } from '../components/ProfileManager';
+import { RateLimitSettings } from '../components/RateLimitSettings';
+import { UsageDashboard } from '../components/UsageDashboard';
+import { StorageBackupCard } from '../components/StorageBackupCard';
+import { TokenUnlockPrompt } from '../components/TokenUnlockPrompt';
+import { TokenSecuritySettings } from '../components/TokenSecuritySettings';
+import { TokenVault } from '../services/token-vault';
+import { TweetLength } from '../utils/tweet-length';
+
+// 各提供商 API Token 的格式示例
+const TOKEN_PLACEHOLDERS: Partial<Record<AIProvider, string>> = {
+  anthropic: 'sk-ant-xxxx...',
+  gemini: 'AIzaSy...',
+};
+
+// 状态页只显示 Token 的首尾几位
+function maskToken(token: string): string {
+  return token.length > 10 ? `${token.slice(0, 3)}••••${token.slice(-4)}` : '••••';
+}
 
 function App() {
-  const [activeTab, setActiveTab] = useState<'config' | 'status' | 'test' | 'customStyles'>('config');
+  const [activeTab, setActiveTab] = useState<'config' | 'status' | 'test' | 'customStyles' | 'history' | 'usage'>('config');
   const [config, setConfig] = useState<AIConfig | null>(null);
+  const [profiles, setProfiles] = useState<AIProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
   const [testResult, setTestResult] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -23,7 +46,10 @@ function App() {
   });
 
   const [showToken, setShowToken] = useState(false);
+  const [localModels, setLocalModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
   const [storageInfo, setStorageInfo] = useState<any>(null);
+  const [tokenStatus, setTokenStatus] = useState<TokenSecurityStatus | null>(null);
 
   // 加载配置
   useEffect(() => {
@@ -32,11 +58,19 @@ function App() {
 
   const loadData = async () => {
     try {
-      const cfg = await StorageService.getAIConfig();
+      // 读取当前档案 ID 时会自动迁移旧版的单一配置
+      const currentProfileId = await StorageService.getActiveProfileId();
+      const allProfiles = await StorageService.getProfiles();
+      setTokenStatus(await TokenVault.getStatus());
+      const cfg = allProfiles.find((p) => p.id === currentProfileId)?.config ?? null;
+
+      setProfiles(allProfiles);
+      setActiveProfileId(cfg ? currentProfileId : null);
+      setConfig(cfg);
 
       if (cfg) {
-        setConfig(cfg);
         setFormData(cfg);
+        setLocalModels([]);
       } else {
         // 首次使用，切换到配置标签页
         setActiveTab('config');
@@ -50,6 +84,18 @@ function App() {
     }
   };
 
+  // 切换当前档案
+  const switchProfile = async (profileId: string) => {
+    try {
+      await StorageService.setActiveProfile(profileId);
+      setTestResult('');
+      await loadData();
+    } catch (error: unknown) {
+      const formattedError = ErrorHelper.formatForUser(error);
+      setTestResult(`❌ 切换档案失败:\n\n${formattedError}`);
+    }
+  };
+
   // 处理提供商变化
   const handleProviderChange = (provider: AIProvider) => {
     let newFormData: AIConfig;
@@ -71,6 +117,33 @@ function App() {
     }
 
     setFormData(newFormData);
+    setLocalModels([]);
+
+    // 本地模型：自动读取服务器上已安装的模型
+    if (provider === 'local') {
+      fetchLocalModels(newFormData);
+    }
+  };
+
+  // 获取本地服务器已安装的模型
+  const fetchLocalModels = async (data: AIConfig = formData) => {
+    setIsLoadingModels(true);
+
+    try {
+      const models = await BackgroundClient.listModels(data);
+      setLocalModels(models);
+
+      if (models.length === 0) {
+        setTestResult('⚠️ 本地服务器上没有已安装的模型，请先拉取模型（如 ollama pull llama3.2）');
+      } else if (!models.includes(data.model)) {
+        setFormData((prev) => ({ ...prev, model: models[0] }));
+      }
+    } catch (error: unknown) {
+      const formattedError = ErrorHelper.formatForUser(error);
+      setTestResult(`❌ 获取模型列表失败:\n\n${formattedError}`);
+    } finally {
+      setIsLoadingModels(false);
+    }
   };
 
   // 保存配置
@@ -91,7 +164,8 @@ function App() {
       setConfig(formData);
       await loadData();
 
-      setTestResult('✅ 配置已成功保存！');
+      const savedProfile = await StorageService.getActiveProfile();
+      setTestResult(`✅ 配置已保存到档案「${savedProfile?.name ?? ''}」`);
       setTimeout(() => {
         setActiveTab('status');
       }, 1000);
@@ -117,7 +191,7 @@ function App() {
     setTestResult('测试 API 连接...\n');
 
     try {
-      const result = await AIService.testConfig(formData);
+      const result = await BackgroundClient.testConfig(formData);
 
       if (result.success) {
         setTestResult(
@@ -143,7 +217,8 @@ function App() {
 
   // 清除配置
   const clearConfig = async () => {
-    if (!confirm('确定要清除配置吗？')) return;
+    const activeProfile = profiles.find((p) => p.id === activeProfileId);
+    if (!confirm(`确定要清除配置吗？当前档案「${activeProfile?.name ?? ''}」将被删除。`)) return;
 
     try {
       await StorageService.clearAIConfig();
@@ -174,9 +249,14 @@ function App() {
     setTestResult('生成测试回复...\n');
 
     try {
-      const reply = await AIService.generateReply(
+      // 使用偏好中的默认风格
+      const preferences = await StorageService.getUserPreferences();
+      const allStyles = await StorageService.getAllStyles();
+      const style = allStyles.find((s) => s.id === preferences.defaultStyleId) ?? REPLY_STYLES[0];
+
+      const reply = await BackgroundClient.generateReply(
         '今天天气真好！☀️',
-        'humorous'
+        style.id
       );
 
       setTestResult(
@@ -184,9 +264,9 @@ function App() {
           prev +
           `✅ 回复生成成功！\n\n` +
           `原推文: "今天天气真好！☀️"\n` +
-          `风格: 幽默风趣\n` +
-          `AI 回复: "${reply}"\n\n` +
-          `字符数: ${reply.length}/280`
+          `风格: ${style.name}\n` +
+          `AI 回复: "${reply.text}"\n\n` +
+          `字符数: ${TweetLength.getWeightedLength(reply.text)}/${MAX_REPLY_LENGTH}（按 X 计数规则）`
       );
     } catch (error: unknown) {
       const formattedError = ErrorHelper.formatForUser(error);
@@ -206,10 +286,31 @@ function App() {
               <path d="M12 2L2 7v10c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V7l-10-5z"/>
             </svg>
           </div>
-          <div>
+          <div className="flex-1 min-w-0">
             <h1 className="text-xl font-bold tracking-tight">Twitter Reply Assistant</h1>
             <p className="text-sm text-blue-50 mt-0.5">AI 智能回复助手</p>
           </div>
+
+          {/* 档案切换 */}
+          {profiles.length > 0 && (
+            <select
+              value={activeProfileId ?? ''}
+              onChange={(e) => switchProfile(e.target.value)}
+              title="切换配置档案"
+              className="max-w-[150px] px-2 py-1.5 text-sm rounded-lg bg-white/20 text-white border border-white/30 focus:outline-none focus:ring-2 focus:ring-white/50"
+            >
+              {!activeProfileId && (
+                <option value="" disabled className="text-gray-900">
+                  选择档案
+                </option>
+              )}
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id} className="text-gray-900">
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
       </div>
 
@@ -251,6 +352,30 @@ function App() {
             🎨 <span>自定义</span>
           </span>
         </button>
+        <button
+          className={`flex-1 py-2.5 px-3 font-medium text-sm rounded-lg transition-all ${
+            activeTab === 'history'
+              ? 'bg-white text-blue-600 shadow-sm'
+              : 'text-gray-600 hover:text-gray-900 hover:bg-white/50'
+          }`}
+          onClick={() => setActiveTab('history')}
+        >
+          <span className="flex items-center justify-center gap-1.5">
+            🕘 <span>历史</span>
+          </span>
+        </button>
+        <button
+          className={`flex-1 py-2.5 px-3 font-medium text-sm rounded-lg transition-all ${
+            activeTab === 'usage'
+              ? 'bg-white text-blue-600 shadow-sm'
+              : 'text-gray-600 hover:text-gray-900 hover:bg-white/50'
+          }`}
+          onClick={() => setActiveTab('usage')}
+        >
+          <span className="flex items-center justify-center gap-1.5">
+            📈 <span>用量</span>
+          </span>
+        </button>
         <button
           className={`flex-1 py-2.5 px-3 font-medium text-sm rounded-lg transition-all ${
             activeTab === 'test'
@@ -267,6 +392,9 @@ function App() {
 
       {/* 内容区域 */}
       <div className="p-5 max-h-[500px] overflow-y-auto bg-gray-50/50">
+        {/* Token 已加密且未解锁 */}
+        {tokenStatus && !tokenStatus.unlocked && <TokenUnlockPrompt onUnlocked={loadData} />}
+
         {/* API 配置标签页 */}
         {activeTab === 'config' && (
           <div className="space-y-4">
@@ -282,7 +410,7 @@ function App() {
                   <div className="flex-1">
                     <p className="text-green-800 font-semibold text-sm">配置已就绪</p>
                     <p className="text-green-600 text-xs mt-0.5">
-                      {PROVIDER_NAMES[config.provider]} · {config.model}
+                      {profiles.find((p) => p.id === activeProfileId)?.name} · {PROVIDER_NAMES[config.provider]} · {config.model}
                     </p>
                   </div>
                 </div>
@@ -298,7 +426,9 @@ function App() {
                   <div className="flex-1">
                     <p className="text-amber-800 font-semibold text-sm">需要配置</p>
                     <p className="text-amber-600 text-xs mt-0.5">
-                      请配置 API 以使用智能回复功能
+                      {profiles.length > 0
+                        ? '请在右上角选择档案，或填写下方配置并保存'
+                        : '请配置 API 以使用智能回复功能'}
                     </p>
                   </div>
                 </div>
@@ -311,7 +441,7 @@ function App() {
                 AI 提供商
               </label>
               <div className="grid grid-cols-2 gap-2">
-                {(['siliconflow', 'deepseek', 'glm', 'custom'] as AIProvider[]).map(
+                {(Object.keys(PROVIDER_NAMES) as AIProvider[]).map(
                   (provider) => (
                     <button
                       key={provider}
@@ -332,7 +462,7 @@ function App() {
             {/* API Token */}
             <div className="modern-card p-4">
               <label className="block text-sm font-semibold text-gray-800 mb-3">
-                API Token
+                API Token{!PROVIDER_REQUIRES_TOKEN[formData.provider] && '（可选）'}
               </label>
               <div className="relative">
                 <input
@@ -341,7 +471,7 @@ function App() {
                   onChange={(e) =>
                     setFormData({ ...formData, apiToken: e.target.value })
                   }
-                  placeholder="sk-xxxx..."
+                  placeholder={TOKEN_PLACEHOLDERS[formData.provider] ?? 'sk-xxxx...'}
                   className="modern-input w-full px-4 py-2.5 pr-20 text-sm"
                 />
                 <button
@@ -353,15 +483,29 @@ function App() {
                 </button>
               </div>
               <p className="text-xs text-gray-500 mt-2">
-                从 {PROVIDER_NAMES[formData.provider]} 获取您的 API Token
+                {PROVIDER_REQUIRES_TOKEN[formData.provider]
+                  ? `从 ${PROVIDER_NAMES[formData.provider]} 获取您的 API Token`
+                  : '本地服务器通常无需 Token；llama.cpp 使用 --api-key 启动时请填写'}
               </p>
             </div>
 
             {/* 模型名称 */}
             <div className="modern-card p-4">
-              <label className="block text-sm font-semibold text-gray-800 mb-3">
-                模型名称
-              </label>
+              <div className="flex items-center justify-between mb-3">
+                <label className="block text-sm font-semibold text-gray-800">
+                  模型名称
+                </label>
+                {formData.provider === 'local' && (
+                  <button
+                    type="button"
+                    onClick={() => fetchLocalModels()}
+                    disabled={isLoadingModels}
+                    className="text-xs text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+                  >
+                    {isLoadingModels ? '读取中...' : '刷新已安装模型'}
+                  </button>
+                )}
+              </div>
               <input
                 list="model-suggestions"
                 value={formData.model}
@@ -372,20 +516,28 @@ function App() {
                 className="modern-input w-full px-4 py-2.5 text-sm"
               />
               <datalist id="model-suggestions">
-                {formData.provider !== 'custom' &&
-                  MODEL_SUGGESTIONS[formData.provider].map((model) => (
-                    <option key={model} value={model} />
-                  ))}
+                {formData.provider === 'local' && localModels.length > 0
+                  ? localModels.map((model) => (
+                      <option key={model} value={model} />
+                    ))
+                  : formData.provider !== 'custom' &&
+                    MODEL_SUGGESTIONS[formData.provider].map((model) => (
+                      <option key={model} value={model} />
+                    ))}
               </datalist>
-              {formData.provider !== 'custom' && (
+              {formData.provider === 'local' && localModels.length > 0 ? (
+                <p className="text-xs text-gray-500 mt-2">
+                  已安装: {localModels.join(', ')}
+                </p>
+              ) : formData.provider !== 'custom' && (
                 <p className="text-xs text-gray-500 mt-2">
                   建议: {MODEL_SUGGESTIONS[formData.provider].join(', ')}
                 </p>
               )}
             </div>
 
-            {/* 自定义 URL（仅自定义提供商） */}
-            {formData.provider === 'custom' && (
+            {/* API URL（自定义提供商和本地模型） */}
+            {(formData.provider === 'custom' || formData.provider === 'local') && (
               <div className="modern-card p-4 animate-fade-in">
                 <label className="block text-sm font-semibold text-gray-800 mb-3">
                   API URL
@@ -396,11 +548,17 @@ function App() {
                   onChange={(e) =>
                     setFormData({ ...formData, apiUrl: e.target.value })
                   }
-                  placeholder="https://api.example.com/v1/chat/completions"
+                  placeholder={
+                    formData.provider === 'local'
+                      ? PROVIDER_URLS.local
+                      : 'https://api.example.com/v1/chat/completions'
+                  }
                   className="modern-input w-full px-4 py-2.5 text-sm"
                 />
                 <p className="text-xs text-gray-500 mt-2">
-                  需要兼容 OpenAI Chat Completions API
+                  {formData.provider === 'local'
+                    ? 'Ollama 默认端口 11434，llama.cpp 默认端口 8080；Ollama 需通过 OLLAMA_ORIGINS 允许浏览器访问'
+                    : '需要兼容 OpenAI Chat Completions API'}
                 </p>
               </div>
             )}
@@ -460,6 +618,23 @@ function App() {
                 </pre>
               </div>
             )}
+
+            {/* 配置档案 */}
+            <ProfileManager
+              profiles={profiles}
+              activeProfileId={activeProfileId}
+              currentConfig={formData}
+              onChange={loadData}
+            />
+
+            {/* 生成偏好 */}
+            <PreferencesSettings />
+
+            {/* 请求限速 */}
+            <RateLimitSettings />
+
+            {/* Token 安全 */}
+            {tokenStatus && <TokenSecuritySettings status={tokenStatus} onChange={loadData} />}
           </div>
         )}
 
@@ -498,7 +673,9 @@ function App() {
                   <div className="flex justify-between items-center py-2 border-b border-gray-100">
                     <span className="text-gray-600">API Token</span>
                     <span className="font-mono text-xs text-gray-900">
-                      {config.apiToken.slice(0, 10)}...
+                      {config.apiToken
+                        ? maskToken(config.apiToken)
+                        : tokenStatus && !tokenStatus.unlocked ? '🔒 已加密（未解锁）' : '未设置'}
                     </span>
                   </div>
                   <div className="flex justify-between items-center py-2">
@@ -557,6 +734,9 @@ function App() {
               )}
             </div>
 
+            {/* 数据版本与备份 */}
+            <StorageBackupCard />
+
             {/* 回复风格列表 */}
             <div className="modern-card p-4">
               <h3 className="font-semibold text-gray-800 mb-3 flex items-center gap-2">
@@ -603,6 +783,16 @@ function App() {
           <CustomStyleManager />
         )}
 
+        {/* 回复历史标签页 */}
+        {activeTab === 'history' && (
+          <ReplyHistory />
+        )}
+
+        {/* 用量统计标签页 */}
+        {activeTab === 'usage' && (
+          <UsageDashboard />
+        )}
+
         {/* 测试标签页 */}
         {activeTab === 'test' && (
           <div className="space-y-4">
@@ -2,24 +2,94 @@
  * AI Service
  *
  * Handles communication with AI APIs to generate Twitter replies
- * Supports multiple providers with OpenAI-compatible API format
+ * Provider-specific wire formats live in ./providers
  */
 
 import axios, { AxiosError } from 'axios';
 import type {
   AIConfig,
-  ChatCompletionRequest,
-  ChatCompletionResponse,
+  GeneratedReply,
   ReplyStyle,
+  RewriteOperation,
+  TokenUsage,
+  TweetContext,
+  TweetSnapshot,
+  UserPreferences,
 } from '../types';
 import {
   MAX_REPLY_LENGTH,
+  MAX_REPLY_CANDIDATES,
+  PROVIDER_SUPPORTS_N,
   API_TIMEOUT,
+  LOCAL_API_TIMEOUT,
+  LOCAL_RETRY_DELAY,
   MAX_RETRY_ATTEMPTS,
+  RATE_LIMIT_MAX_WAIT,
+  OUTPUT_LANGUAGE_NAMES,
+  PROVIDER_NAMES,
+  PROVIDER_REQUIRES_TOKEN,
+  REWRITE_OPERATIONS,
+  REWRITE_STYLE_PREFIX,
   ErrorType,
   AppError,
 } from '../types';
 import { StorageService } from './storage-service';
+import { TokenVault } from './token-vault';
+import { SSEParser } from '../utils/sse-parser';
+import { TweetLength } from '../utils/tweet-length';
+import { RateLimiter } from './rate-limiter';
+import { getProviderAdapter } from './providers';
+import type { GenerationParams, ProviderAdapter } from './providers';
+
+/**
+ * Explains Twitter's weighted counting to the model
+ */
+const LENGTH_RULE_HINT = '中日韩文字和 emoji 每个计 2，链接固定计 23，英文字母和数字计 1';
+
+/**
+ * Everything a generation request is built from
+ */
+interface GenerationSettings {
+  config: AIConfig;
+  /** Saved profile configs tried in order when the primary config fails */
+  fallbacks: AIConfig[];
+  style: ReplyStyle;
+  preferences: UserPreferences;
+  /** Maximum reply length in weighted characters */
+  maxLength: number;
+  /** Reply draft to rewrite instead of writing a new reply */
+  draft?: string;
+}
+
+/**
+ * Replies and token usage returned by one non-streaming API call
+ */
+interface APICallResult {
+  replies: string[];
+  usage?: TokenUsage;
+}
+
+/**
+ * An API call result with the config that produced it and its latency
+ */
+interface TimedCallResult {
+  result: APICallResult;
+  /** Latency including retries and fallbacks (ms) */
+  latency: number;
+  config: AIConfig;
+  isFallback: boolean;
+}
+
+/**
+ * Result of an operation run through the fallback chain
+ */
+interface FallbackResult<T> {
+  value: T;
+  /** Configuration that produced the value */
+  config: AIConfig;
+  /** Whether the value came from a fallback profile */
+  isFallback: boolean;
+}
 
 /**
  * AI Service class
@@ -28,76 +98,344 @@ import { StorageService } from './storage-service';
 export class AIService {
   /**
    * Generate a reply for a tweet
-   * @param tweetText - The text content of the tweet to reply to
+   * @param tweet - Tweet text, or the tweet with its conversation context
    * @param styleId - The reply style to use (preset or custom style ID)
-   * @returns Promise<string> - Generated reply text
+   * @param signal - Aborts the request and any pending retry
+   * @param onWait - Called with the send time while the rate limiter queues the request
+   * @returns Promise<GeneratedReply> - Generated reply with request metadata
    */
   static async generateReply(
-    tweetText: string,
-    styleId: string
-  ): Promise<string> {
-    console.log('[AI Service] 开始生成回复...', { styleId, tweetLength: tweetText.length });
+    tweet: TweetContext | string,
+    styleId: string,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<GeneratedReply> {
+    const context = this.toTweetContext(tweet);
+    console.log('[AI Service] 开始生成回复...', { styleId, tweetLength: context.target.text.length });
 
-    // Get configuration from storage
-    const config = await StorageService.getAIConfig();
+    const settings = await this.resolveGenerationSettings(styleId);
+
+    const { result, latency, config, isFallback } = await this.timedCall(settings, context, 1, signal, onWait);
+    const reply = this.toGeneratedReply(config, result.replies[0], latency, result.usage, isFallback);
+
+    console.log('[AI Service] ✅ 回复生成成功:', { length: reply.text.length, latency });
+
+    return reply;
+  }
+
+  /**
+   * Generate several reply candidates for a tweet
+   * Uses the `n` parameter when the provider supports it and tops up the
+   * remaining candidates with parallel requests.
+   * @param tweet - Tweet text, or the tweet with its conversation context
+   * @param styleId - The reply style to use (preset or custom style ID)
+   * @param count - Number of candidates to generate (defaults to the preference)
+   * @param signal - Aborts all requests and any pending retry
+   * @param onWait - Called with the send time while the rate limiter queues a request
+   * @returns Promise<GeneratedReply[]> - Distinct reply candidates (at least one)
+   */
+  static async generateReplies(
+    tweet: TweetContext | string,
+    styleId: string,
+    count?: number,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<GeneratedReply[]> {
+    const context = this.toTweetContext(tweet);
+    const settings = await this.resolveGenerationSettings(styleId);
+
+    const requested = count ?? settings.preferences.candidateCount;
+    const candidateCount = Math.min(Math.max(1, Math.floor(requested)), MAX_REPLY_CANDIDATES);
+
+    console.log('[AI Service] 开始生成多个候选回复...', { styleId, candidateCount });
+
+    const candidates: GeneratedReply[] = [];
+    const addCandidates = ({ result, latency, config, isFallback }: TimedCallResult) => {
+      // The request's usage goes to the first reply taken from it
+      let usage = result.usage;
+
+      for (const text of result.replies) {
+        if (
+          candidates.length < candidateCount &&
+          !candidates.some((candidate) => candidate.text === text)
+        ) {
+          candidates.push(this.toGeneratedReply(config, text, latency, usage, isFallback));
+          usage = undefined;
+        }
+      }
+    };
+
+    let firstError: unknown = null;
+
+    if (candidateCount > 1 && PROVIDER_SUPPORTS_N[settings.config.provider]) {
+      try {
+        addCandidates(await this.timedCall(settings, context, candidateCount, signal, onWait));
+      } catch (error) {
+        // Non-retryable errors (bad token etc.) would fail the parallel path too
+        if (error instanceof AppError && !error.isRetryable()) {
+          throw error;
+        }
+        firstError = error;
+      }
+    }
+
+    const remaining = candidateCount - candidates.length;
+
+    if (remaining > 0) {
+      const results = await Promise.allSettled(
+        Array.from({ length: remaining }, () => this.timedCall(settings, context, 1, signal, onWait))
+      );
+
+      for (const result of results) {
+        if (result.status === 'fulfilled') {
+          addCandidates(result.value);
+        } else if (!firstError) {
+          firstError = result.reason;
+        }
+      }
+    }
+
+    this.throwIfAborted(signal);
+
+    if (candidates.length === 0) {
+      if (firstError instanceof AppError) {
+        throw firstError;
+      }
 
-    if (!config) {
-      console.error('[AI Service] 未找到 API 配置');
       throw new AppError(
-        ErrorType.INVALID_CONFIG,
-        'AI configuration not found. Please configure the extension first.'
+        ErrorType.GENERATION_FAILED,
+        'Failed to generate reply candidates',
+        firstError
       );
     }
 
-    // Get all styles (preset + custom)
-    const allStyles = await StorageService.getAllStyles();
-    const style = allStyles.find((s) => s.id === styleId);
+    console.log('[AI Service] ✅ 候选回复生成成功:', {
+      requested: candidateCount,
+      received: candidates.length,
+    });
 
-    if (!style) {
-      console.error('[AI Service] 无效的回复风格:', styleId);
+    return candidates;
+  }
+
+  /**
+   * Rewrite a reply draft typed by the user
+   * Uses the active config; the operation's instruction replaces the style prompt.
+   * @param tweet - Tweet text, or the tweet with its conversation context
+   * @param draft - Reply draft to rewrite
+   * @param operation - Rewrite to apply (shorten, translate, ...)
+   * @param signal - Aborts the request and any pending retry
+   * @param onWait - Called with the send time while the rate limiter queues the request
+   * @returns Promise<GeneratedReply> - Rewritten draft with request metadata
+   */
+  static async rewriteDraft(
+    tweet: TweetContext | string,
+    draft: string,
+    operation: RewriteOperation,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<GeneratedReply> {
+    const rewrite = REWRITE_OPERATIONS.find((op) => op.id === operation);
+
+    if (!rewrite) {
       throw new AppError(
         ErrorType.INVALID_CONFIG,
-        `Invalid style ID: ${styleId}`
+        `Invalid rewrite operation: ${operation}`
       );
     }
 
-    console.log('[AI Service] 使用回复风格:', style.name);
+    if (!draft.trim()) {
+      throw new AppError(
+        ErrorType.GENERATION_FAILED,
+        'The reply draft is empty'
+      );
+    }
+
+    const context = this.toTweetContext(tweet);
+    console.log('[AI Service] 开始润色草稿...', { operation, draftLength: draft.length });
+
+    const settings = await this.resolveGenerationSettings({
+      id: `${REWRITE_STYLE_PREFIX}${rewrite.id}`,
+      name: rewrite.name,
+      icon: rewrite.icon,
+      description: '',
+      systemPrompt: rewrite.instruction,
+    });
+
+    const { result, latency, config, isFallback } = await this.timedCall(
+      { ...settings, draft: draft.trim() },
+      context,
+      1,
+      signal,
+      onWait
+    );
+    const reply = this.toGeneratedReply(config, result.replies[0], latency, result.usage, isFallback);
+
+    console.log('[AI Service] ✅ 草稿润色成功:', { length: reply.text.length, latency });
+
+    return reply;
+  }
+
+  /**
+   * Call the API through the fallback chain and measure the latency
+   * @param settings - Configuration, style and preferences
+   * @param context - Tweet to reply to and its conversation
+   * @param n - Number of choices to request
+   * @param signal - Aborts the request and any pending retry
+   * @param onWait - Called with the send time while the rate limiter queues the request
+   * @returns Promise<TimedCallResult> - API result, the config that produced it
+   *   and latency including retries, fallbacks and rate limit waits (ms)
+   */
+  private static async timedCall(
+    settings: GenerationSettings,
+    context: TweetContext,
+    n = 1,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<TimedCallResult> {
+    const startTime = Date.now();
+    const { value, config, isFallback } = await this.withFallback(
+      settings,
+      (config, maxRetries) => this.withRetry(
+        config,
+        () => this.callAIAPI({ ...settings, config }, context, n, signal, onWait),
+        signal,
+        maxRetries
+      ),
+      signal
+    );
+
+    return { result: value, latency: Date.now() - startTime, config, isFallback };
+  }
+
+  /**
+   * Attach request metadata to a reply text
+   */
+  private static toGeneratedReply(
+    config: AIConfig,
+    text: string,
+    latency: number,
+    usage?: TokenUsage,
+    isFallback = false
+  ): GeneratedReply {
+    return {
+      text,
+      provider: config.provider,
+      model: config.model,
+      latency,
+      ...(usage ? { usage } : {}),
+      ...(isFallback ? { isFallback } : {}),
+    };
+  }
+
+  /**
+   * Run an operation against the primary config, then each fallback in order
+   * Falls through on retryable errors and rate limits. Only the last config
+   * in the chain is retried; earlier ones hand over on their first failure.
+   * @param settings - Primary config and fallbacks
+   * @param operation - Operation to run with a config and its retry budget
+   * @param signal - Stops falling through when aborted
+   * @returns Promise<FallbackResult<T>> - Result and the config that produced it
+   */
+  private static async withFallback<T>(
+    settings: GenerationSettings,
+    operation: (config: AIConfig, maxRetries: number) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<FallbackResult<T>> {
+    const chain = [settings.config, ...settings.fallbacks];
+
+    for (let index = 0; ; index++) {
+      const config = chain[index];
+      const isLast = index === chain.length - 1;
+
+      try {
+        const value = await operation(config, isLast ? MAX_RETRY_ATTEMPTS : 0);
+        return { value, config, isFallback: index > 0 };
+      } catch (error) {
+        if (signal?.aborted) {
+          throw this.cancelledError(error);
+        }
+
+        if (isLast || !this.shouldFallBack(error)) {
+          throw error;
+        }
+
+        console.warn(
+          `[AI Service] ↪️ ${PROVIDER_NAMES[config.provider]} 失败，改用备用配置:`,
+          PROVIDER_NAMES[chain[index + 1].provider]
+        );
+      }
+    }
+  }
+
+  /**
+   * Whether an error should hand the request over to the next fallback
+   */
+  private static shouldFallBack(error: unknown): boolean {
+    return error instanceof AppError &&
+      (error.isRetryable() || error.type === ErrorType.RATE_LIMITED);
+  }
+
+  /**
+   * Whether a rate limit error can be retried after the limiter's pause
+   * (the next attempt then waits in the queue instead of backing off)
+   */
+  private static canWaitForRateLimit(config: AIConfig, error: unknown): boolean {
+    return error instanceof AppError &&
+      error.type === ErrorType.RATE_LIMITED &&
+      RateLimiter.getPauseTime(config.provider) <= RATE_LIMIT_MAX_WAIT;
+  }
 
-    // Generate reply with retry logic
+  /**
+   * Run an API operation with retry and exponential backoff
+   * @param config - AI configuration (determines the retry delay)
+   * @param operation - Operation to run
+   * @param signal - Stops retrying (and the backoff sleep) when aborted
+   * @param maxRetries - Number of retries after the first attempt
+   * @returns Promise<T> - Result of the first successful attempt
+   */
+  private static async withRetry<T>(
+    config: AIConfig,
+    operation: () => Promise<T>,
+    signal?: AbortSignal,
+    maxRetries = MAX_RETRY_ATTEMPTS
+  ): Promise<T> {
     let lastError: Error | null = null;
 
-    for (let attempt = 0; attempt <= MAX_RETRY_ATTEMPTS; attempt++) {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
         if (attempt > 0) {
           console.log(`[AI Service] 🔄 第 ${attempt} 次重试...`);
         }
 
-        const reply = await this.callAIAPI(config, tweetText, style);
+        this.throwIfAborted(signal);
 
-        console.log('[AI Service] ✅ 回复生成成功:', {
-          length: reply.length,
-          attempts: attempt + 1
-        });
-
-        return reply;
+        return await operation();
       } catch (error) {
+        // Cancellation is not a failure, never retry it
+        if (signal?.aborted) {
+          throw this.cancelledError(error);
+        }
+
         lastError = error as Error;
 
-        console.warn(`[AI Service] ❌ 生成失败 (尝试 ${attempt + 1}/${MAX_RETRY_ATTEMPTS + 1}):`,
+        console.warn(`[AI Service] ❌ 生成失败 (尝试 ${attempt + 1}/${maxRetries + 1}):`,
           error instanceof AppError ? error.getUserMessage() : (error as Error).message
         );
 
+        // Rate limits are retried once the limiter's pause is over
+        const waitsForRateLimit = this.canWaitForRateLimit(config, error);
+
         // Don't retry on certain errors
-        if (error instanceof AppError && !error.isRetryable()) {
+        if (error instanceof AppError && !error.isRetryable() && !waitsForRateLimit) {
           console.error('[AI Service] 错误不可重试:', error.type);
           throw error;
         }
 
         // Wait before retry (exponential backoff)
-        if (attempt < MAX_RETRY_ATTEMPTS) {
-          const delay = Math.pow(2, attempt) * 1000; // 1s, 2s
+        if (attempt < maxRetries && !waitsForRateLimit) {
+          const delay = this.getRetryDelay(config, attempt);
           console.log(`[AI Service] ⏱️ 等待 ${delay}ms 后重试...`);
-          await this.sleep(delay);
+          await this.sleep(delay, signal);
         }
       }
     }
@@ -117,126 +455,631 @@ export class AIService {
     );
   }
 
+  /**
+   * Generate a reply with streaming output
+   * Partial text is reported through onChunk as it arrives; the final
+   * (truncated) reply is returned once the stream finishes.
+   * @param tweet - Tweet text, or the tweet with its conversation context
+   * @param styleId - The reply style to use (preset or custom style ID)
+   * @param onChunk - Called with the accumulated text after each chunk
+   * @param signal - Aborts the stream and any pending retry
+   * @param onWait - Called with the send time while the rate limiter queues the request
+   * @returns Promise<GeneratedReply> - Generated reply with request metadata
+   */
+  static async generateReplyStream(
+    tweet: TweetContext | string,
+    styleId: string,
+    onChunk: (partialText: string) => void,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<GeneratedReply> {
+    const context = this.toTweetContext(tweet);
+    console.log('[AI Service] 开始流式生成回复...', { styleId, tweetLength: context.target.text.length });
+
+    const settings = await this.resolveGenerationSettings(styleId);
+    const chain = [settings.config, ...settings.fallbacks];
+    const startTime = Date.now();
+
+    let lastError: Error | null = null;
+
+    for (let index = 0; index < chain.length; index++) {
+      const config = chain[index];
+      const isLast = index === chain.length - 1;
+      const maxRetries = isLast ? MAX_RETRY_ATTEMPTS : 0;
+      let receivedText = false;
+
+      if (index > 0) {
+        console.warn(
+          `[AI Service] ↪️ ${PROVIDER_NAMES[chain[index - 1].provider]} 失败，改用备用配置:`,
+          PROVIDER_NAMES[config.provider]
+        );
+      }
+
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        try {
+          if (attempt > 0) {
+            console.log(`[AI Service] 🔄 第 ${attempt} 次重试...`);
+          }
+
+          this.throwIfAborted(signal);
+
+          const { reply, usage } = await this.callAIAPIStream({ ...settings, config }, context, (text) => {
+            receivedText = true;
+            onChunk(text);
+          }, signal, onWait);
+          const latency = Date.now() - startTime;
+
+          console.log('[AI Service] ✅ 流式回复生成成功:', {
+            length: reply.length,
+            attempts: attempt + 1,
+            latency,
+          });
+
+          return this.toGeneratedReply(config, reply, latency, usage, index > 0);
+        } catch (error) {
+          if (signal?.aborted) {
+            throw this.cancelledError(error);
+          }
+
+          lastError = error as Error;
+
+          console.warn(`[AI Service] ❌ 流式生成失败 (尝试 ${attempt + 1}/${maxRetries + 1}):`,
+            error instanceof AppError ? error.getUserMessage() : (error as Error).message
+          );
+
+          // 已经展示了部分内容时不再重试或切换配置，避免预览内容来回跳动
+          if (receivedText) {
+            break;
+          }
+
+          const waitsForRateLimit = this.canWaitForRateLimit(config, error);
+
+          if (error instanceof AppError && !error.isRetryable() && !waitsForRateLimit) {
+            // 限流时直接交给下一个备用配置
+            if (!isLast && error.type === ErrorType.RATE_LIMITED) {
+              break;
+            }
+
+            console.error('[AI Service] 错误不可重试:', error.type);
+            throw error;
+          }
+
+          if (attempt < maxRetries && !waitsForRateLimit) {
+            const delay = this.getRetryDelay(config, attempt);
+            console.log(`[AI Service] ⏱️ 等待 ${delay}ms 后重试...`);
+            await this.sleep(delay, signal);
+          }
+        }
+      }
+
+      if (receivedText) {
+        break;
+      }
+    }
+
+    if (lastError instanceof AppError) {
+      throw lastError;
+    }
+
+    throw new AppError(
+      ErrorType.GENERATION_FAILED,
+      'Failed to generate reply after multiple attempts',
+      lastError
+    );
+  }
+
+  /**
+   * Load configuration, the requested style and preferences from storage
+   * Style overrides (profile, model, temperature, max length) take precedence
+   * @param styleOrId - The reply style to use (preset or custom style ID, or a style
+   *   built by the caller, e.g. for draft rewrites)
+   * @returns Promise<GenerationSettings>
+   */
+  private static async resolveGenerationSettings(
+    styleOrId: string | ReplyStyle
+  ): Promise<GenerationSettings> {
+    const style = typeof styleOrId === 'string'
+      ? await this.findStyle(styleOrId)
+      : styleOrId;
+
+    // Use the style's profile if it still exists, otherwise the active config
+    let config: AIConfig | null = null;
+
+    if (style.profileId) {
+      const profile = await StorageService.getProfile(style.profileId);
+
+      if (profile) {
+        config = profile.config;
+        console.log('[AI Service] 使用风格指定的配置档案:', profile.name);
+      } else {
+        console.warn('[AI Service] 风格指定的配置档案不存在，使用当前配置:', style.profileId);
+      }
+    }
+
+    config = config ?? await StorageService.getAIConfig();
+
+    if (!config) {
+      console.error('[AI Service] 未找到 API 配置');
+      throw new AppError(
+        ErrorType.INVALID_CONFIG,
+        'AI configuration not found. Please configure the extension first.'
+      );
+    }
+
+    if (!config.apiToken && PROVIDER_REQUIRES_TOKEN[config.provider] && await TokenVault.isLocked()) {
+      console.warn('[AI Service] API Token 已加密且未解锁');
+      throw new AppError(
+        ErrorType.TOKEN_LOCKED,
+        'API token is encrypted. Unlock it from the extension popup.'
+      );
+    }
+
+    if (style.model) {
+      config = { ...config, model: style.model };
+    }
+
+    const fallbacks = await this.resolveFallbacks(config, style.profileId);
+
+    let preferences = await StorageService.getUserPreferences();
+
+    if (style.temperature !== undefined) {
+      preferences = { ...preferences, temperature: style.temperature };
+    }
+
+    console.log('[AI Service] 使用回复风格:', style.name);
+
+    return {
+      config,
+      fallbacks,
+      style,
+      preferences,
+      maxLength: style.maxLength ?? MAX_REPLY_LENGTH,
+    };
+  }
+
+  /**
+   * Find a preset or custom style by ID
+   * @param styleId - Style ID
+   * @returns Promise<ReplyStyle>
+   */
+  private static async findStyle(styleId: string): Promise<ReplyStyle> {
+    // Get all styles (preset + custom)
+    const allStyles = await StorageService.getAllStyles();
+    const style = allStyles.find((s) => s.id === styleId);
+
+    if (!style) {
+      console.error('[AI Service] 无效的回复风格:', styleId);
+      throw new AppError(
+        ErrorType.INVALID_CONFIG,
+        `Invalid style ID: ${styleId}`
+      );
+    }
+
+    return style;
+  }
+
+  /**
+   * Load the fallback chain from storage
+   * Skips the style's own profile and configs identical to the primary one
+   * @param primary - Configuration tried first
+   * @param primaryProfileId - Profile the primary configuration came from
+   * @returns Promise<AIConfig[]> - Fallback configs in order
+   */
+  private static async resolveFallbacks(
+    primary: AIConfig,
+    primaryProfileId?: string
+  ): Promise<AIConfig[]> {
+    const [fallbackIds, profiles] = await Promise.all([
+      StorageService.getFallbackProfileIds(),
+      StorageService.getProfiles(),
+    ]);
+
+    const isSameConfig = (a: AIConfig, b: AIConfig) =>
+      a.provider === b.provider &&
+      a.apiUrl === b.apiUrl &&
+      a.apiToken === b.apiToken &&
+      a.model === b.model;
+
+    const fallbacks: AIConfig[] = [];
+
+    for (const id of fallbackIds) {
+      const profile = profiles.find((p) => p.id === id);
+
+      if (
+        profile &&
+        profile.id !== primaryProfileId &&
+        !isSameConfig(profile.config, primary) &&
+        !fallbacks.some((config) => isSameConfig(config, profile.config))
+      ) {
+        fallbacks.push(profile.config);
+      }
+    }
+
+    if (fallbacks.length > 0) {
+      console.log('[AI Service] 备用配置数量:', fallbacks.length);
+    }
+
+    return fallbacks;
+  }
+
   /**
    * Call AI API to generate reply
-   * @param config - AI configuration
-   * @param tweetText - Tweet text to reply to
-   * @param style - Reply style configuration
-   * @returns Promise<string> - Generated reply
+   * @param settings - Configuration, style and preferences
+   * @param context - Tweet to reply to and its conversation
+   * @param n - Number of choices to request (only sent when > 1)
+   * @param signal - Aborts the request (also while queued by the rate limiter)
+   * @param onWait - Called with the send time while the rate limiter queues the request
+   * @returns Promise<APICallResult> - Generated replies, one per returned choice
    */
   private static async callAIAPI(
-    config: AIConfig,
-    tweetText: string,
-    style: ReplyStyle
-  ): Promise<string> {
-    // Build the request
-    const request: ChatCompletionRequest = {
-      model: config.model,
+    settings: GenerationSettings,
+    context: TweetContext,
+    n = 1,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<APICallResult> {
+    const { config } = settings;
+    const adapter = getProviderAdapter(config.provider);
+    const { url, headers, body } = adapter.buildRequest(config, {
+      ...this.buildGenerationParams(context, settings),
+      n,
+    });
+
+    await RateLimiter.acquire(config.provider, signal, onWait);
+
+    try {
+      // Make API call
+      const response = await axios.post(url, body, {
+        headers,
+        timeout: this.getRequestTimeout(config),
+        signal,
+      });
+
+      RateLimiter.recordResponse(config.provider, this.normalizeHeaders(response.headers), false);
+
+      // Extract replies from response and truncate if needed
+      return {
+        replies: adapter.extractReplies(response.data).map((reply) =>
+          this.truncateReply(reply, settings.maxLength)
+        ),
+        usage: adapter.extractUsage(response.data),
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw this.cancelledError(error);
+      }
+
+      if (axios.isAxiosError(error) && error.response) {
+        RateLimiter.recordResponse(
+          config.provider,
+          this.normalizeHeaders(error.response.headers),
+          error.response.status === 429
+        );
+      }
+
+      throw this.handleAPIError(error, adapter, this.getRequestTimeout(config));
+    }
+  }
+
+  /**
+   * Call AI API with streaming enabled and parse SSE chunks
+   * @param settings - Configuration, style and preferences
+   * @param context - Tweet to reply to and its conversation
+   * @param onChunk - Called with the accumulated text after each chunk
+   * @param signal - Aborts the stream (also while queued by the rate limiter)
+   * @param onWait - Called with the send time while the rate limiter queues the request
+   * @returns Promise<{reply, usage}> - Generated reply and reported token usage
+   */
+  private static async callAIAPIStream(
+    settings: GenerationSettings,
+    context: TweetContext,
+    onChunk: (partialText: string) => void,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<{ reply: string; usage?: TokenUsage }> {
+    const { config } = settings;
+    const adapter = getProviderAdapter(config.provider);
+    const { url, headers, body } = adapter.buildRequest(config, {
+      ...this.buildGenerationParams(context, settings),
+      stream: true,
+    });
+
+    await RateLimiter.acquire(config.provider, signal, onWait);
+
+    // 超过超时时间没有收到任何数据时中止请求（本地模型首次加载较慢）
+    const timeout = this.getRequestTimeout(config);
+    const controller = new AbortController();
+    let timedOut = false;
+    let idleTimer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout);
+    };
+
+    // 调用方取消时同样中止请求（取消错误由调用方根据 signal 判断）
+    const abortOnCancel = () => controller.abort();
+    signal?.addEventListener('abort', abortOnCancel);
+
+    try {
+      let response: Response;
+
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        throw this.handleFetchError(error, timedOut, timeout);
+      }
+
+      const responseHeaders = Object.fromEntries(response.headers.entries());
+      RateLimiter.recordResponse(config.provider, responseHeaders, response.status === 429);
+
+      if (!response.ok) {
+        const data = await response.text().then(
+          (text) => {
+            try {
+              return JSON.parse(text);
+            } catch {
+              return text;
+            }
+          },
+          () => null
+        );
+        throw adapter.mapError(
+          response.status,
+          data,
+          responseHeaders,
+          { status: response.status, data }
+        );
+      }
+
+      if (!response.body) {
+        throw new AppError(
+          ErrorType.INVALID_RESPONSE,
+          'Streaming response has no body'
+        );
+      }
+
+      let text = '';
+      let usage: Partial<TokenUsage> = {};
+
+      try {
+        for await (const data of SSEParser.readData(response.body)) {
+          resetIdleTimer();
+
+          const event = adapter.parseStreamEvent(data);
+
+          if (event.delta) {
+            text += event.delta;
+            onChunk(text);
+          }
+
+          if (event.usage) {
+            usage = { ...usage, ...event.usage };
+          }
+
+          if (event.done) break;
+        }
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        throw this.handleFetchError(error, timedOut, timeout);
+      }
+
+      const reply = text.trim();
+
+      if (!reply) {
+        throw new AppError(
+          ErrorType.INVALID_RESPONSE,
+          'No content in streaming API response'
+        );
+      }
+
+      return {
+        reply: this.truncateReply(reply, settings.maxLength),
+        usage: this.completeUsage(usage),
+      };
+    } finally {
+      clearTimeout(idleTimer);
+      signal?.removeEventListener('abort', abortOnCancel);
+    }
+  }
+
+  /**
+   * Build provider-independent generation parameters for a reply
+   * @param context - Tweet to reply to and its conversation
+   * @param settings - Style, preferences and length limit to apply
+   * @returns GenerationParams
+   */
+  private static buildGenerationParams(
+    context: TweetContext,
+    { style, preferences, maxLength, draft }: GenerationSettings
+  ): GenerationParams {
+    return {
       messages: [
         {
           role: 'system',
-          content: this.buildSystemPrompt(style),
+          content: draft === undefined
+            ? this.buildSystemPrompt(style, preferences, maxLength)
+            : this.buildRewriteSystemPrompt(style, preferences, maxLength),
         },
         {
           role: 'user',
-          content: this.buildUserPrompt(tweetText),
+          content: draft === undefined
+            ? this.buildUserPrompt(context, maxLength)
+            : this.buildRewriteUserPrompt(context, draft, maxLength),
         },
       ],
-      max_tokens: 200,
-      temperature: 0.7,
+      maxTokens: preferences.maxTokens,
+      temperature: preferences.temperature,
+      // top_p = 1 is the providers' default, so only send it when narrowed
+      ...(preferences.topP < 1 ? { topP: preferences.topP } : {}),
     };
-
-    try {
-      // Make API call
-      const response = await axios.post<ChatCompletionResponse>(
-        config.apiUrl,
-        request,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${config.apiToken}`,
-          },
-          timeout: API_TIMEOUT,
-        }
-      );
-
-      // Extract reply from response
-      const reply = this.extractReply(response.data);
-
-      // Truncate if needed
-      return this.truncateReply(reply);
-    } catch (error) {
-      throw this.handleAPIError(error);
-    }
   }
 
   /**
    * Build system prompt with style guidance
    * @param style - Reply style
+   * @param preferences - User preferences (output language)
+   * @param maxLength - Maximum reply length in weighted characters
    * @returns string - System prompt
    */
-  private static buildSystemPrompt(style: ReplyStyle): string {
+  private static buildSystemPrompt(
+    style: ReplyStyle,
+    preferences: UserPreferences,
+    maxLength: number
+  ): string {
+    const languageRule = preferences.outputLanguage === 'auto'
+      ? '使用中文回复（除非原推文是英文）'
+      : `使用${OUTPUT_LANGUAGE_NAMES[preferences.outputLanguage]}回复`;
+
     return `${style.systemPrompt}
 
 重要要求：
-1. 回复必须简短，最多 ${MAX_REPLY_LENGTH} 个字符
-2. 使用中文回复（除非原推文是英文）
+1. 回复必须简短，按 Twitter 计数规则不超过 ${maxLength} 个字符（${LENGTH_RULE_HINT}）
+2. ${languageRule}
 3. 回复要自然、贴合上下文
 4. 不要使用 hashtag 或 @mention
 5. 避免过度正式或生硬`;
   }
 
   /**
-   * Build user prompt with tweet content
-   * @param tweetText - Tweet text
+   * Build user prompt with the tweet and its conversation history
+   * @param context - Tweet to reply to, parent tweets and quoted tweet
+   * @param maxLength - Maximum reply length in weighted characters
    * @returns string - User prompt
    */
-  private static buildUserPrompt(tweetText: string): string {
-    return `请为以下推文生成一条回复：
+  private static buildUserPrompt(context: TweetContext, maxLength: number): string {
+    const sections = this.buildContextSections(context);
+
+    const intro = context.parents.length > 0
+      ? '请结合对话历史，为要回复的推文生成一条回复：'
+      : '请为以下推文生成一条回复：';
 
-推文内容：
-${tweetText}
+    return `${intro}
 
-要求：简短（最多 ${MAX_REPLY_LENGTH} 字符）、自然、贴合语境。`;
+${sections.join('\n\n')}
+
+要求：简短（按 Twitter 计数规则最多 ${maxLength} 字符，约 ${Math.floor(maxLength / 2)} 个汉字）、自然、贴合语境。`;
   }
 
   /**
-   * Extract reply text from API response
-   * @param response - API response
-   * @returns string - Reply text
+   * Build system prompt for rewriting a reply draft
+   * @param style - Rewrite style (its prompt is the operation's instruction)
+   * @param preferences - User preferences (target language for translations)
+   * @param maxLength - Maximum reply length in weighted characters
+   * @returns string - System prompt
    */
-  private static extractReply(response: ChatCompletionResponse): string {
-    if (!response.choices || response.choices.length === 0) {
-      throw new AppError(
-        ErrorType.INVALID_RESPONSE,
-        'No choices in API response'
-      );
+  private static buildRewriteSystemPrompt(
+    style: ReplyStyle,
+    preferences: UserPreferences,
+    maxLength: number
+  ): string {
+    const language = preferences.outputLanguage === 'auto'
+      ? '原推文使用的语言'
+      : OUTPUT_LANGUAGE_NAMES[preferences.outputLanguage];
+    const instruction = style.systemPrompt.replace('{language}', language);
+
+    return `你是一个帮用户修改推文回复草稿的编辑。${instruction}
+
+重要要求：
+1. 只输出修改后的回复，不要解释，也不要加引号
+2. 按 Twitter 计数规则不超过 ${maxLength} 个字符（${LENGTH_RULE_HINT}）
+3. 除非要求翻译，否则使用草稿的语言
+4. 保留草稿的观点，不要编造草稿中没有的事实
+5. 不要添加 hashtag 或 @mention`;
+  }
+
+  /**
+   * Build user prompt with the tweet, its conversation and the draft to rewrite
+   * @param context - Tweet being replied to, parent tweets and quoted tweet
+   * @param draft - Reply draft typed by the user
+   * @param maxLength - Maximum reply length in weighted characters
+   * @returns string - User prompt
+   */
+  private static buildRewriteUserPrompt(context: TweetContext, draft: string, maxLength: number): string {
+    const sections = this.buildContextSections(context);
+    sections.push(`我的回复草稿：\n${draft}`);
+
+    return `请按要求修改我对这条推文的回复草稿：
+
+${sections.join('\n\n')}
+
+要求：按 Twitter 计数规则最多 ${maxLength} 字符，只输出修改后的回复。`;
+  }
+
+  /**
+   * Format the conversation history, the target tweet and the quoted tweet
+   * @param context - Tweet being replied to, parent tweets and quoted tweet
+   * @returns string[] - Prompt sections
+   */
+  private static buildContextSections(context: TweetContext): string[] {
+    const sections: string[] = [];
+
+    if (context.parents.length > 0) {
+      const history = context.parents
+        .map((tweet, index) => `[${index + 1}] ${this.formatTweet(tweet)}`)
+        .join('\n\n');
+
+      sections.push(`对话历史（从早到晚）：\n${history}`);
     }
 
-    const message = response.choices[0].message;
+    sections.push(`要回复的推文：\n${this.formatTweet(context.target)}`);
 
-    if (!message || !message.content) {
-      throw new AppError(
-        ErrorType.INVALID_RESPONSE,
-        'No content in API response'
-      );
+    if (context.quoted) {
+      sections.push(`该推文引用了以下推文：\n${this.formatTweet(context.quoted)}`);
     }
 
-    return message.content.trim();
+    return sections;
+  }
+
+  /**
+   * Format a tweet as "Name (@handle)：text" for the prompt
+   * @param tweet - Tweet snapshot
+   * @returns string - Formatted tweet
+   */
+  private static formatTweet(tweet: TweetSnapshot): string {
+    const handle = tweet.authorHandle ? `@${tweet.authorHandle}` : '';
+    const author = tweet.authorName && handle
+      ? `${tweet.authorName} (${handle})`
+      : tweet.authorName || handle;
+    const text = tweet.text || '（仅包含图片或视频）';
+
+    return author ? `${author}：${text}` : text;
+  }
+
+  /**
+   * Wrap plain tweet text in a context without conversation history
+   * @param tweet - Tweet text or context
+   * @returns TweetContext
+   */
+  private static toTweetContext(tweet: TweetContext | string): TweetContext {
+    return typeof tweet === 'string'
+      ? { target: { text: tweet }, parents: [] }
+      : tweet;
   }
 
   /**
    * Truncate reply to maximum length
    * @param reply - Reply text
+   * @param maxLength - Maximum length in weighted characters
    * @returns string - Truncated reply
    */
-  private static truncateReply(reply: string): string {
-    if (reply.length <= MAX_REPLY_LENGTH) {
+  private static truncateReply(reply: string, maxLength: number): string {
+    if (TweetLength.isWithinLimit(reply, maxLength)) {
       return reply;
     }
 
-    // Truncate at sentence boundary if possible
-    const truncated = reply.substring(0, MAX_REPLY_LENGTH - 3);
+    // Truncate at sentence boundary if possible (leave room for "...")
+    const truncated = TweetLength.truncate(reply, maxLength - 3);
     const lastPeriod = truncated.lastIndexOf('。');
     const lastExclamation = truncated.lastIndexOf('！');
     const lastQuestion = truncated.lastIndexOf('？');
@@ -247,9 +1090,13 @@ ${tweetText}
       lastQuestion
     );
 
-    if (lastPunctuation > MAX_REPLY_LENGTH * 0.7) {
-      // If punctuation is in the last 30%, use it
-      return truncated.substring(0, lastPunctuation + 1);
+    if (lastPunctuation !== -1) {
+      const sentence = truncated.substring(0, lastPunctuation + 1);
+
+      if (TweetLength.getWeightedLength(sentence) > maxLength * 0.7) {
+        // If punctuation is in the last 30%, use it
+        return sentence;
+      }
     }
 
     // Otherwise just truncate with ellipsis
@@ -259,9 +1106,20 @@ ${tweetText}
   /**
    * Handle API errors and convert to AppError
    * @param error - Error from API call
+   * @param adapter - Adapter of the provider that was called
+   * @param timeout - Request timeout that was used (milliseconds)
    * @returns AppError
    */
-  private static handleAPIError(error: unknown): AppError {
+  private static handleAPIError(
+    error: unknown,
+    adapter: ProviderAdapter,
+    timeout: number
+  ): AppError {
+    // Errors raised by the adapter itself are already typed
+    if (error instanceof AppError) {
+      return error;
+    }
+
     console.error('[AI Service] API 错误:', error);
 
     if (axios.isAxiosError(error)) {
@@ -269,11 +1127,13 @@ ${tweetText}
 
       // Network error
       if (!axiosError.response) {
-        if (axiosError.code === 'ECONNABORTED') {
+        // The fetch adapter (used in the service worker) reports timeouts as ETIMEDOUT,
+        // the XHR adapter as ECONNABORTED
+        if (axiosError.code === 'ETIMEDOUT' || axiosError.code === 'ECONNABORTED') {
           console.error('[AI Service] 请求超时');
           return new AppError(
             ErrorType.API_TIMEOUT,
-            `API request timed out after ${API_TIMEOUT / 1000}s. Please try again.`,
+            `API request timed out after ${timeout / 1000}s. Please try again.`,
             error
           );
         }
@@ -299,76 +1159,12 @@ ${tweetText}
       const status = axiosError.response.status;
       const data = axiosError.response.data;
 
-      console.error(`[AI Service] HTTP ${status} 错误:`, data);
-
-      switch (status) {
-        case 401:
-          return new AppError(
-            ErrorType.INVALID_CONFIG,
-            'Invalid API token. Please check your API configuration.',
-            { error, data }
-          );
-
-        case 403:
-          return new AppError(
-            ErrorType.INVALID_CONFIG,
-            'Access forbidden. Please verify your API token has the necessary permissions.',
-            { error, data }
-          );
-
-        case 429:
-          // Extract rate limit info if available
-          const retryAfter = axiosError.response.headers['retry-after'];
-          const rateLimitMessage = retryAfter
-            ? `Rate limit exceeded. Please retry after ${retryAfter} seconds.`
-            : 'Rate limit exceeded. Please wait a few minutes and try again.';
-
-          return new AppError(
-            ErrorType.RATE_LIMITED,
-            rateLimitMessage,
-            { error, data, retryAfter }
-          );
-
-        case 400:
-          // Try to extract more specific error message
-          let badRequestMessage = 'Invalid request. Please check your model configuration.';
-          if (data && typeof data === 'object' && 'error' in data) {
-            const errorData = data as any;
-            if (errorData.error?.message) {
-              badRequestMessage = `Invalid request: ${errorData.error.message}`;
-            }
-          }
-
-          return new AppError(
-            ErrorType.INVALID_RESPONSE,
-            badRequestMessage,
-            { error, data }
-          );
-
-        case 404:
-          return new AppError(
-            ErrorType.INVALID_CONFIG,
-            'API endpoint not found. Please check your API URL configuration.',
-            { error, data }
-          );
-
-        case 500:
-        case 502:
-        case 503:
-        case 504:
-          return new AppError(
-            ErrorType.API_REQUEST_FAILED,
-            `API server error (${status}). The service may be temporarily unavailable. Please try again later.`,
-            { error, data }
-          );
-
-        default:
-          return new AppError(
-            ErrorType.API_REQUEST_FAILED,
-            `API request failed with status ${status}. Please check your configuration.`,
-            { error, data }
-          );
-      }
+      return adapter.mapError(
+        status,
+        data,
+        this.normalizeHeaders(axiosError.response.headers),
+        error
+      );
     }
 
     // Unknown error
@@ -389,12 +1185,139 @@ ${tweetText}
     );
   }
 
+  /**
+   * Convert fetch/stream failures (no HTTP response) to AppError
+   * @param error - Error thrown by fetch or the stream reader
+   * @param timedOut - Whether the request was aborted by the idle timer
+   * @param timeout - Idle timeout that was used (milliseconds)
+   * @returns AppError
+   */
+  private static handleFetchError(
+    error: unknown,
+    timedOut: boolean,
+    timeout: number
+  ): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+
+    if (timedOut) {
+      console.error('[AI Service] 流式请求超时');
+      return new AppError(
+        ErrorType.API_TIMEOUT,
+        `API request timed out after ${timeout / 1000}s. Please try again.`,
+        error
+      );
+    }
+
+    console.error('[AI Service] 流式请求网络错误:', error);
+    return new AppError(
+      ErrorType.NETWORK_ERROR,
+      'Unable to connect to API server. Please check your network.',
+      error
+    );
+  }
+
+  /**
+   * Convert axios response headers to a plain lowercase-keyed record
+   * @param headers - Axios response headers
+   * @returns Record<string, string>
+   */
+  private static normalizeHeaders(headers: unknown): Record<string, string> {
+    const result: Record<string, string> = {};
+
+    if (headers && typeof headers === 'object') {
+      for (const [key, value] of Object.entries(headers)) {
+        if (value !== undefined && value !== null) {
+          result[key.toLowerCase()] = String(value);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Turn usage merged from stream events into TokenUsage
+   * @param usage - Usage fields collected from the stream
+   * @returns TokenUsage, or undefined when nothing was reported
+   */
+  private static completeUsage(usage: Partial<TokenUsage>): TokenUsage | undefined {
+    if (usage.promptTokens === undefined && usage.completionTokens === undefined) {
+      return undefined;
+    }
+
+    const promptTokens = usage.promptTokens ?? 0;
+    const completionTokens = usage.completionTokens ?? 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: usage.totalTokens ?? promptTokens + completionTokens,
+    };
+  }
+
+  /**
+   * Request timeout for a configuration
+   * Local models may need to load into memory before the first token
+   * @param config - AI configuration
+   * @returns Timeout in milliseconds
+   */
+  private static getRequestTimeout(config: AIConfig): number {
+    return config.provider === 'local' ? LOCAL_API_TIMEOUT : API_TIMEOUT;
+  }
+
+  /**
+   * Exponential backoff delay before the next retry
+   * @param config - AI configuration
+   * @param attempt - Zero-based attempt that just failed
+   * @returns Delay in milliseconds
+   */
+  private static getRetryDelay(config: AIConfig, attempt: number): number {
+    // llama.cpp answers 503 while the model is still loading
+    const baseDelay = config.provider === 'local' ? LOCAL_RETRY_DELAY : 1000;
+    return Math.pow(2, attempt) * baseDelay; // 1s, 2s (local: 5s, 10s)
+  }
+
   /**
    * Sleep utility for retry delays
    * @param ms - Milliseconds to sleep
+   * @param signal - Rejects with a cancellation error when aborted
    */
-  private static sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.cancelledError());
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.cancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Throw a cancellation error if the signal has been aborted
+   */
+  private static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw this.cancelledError();
+    }
+  }
+
+  /**
+   * Error for a generation cancelled by the caller
+   */
+  private static cancelledError(cause?: unknown): AppError {
+    return new AppError(ErrorType.CANCELLED, 'Generation cancelled', cause);
   }
 
   /**
@@ -408,48 +1331,85 @@ ${tweetText}
   ): Promise<{ success: boolean; error?: string; latency?: number }> {
     const startTime = Date.now();
 
-    const testRequest: ChatCompletionRequest = {
-      model: config.model,
+    const adapter = getProviderAdapter(config.provider);
+    const { url, headers, body } = adapter.buildRequest(config, {
       messages: [
         {
           role: 'user',
           content: 'Say "OK" if you can read this.',
         },
       ],
-      max_tokens: 10,
+      maxTokens: 10,
       temperature: 0.5,
-    };
+    });
+
+    // 10s timeout for test; local models get time to load
+    const timeout = config.provider === 'local' ? LOCAL_API_TIMEOUT : 10000;
 
     try {
-      const response = await axios.post<ChatCompletionResponse>(
-        config.apiUrl,
-        testRequest,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${config.apiToken}`,
-          },
-          timeout: 10000, // 10s timeout for test
-        }
-      );
+      const response = await axios.post(url, body, {
+        headers,
+        timeout,
+      });
 
       const latency = Date.now() - startTime;
 
       // Check if we got a valid response
-      if (response.data.choices && response.data.choices.length > 0) {
-        return { success: true, latency };
+      try {
+        adapter.extractReplies(response.data);
+      } catch {
+        return {
+          success: false,
+          error: 'Invalid response from API',
+        };
       }
 
-      return {
-        success: false,
-        error: 'Invalid response from API',
-      };
+      return { success: true, latency };
     } catch (error) {
-      const appError = this.handleAPIError(error);
+      const appError = this.handleAPIError(error, adapter, timeout);
       return {
         success: false,
         error: appError.message,
       };
     }
   }
+
+  /**
+   * List models available to a configuration
+   * Only supported by providers with a model-list endpoint (local servers)
+   * @param config - AI configuration
+   * @returns Promise<string[]> - Model ids
+   */
+  static async listModels(config: AIConfig): Promise<string[]> {
+    const adapter = getProviderAdapter(config.provider);
+
+    if (!adapter.getModelListUrls || !adapter.extractModelIds) {
+      throw new AppError(
+        ErrorType.INVALID_CONFIG,
+        `Model listing is not supported for provider: ${config.provider}`
+      );
+    }
+
+    const headers: Record<string, string> = config.apiToken.trim()
+      ? { Authorization: `Bearer ${config.apiToken}` }
+      : {};
+
+    let lastError: unknown = null;
+
+    // Try each endpoint in order; the first one that answers wins
+    for (const url of adapter.getModelListUrls(config)) {
+      try {
+        const response = await axios.get(url, { headers, timeout: 10000 });
+        const models = adapter.extractModelIds(response.data);
+
+        console.log('[AI Service] 获取模型列表成功:', { url, count: models.length });
+        return models;
+      } catch (error) {
+        console.warn('[AI Service] 获取模型列表失败:', url, error);
+        lastError = error;
+      }
+    }
+
+    throw this.handleAPIError(lastError, adapter, 10000);
+  }
 }
@@ -0,0 +1,356 @@
+/**
+ * Background Client
+ *
+ * Sends generation requests to the background service worker, which owns
+ * the API configuration and makes all provider calls. Mirrors the public
+ * AIService API for the content script and popup.
+ */
+
+import type {
+  AIConfig,
+  BackgroundRequest,
+  BackgroundResponse,
+  BackgroundResponseData,
+  GeneratedReply,
+  GenerateWaitingMessage,
+  RewriteOperation,
+  StreamGenerateRequest,
+  StreamPortMessage,
+  TweetContext,
+} from '../types';
+import {
+  StorageKey,
+  STREAM_PORT_NAME,
+  ErrorType,
+  AppError,
+  ErrorHelper,
+} from '../types';
+
+/**
+ * Background client class
+ * Wraps chrome.runtime messaging with typed requests and AppError results
+ */
+export class BackgroundClient {
+  /**
+   * Generate a reply for a tweet
+   * @param tweet - Tweet text, or the tweet with its conversation context
+   * @param styleId - The reply style to use (preset or custom style ID)
+   * @param signal - Cancels the request in the service worker
+   * @param onWait - Called with the send time while the rate limiter queues the request
+   * @returns Promise<GeneratedReply>
+   */
+  static async generateReply(
+    tweet: TweetContext | string,
+    styleId: string,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<GeneratedReply> {
+    const [reply] = await this.generateReplies(tweet, styleId, 1, signal, onWait);
+    return reply;
+  }
+
+  /**
+   * Generate several reply candidates for a tweet
+   * @param tweet - Tweet text, or the tweet with its conversation context
+   * @param styleId - The reply style to use (preset or custom style ID)
+   * @param count - Number of candidates (defaults to the preference)
+   * @param signal - Cancels the request in the service worker
+   * @param onWait - Called with the send time while the rate limiter queues a request
+   * @returns Promise<GeneratedReply[]>
+   */
+  static generateReplies(
+    tweet: TweetContext | string,
+    styleId: string,
+    count?: number,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<GeneratedReply[]> {
+    const requestId = this.createRequestId();
+    return this.sendCancellable(
+      { type: 'generate', requestId, tweet, styleId, count },
+      signal,
+      onWait
+    );
+  }
+
+  /**
+   * Rewrite a reply draft typed by the user
+   * @param tweet - Tweet text, or the tweet with its conversation context
+   * @param draft - Reply draft to rewrite
+   * @param operation - Rewrite to apply (shorten, translate, ...)
+   * @param signal - Cancels the request in the service worker
+   * @param onWait - Called with the send time while the rate limiter queues the request
+   * @returns Promise<GeneratedReply> - Rewritten draft
+   */
+  static rewriteDraft(
+    tweet: TweetContext | string,
+    draft: string,
+    operation: RewriteOperation,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<GeneratedReply> {
+    const requestId = this.createRequestId();
+    return this.sendCancellable(
+      { type: 'rewrite', requestId, tweet, draft, operation },
+      signal,
+      onWait
+    );
+  }
+
+  /**
+   * Generate a reply with streaming output over a port
+   * @param tweet - Tweet text, or the tweet with its conversation context
+   * @param styleId - The reply style to use (preset or custom style ID)
+   * @param onChunk - Called with the accumulated text after each chunk
+   * @param signal - Cancels the stream (disconnects the port)
+   * @param onWait - Called with the send time while the rate limiter queues the request
+   * @returns Promise<GeneratedReply>
+   */
+  static generateReplyStream(
+    tweet: TweetContext | string,
+    styleId: string,
+    onChunk: (partialText: string) => void,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<GeneratedReply> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.cancelledError());
+        return;
+      }
+
+      let port: chrome.runtime.Port;
+
+      try {
+        port = chrome.runtime.connect({ name: STREAM_PORT_NAME });
+      } catch (error) {
+        reject(this.unavailableError(error));
+        return;
+      }
+
+      let settled = false;
+      const onAbort = () => settle(() => reject(this.cancelledError()));
+      const settle = (finish: () => void) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        port.disconnect();
+        finish();
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      port.onMessage.addListener((message: StreamPortMessage) => {
+        switch (message.type) {
+          case 'chunk':
+            if (!settled) onChunk(message.text);
+            break;
+          case 'waiting':
+            if (!settled) onWait?.(message.until);
+            break;
+          case 'done':
+            settle(() => resolve(message.reply));
+            break;
+          case 'error':
+            settle(() => reject(ErrorHelper.deserialize(message.error)));
+            break;
+        }
+      });
+
+      port.onDisconnect.addListener(() => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        reject(this.unavailableError(chrome.runtime.lastError));
+      });
+
+      const request: StreamGenerateRequest = { type: 'generate', tweet, styleId };
+      port.postMessage(request);
+    });
+  }
+
+  /**
+   * Cancel an in-flight generate request
+   * @param requestId - ID of the request to cancel
+   * @returns Promise<boolean> - True if the request was still running
+   */
+  static async cancel(requestId: string): Promise<boolean> {
+    const { cancelled } = await this.send({ type: 'cancel', requestId });
+    return cancelled;
+  }
+
+  /**
+   * Test an AI configuration (not necessarily the saved one)
+   * @param config - Configuration to test
+   */
+  static testConfig(config: AIConfig): Promise<BackgroundResponseData['test-config']> {
+    return this.send({ type: 'test-config', config });
+  }
+
+  /**
+   * List the models available for a configuration
+   * @param config - Configuration to query
+   * @returns Promise<string[]> - Model IDs
+   */
+  static listModels(config: AIConfig): Promise<string[]> {
+    return this.send({ type: 'list-models', config });
+  }
+
+  /**
+   * Check whether an AI configuration is saved, without reading it
+   * @returns Promise<boolean>
+   */
+  static async hasAIConfig(): Promise<boolean> {
+    const { configured } = await this.send({ type: 'config-status' });
+    return configured;
+  }
+
+  /**
+   * List saved profiles without their API tokens
+   * @returns Promise - Profile summaries and the active profile ID
+   */
+  static listProfiles(): Promise<BackgroundResponseData['list-profiles']> {
+    return this.send({ type: 'list-profiles' });
+  }
+
+  /**
+   * Switch the active profile
+   * @param profileId - Profile to activate
+   */
+  static async setActiveProfile(profileId: string): Promise<void> {
+    await this.send({ type: 'set-active-profile', profileId });
+  }
+
+  /**
+   * Listen for the active configuration being switched, saved or cleared
+   * @param callback - Called with whether a configuration is now active
+   * @returns Unsubscribe function
+   */
+  static onConfigStatusChange(callback: (configured: boolean) => void): () => void {
+    const listener = (
+      changes: { [key: string]: chrome.storage.StorageChange },
+      areaName: string
+    ) => {
+      if (
+        areaName !== 'sync' ||
+        !(StorageKey.AI_PROFILES in changes || StorageKey.ACTIVE_PROFILE_ID in changes)
+      ) {
+        return;
+      }
+
+      this.hasAIConfig().then(callback).catch((error) => {
+        console.error('Failed to check config status:', error);
+      });
+    };
+
+    chrome.storage.onChanged.addListener(listener);
+
+    return () => {
+      chrome.storage.onChanged.removeListener(listener);
+    };
+  }
+
+  /**
+   * Send a request that can be cancelled and queued by the rate limiter
+   * @param request - Request with a caller-chosen ID
+   * @param signal - Cancels the request in the service worker
+   * @param onWait - Called with the send time while the rate limiter queues a request
+   * @returns Promise - Response data; rejects with a cancelled error right away on abort
+   */
+  private static sendCancellable<T extends Extract<BackgroundRequest, { type: 'generate' | 'rewrite' }>>(
+    request: T,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<BackgroundResponseData[T['type']]> {
+    const { requestId } = request;
+    let response = this.send(request);
+
+    if (onWait) {
+      const listener = (message: GenerateWaitingMessage) => {
+        if (message?.type === 'generate-waiting' && message.requestId === requestId) {
+          onWait(message.until);
+        }
+      };
+
+      chrome.runtime.onMessage.addListener(listener);
+      response = response.finally(() => chrome.runtime.onMessage.removeListener(listener));
+    }
+
+    if (!signal) {
+      return response;
+    }
+
+    // Settle right away on abort; the worker's late response is ignored
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.cancel(requestId).catch((error) => {
+          console.warn('Failed to cancel request:', error);
+        });
+        reject(this.cancelledError());
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      response
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Send a request to the service worker and unwrap the response
+   * @param request - Typed request
+   * @returns Promise - Response data; failures are rethrown as AppError
+   */
+  private static async send<T extends BackgroundRequest>(
+    request: T
+  ): Promise<BackgroundResponseData[T['type']]> {
+    let response: BackgroundResponse<BackgroundResponseData[T['type']]> | undefined;
+
+    try {
+      response = await chrome.runtime.sendMessage(request);
+    } catch (error) {
+      throw this.unavailableError(error);
+    }
+
+    if (!response) {
+      throw this.unavailableError();
+    }
+
+    if (!response.ok) {
+      throw ErrorHelper.deserialize(response.error);
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Error for a service worker that can't be reached
+   * (e.g. the extension was reloaded and the page still runs the old script)
+   */
+  private static unavailableError(cause?: unknown): AppError {
+    return new AppError(
+      ErrorType.GENERATION_FAILED,
+      'Background service worker unavailable. Please refresh the page.',
+      cause
+    );
+  }
+
+  /**
+   * Error for a request cancelled by the caller
+   */
+  private static cancelledError(): AppError {
+    return new AppError(ErrorType.CANCELLED, 'Generation cancelled');
+  }
+
+  /**
+   * Create a unique request ID
+   */
+  private static createRequestId(): string {
+    return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * History Service
+ *
+ * Persists generated replies in chrome.storage.local so they survive the
+ * reply dialog closing. The history is capped by entry count and by
+ * serialized size; the oldest entries are evicted first.
+ */
+
+import type { ReplyHistoryEntry } from '../types';
+import {
+  StorageKey,
+  ErrorType,
+  AppError,
+  MAX_HISTORY_ENTRIES,
+  MAX_HISTORY_BYTES,
+} from '../types';
+
+/**
+ * History entry data supplied by callers (id and timestamp are generated)
+ */
+export type NewReplyHistoryEntry = Omit<ReplyHistoryEntry, 'id' | 'createdAt'>;
+
+/**
+ * History service class
+ * Wraps chrome.storage.local for the reply history
+ */
+export class HistoryService {
+  /**
+   * Pending write, so read-modify-write cycles in this context don't interleave
+   */
+  private static writeQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Get the reply history
+   * @returns Promise<ReplyHistoryEntry[]> - Entries, newest first
+   */
+  static async getHistory(): Promise<ReplyHistoryEntry[]> {
+    try {
+      const result = await chrome.storage.local.get(StorageKey.REPLY_HISTORY);
+      const entries = result[StorageKey.REPLY_HISTORY];
+
+      if (!entries || !Array.isArray(entries)) {
+        return [];
+      }
+
+      return entries
+        .filter((entry) => this.isValidEntry(entry))
+        .sort((a, b) => b.createdAt - a.createdAt);
+    } catch (error) {
+      console.error('Failed to get reply history:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to retrieve reply history',
+        error
+      );
+    }
+  }
+
+  /**
+   * Record generated replies
+   * @param entries - Entry data (without id and createdAt)
+   * @returns Promise<ReplyHistoryEntry[]> - The saved entries with generated ids
+   */
+  static async addEntries(entries: NewReplyHistoryEntry[]): Promise<ReplyHistoryEntry[]> {
+    const now = Date.now();
+    const newEntries: ReplyHistoryEntry[] = entries.map((entry) => ({
+      ...entry,
+      id: `history_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: now,
+    }));
+
+    await this.update((history) => [...newEntries, ...history]);
+
+    return newEntries;
+  }
+
+  /**
+   * Record a single generated reply
+   * @param entry - Entry data (without id and createdAt)
+   * @returns Promise<ReplyHistoryEntry> - The saved entry
+   */
+  static async addEntry(entry: NewReplyHistoryEntry): Promise<ReplyHistoryEntry> {
+    const [saved] = await this.addEntries([entry]);
+    return saved;
+  }
+
+  /**
+   * Mark an entry as inserted into the reply box
+   * @param id - Entry ID
+   */
+  static async markInserted(id: string): Promise<void> {
+    await this.update((history) =>
+      history.map((entry) => (entry.id === id ? { ...entry, inserted: true } : entry))
+    );
+  }
+
+  /**
+   * Delete an entry
+   * @param id - Entry ID
+   */
+  static async deleteEntry(id: string): Promise<void> {
+    await this.update((history) => history.filter((entry) => entry.id !== id));
+  }
+
+  /**
+   * Delete all history entries
+   */
+  static async clearHistory(): Promise<void> {
+    try {
+      await chrome.storage.local.remove<Record<string, unknown>>(StorageKey.REPLY_HISTORY);
+      console.log('Reply history cleared');
+    } catch (error) {
+      console.error('Failed to clear reply history:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to clear reply history',
+        error
+      );
+    }
+  }
+
+  /**
+   * Listen for history changes (e.g. replies recorded from a Twitter tab)
+   * @param callback - Function to call with the updated history
+   * @returns Unsubscribe function
+   */
+  static onHistoryChange(
+    callback: (entries: ReplyHistoryEntry[]) => void
+  ): () => void {
+    const listener = (
+      changes: { [key: string]: chrome.storage.StorageChange },
+      areaName: string
+    ) => {
+      if (areaName !== 'local') return;
+
+      if (StorageKey.REPLY_HISTORY in changes) {
+        this.getHistory().then(callback).catch((error) => {
+          console.error('Failed to reload reply history:', error);
+        });
+      }
+    };
+
+    chrome.storage.onChanged.addListener(listener);
+
+    return () => {
+      chrome.storage.onChanged.removeListener(listener);
+    };
+  }
+
+  /**
+   * Apply a change to the stored history, then evict to stay within the caps
+   * @param change - Function producing the new history (newest first)
+   */
+  private static update(
+    change: (history: ReplyHistoryEntry[]) => ReplyHistoryEntry[]
+  ): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      try {
+        const history = this.evict(change(await this.getHistory()));
+
+        await chrome.storage.local.set({
+          [StorageKey.REPLY_HISTORY]: history,
+        });
+      } catch (error) {
+        console.error('Failed to update reply history:', error);
+
+        if (error instanceof AppError) {
+          throw error;
+        }
+
+        throw new AppError(
+          ErrorType.STORAGE_ERROR,
+          'Failed to save reply history',
+          error
+        );
+      }
+    });
+
+    // Keep the queue alive after a failed write
+    this.writeQueue = write.catch(() => undefined);
+
+    return write;
+  }
+
+  /**
+   * Drop the oldest entries beyond MAX_HISTORY_ENTRIES or MAX_HISTORY_BYTES
+   * @param history - Entries, newest first
+   * @returns Entries that fit within the caps
+   */
+  private static evict(history: ReplyHistoryEntry[]): ReplyHistoryEntry[] {
+    const kept = history
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, MAX_HISTORY_ENTRIES);
+
+    const encoder = new TextEncoder();
+    // Array brackets plus one comma per entry
+    let bytes = 2 + Math.max(0, kept.length - 1);
+    let count = 0;
+
+    for (const entry of kept) {
+      const entryBytes = encoder.encode(JSON.stringify(entry)).length;
+      if (bytes + entryBytes > MAX_HISTORY_BYTES) break;
+
+      bytes += entryBytes;
+      count++;
+    }
+
+    if (count < history.length) {
+      console.log(`Reply history evicted ${history.length - count} old entries`);
+    }
+
+    return kept.slice(0, count);
+  }
+
+  /**
+   * Validate a stored history entry
+   * @param entry - Entry to validate
+   * @returns boolean - True if valid
+   */
+  private static isValidEntry(entry: unknown): entry is ReplyHistoryEntry {
+    if (!entry || typeof entry !== 'object') {
+      return false;
+    }
+
+    const candidate = entry as Record<string, unknown>;
+
+    return (
+      typeof candidate.id === 'string' &&
+      typeof candidate.createdAt === 'number' &&
+      typeof candidate.tweetText === 'string' &&
+      typeof candidate.styleId === 'string' &&
+      typeof candidate.reply === 'string' &&
+      typeof candidate.provider === 'string' &&
+      typeof candidate.model === 'string'
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MigrationService, STORAGE_MIGRATIONS } from './migration-service';
+import { installChromeStorageFake } from '../test/chrome-storage-fake';
+import type { FakeChromeStorage } from '../test/chrome-storage-fake';
+import type { StorageMigration } from '../types';
+import { StorageKey, ErrorType, AppError } from '../types';
+
+describe('MigrationService', () => {
+  let storage: FakeChromeStorage;
+
+  beforeEach(() => {
+    storage = installChromeStorageFake();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  // Migration that records its version when it runs
+  const recording = (version: number, runs: number[], migrate?: () => Promise<void>): StorageMigration => ({
+    version,
+    description: `migration ${version}`,
+    migrate: async () => {
+      runs.push(version);
+      await migrate?.();
+    },
+  });
+
+  describe('runMigrations', () => {
+    it('runs the pending migrations in version order and records the version', async () => {
+      await storage.local.set({ [StorageKey.SCHEMA_VERSION]: 1 });
+      const runs: number[] = [];
+
+      const result = await MigrationService.runMigrations([
+        recording(3, runs),
+        recording(1, runs),
+        recording(2, runs),
+      ]);
+
+      expect(runs).toEqual([2, 3]);
+      expect(result).toEqual({ from: 1, to: 3 });
+      expect(await MigrationService.getSchemaVersion()).toBe(3);
+    });
+
+    it('does nothing when the data is up to date', async () => {
+      await storage.local.set({ [StorageKey.SCHEMA_VERSION]: 2 });
+      const runs: number[] = [];
+
+      const result = await MigrationService.runMigrations([recording(1, runs), recording(2, runs)]);
+
+      expect(runs).toEqual([]);
+      expect(result).toEqual({ from: 2, to: 2 });
+      expect(await MigrationService.getBackup()).toBeNull();
+    });
+
+    it('backs up both storage areas before the first migration', async () => {
+      await storage.sync.set({ greeting: 'hello' });
+      await storage.local.set({ history: [1, 2] });
+
+      await MigrationService.runMigrations([
+        recording(1, [], () => chrome.storage.sync.set({ greeting: 'migrated' })),
+      ]);
+
+      const backup = await MigrationService.getBackup();
+      expect(backup).toMatchObject({
+        schemaVersion: 0,
+        sync: { greeting: 'hello' },
+        local: { history: [1, 2] },
+      });
+      expect(storage.sync.dump().greeting).toBe('migrated');
+    });
+
+    it('stops at a failing migration without advancing past the last completed one', async () => {
+      const runs: number[] = [];
+
+      const run = MigrationService.runMigrations([
+        recording(1, runs),
+        recording(2, runs, async () => {
+          throw new Error('boom');
+        }),
+        recording(3, runs),
+      ]);
+
+      await expect(run).rejects.toMatchObject({ type: ErrorType.STORAGE_ERROR });
+      expect(runs).toEqual([1, 2]);
+      expect(await MigrationService.getSchemaVersion()).toBe(1);
+    });
+
+    it('rejects duplicate versions without running anything', async () => {
+      const runs: number[] = [];
+
+      await expect(
+        MigrationService.runMigrations([recording(1, runs), recording(1, runs)])
+      ).rejects.toBeInstanceOf(AppError);
+      expect(runs).toEqual([]);
+    });
+
+    it('defers the token migration while the token vault is locked', async () => {
+      await storage.local.set({ [StorageKey.SCHEMA_VERSION]: 2 });
+      await storage.sync.set({
+        [StorageKey.AI_PROFILES]: [{
+          id: 'profile_1',
+          name: 'Default',
+          config: { provider: 'glm', apiUrl: 'https://example.com/v1', apiToken: 'secret', model: 'glm-4' },
+          createdAt: 1,
+          updatedAt: 1,
+        }],
+        // Encrypted, and no key in the session storage
+        [StorageKey.API_TOKENS]: {
+          tokens: {},
+          encryption: { salt: '', iterations: 1, verifier: { iv: '', data: '' } },
+        },
+      });
+
+      await expect(MigrationService.runMigrations(STORAGE_MIGRATIONS)).rejects.toMatchObject({
+        type: ErrorType.STORAGE_ERROR,
+        details: { type: ErrorType.TOKEN_LOCKED },
+      });
+      expect(await MigrationService.getSchemaVersion()).toBe(2);
+    });
+  });
+
+  describe('restoreBackup', () => {
+    it('puts back the data from before the migrations', async () => {
+      await storage.sync.set({ greeting: 'hello' });
+      await storage.local.set({ history: [1, 2] });
+
+      await MigrationService.runMigrations([
+        recording(1, [], async () => {
+          await chrome.storage.sync.set({ greeting: 'migrated', added: true });
+          await chrome.storage.local.set({ history: [] });
+        }),
+      ]);
+
+      await MigrationService.restoreBackup();
+
+      expect(storage.sync.dump()).toEqual({ greeting: 'hello' });
+
+      const local = storage.local.dump();
+      expect(local.history).toEqual([1, 2]);
+      expect(local[StorageKey.SCHEMA_VERSION]).toBeUndefined();
+      // The backup is kept so it can be restored again
+      expect(local[StorageKey.STORAGE_BACKUP]).toBeDefined();
+    });
+
+    it('fails when there is no backup', async () => {
+      await expect(MigrationService.restoreBackup()).rejects.toMatchObject({
+        type: ErrorType.STORAGE_ERROR,
+      });
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Migration Service
+ *
+ * Versions the stored data and upgrades it with an ordered registry of
+ * migrations. The background runs pending migrations on install and
+ * update, after saving a snapshot of both storage areas.
+ *
+ * Everything goes through chrome.storage, so the runner can be exercised
+ * against an in-memory fake of the API with a custom migration list.
+ */
+
+import type { StorageBackup, StorageMigration } from '../types';
+import { StorageKey, ErrorType, AppError } from '../types';
+import { StorageService } from './storage-service';
+
+/**
+ * Migrations in version order
+ * Version 0 is data written before the schema was versioned
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Move the single AI_CONFIG into a named profile',
+    migrate: () => StorageService.migrateLegacyConfig(),
+  },
+  {
+    version: 2,
+    description: 'Split the custom style array into one sync key per style',
+    migrate: () => StorageService.migrateCustomStyles(),
+  },
+  {
+    version: 3,
+    description: 'Move API tokens out of the profiles into the token vault',
+    migrate: () => StorageService.migrateProfileTokens(),
+  },
+];
+
+/**
+ * Migration service class
+ * The schema version is kept per device in chrome.storage.local, so each
+ * device also migrates its own local data
+ */
+export class MigrationService {
+  /**
+   * Migration run in progress in this context
+   */
+  private static running: Promise<{ from: number; to: number }> | null = null;
+
+  /**
+   * Run the migrations newer than the stored schema version
+   * Stops at the first failure; the version stays at the last completed one
+   * @param migrations - Registry to run (defaults to STORAGE_MIGRATIONS)
+   * @returns Promise<{from, to}> - Schema version before and after
+   */
+  static runMigrations(
+    migrations: StorageMigration[] = STORAGE_MIGRATIONS
+  ): Promise<{ from: number; to: number }> {
+    if (!this.running) {
+      this.running = this.migrate(migrations).finally(() => {
+        this.running = null;
+      });
+    }
+
+    return this.running;
+  }
+
+  /**
+   * Get the schema version of the stored data
+   * @returns Promise<number> - 0 when the data predates versioning
+   */
+  static async getSchemaVersion(): Promise<number> {
+    try {
+      const result = await chrome.storage.local.get(StorageKey.SCHEMA_VERSION);
+      const version = result[StorageKey.SCHEMA_VERSION];
+
+      return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0;
+    } catch (error) {
+      console.error('Failed to get schema version:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to retrieve schema version',
+        error
+      );
+    }
+  }
+
+  /**
+   * Get the snapshot taken before the last migration
+   * @returns Promise<StorageBackup | null>
+   */
+  static async getBackup(): Promise<StorageBackup | null> {
+    try {
+      const result = await chrome.storage.local.get(StorageKey.STORAGE_BACKUP);
+      const backup = result[StorageKey.STORAGE_BACKUP];
+
+      return this.isValidBackup(backup) ? backup : null;
+    } catch (error) {
+      console.error('Failed to get storage backup:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to retrieve storage backup',
+        error
+      );
+    }
+  }
+
+  /**
+   * Replace the stored data with the pre-migration snapshot
+   * Data written since the snapshot is lost; the snapshot itself is kept,
+   * and the migrations run again on the next update
+   */
+  static async restoreBackup(): Promise<void> {
+    const backup = await this.getBackup();
+
+    if (!backup) {
+      throw new AppError(ErrorType.STORAGE_ERROR, 'No storage backup to restore');
+    }
+
+    try {
+      const local = await chrome.storage.local.get(null);
+      const staleLocalKeys = Object.keys(local).filter((key) => key !== StorageKey.STORAGE_BACKUP);
+
+      await chrome.storage.sync.clear();
+      await chrome.storage.sync.set(backup.sync);
+
+      if (staleLocalKeys.length > 0) {
+        await chrome.storage.local.remove<Record<string, unknown>>(staleLocalKeys);
+      }
+      await chrome.storage.local.set(backup.local);
+
+      console.log(`[Migration] 已恢复 v${backup.schemaVersion} 的备份`);
+    } catch (error) {
+      console.error('Failed to restore storage backup:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to restore storage backup',
+        error
+      );
+    }
+  }
+
+  /**
+   * Back up, then apply the pending migrations one by one
+   */
+  private static async migrate(
+    migrations: StorageMigration[]
+  ): Promise<{ from: number; to: number }> {
+    const sorted = [...migrations].sort((a, b) => a.version - b.version);
+
+    if (sorted.some((migration, i) => i > 0 && migration.version === sorted[i - 1].version)) {
+      throw new AppError(ErrorType.INVALID_CONFIG, 'Duplicate storage migration versions');
+    }
+
+    const from = await this.getSchemaVersion();
+    const latest = sorted.length > 0 ? sorted[sorted.length - 1].version : 0;
+
+    if (from > latest) {
+      console.warn(`[Migration] 数据版本 v${from} 高于当前扩展支持的 v${latest}，跳过迁移`);
+      return { from, to: from };
+    }
+
+    const pending = sorted.filter((migration) => migration.version > from);
+
+    if (pending.length === 0) {
+      return { from, to: from };
+    }
+
+    await this.createBackup(from);
+
+    let version = from;
+
+    for (const migration of pending) {
+      try {
+        await migration.migrate();
+      } catch (error) {
+        console.error(`[Migration] v${migration.version} 失败:`, error);
+        throw new AppError(
+          ErrorType.STORAGE_ERROR,
+          `Storage migration to v${migration.version} failed: ${migration.description}`,
+          error
+        );
+      }
+
+      version = migration.version;
+      await chrome.storage.local.set({ [StorageKey.SCHEMA_VERSION]: version });
+
+      console.log(`[Migration] v${version}: ${migration.description}`);
+    }
+
+    return { from, to: version };
+  }
+
+  /**
+   * Snapshot both storage areas, replacing the previous snapshot
+   * @param schemaVersion - Version of the data being saved
+   */
+  private static async createBackup(schemaVersion: number): Promise<void> {
+    try {
+      const [sync, local] = await Promise.all([
+        chrome.storage.sync.get(null),
+        chrome.storage.local.get(null),
+      ]);
+      delete local[StorageKey.STORAGE_BACKUP];
+
+      const backup: StorageBackup = {
+        createdAt: Date.now(),
+        schemaVersion,
+        sync,
+        local,
+      };
+
+      await chrome.storage.local.set({ [StorageKey.STORAGE_BACKUP]: backup });
+
+      console.log(`[Migration] 已备份 v${schemaVersion} 的数据`);
+    } catch (error) {
+      console.error('Failed to back up storage:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to back up storage before migrating',
+        error
+      );
+    }
+  }
+
+  /**
+   * Validate a stored backup
+   * @param backup - Backup to validate
+   * @returns boolean - True if valid
+   */
+  private static isValidBackup(backup: unknown): backup is StorageBackup {
+    if (!backup || typeof backup !== 'object') {
+      return false;
+    }
+
+    const candidate = backup as Record<string, unknown>;
+
+    return (
+      typeof candidate.createdAt === 'number' &&
+      typeof candidate.schemaVersion === 'number' &&
+      !!candidate.sync && typeof candidate.sync === 'object' &&
+      !!candidate.local && typeof candidate.local === 'object'
+    );
+  }
+}
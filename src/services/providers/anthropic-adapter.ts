@@ -0,0 +1,196 @@
+/**
+ * Anthropic Messages API Adapter
+ *
+ * https://docs.anthropic.com/en/api/messages
+ */
+
+import type { AIConfig, TokenUsage } from '../../types';
+import { ErrorType, AppError } from '../../types';
+import { BaseProviderAdapter } from './provider-adapter';
+import type { GenerationParams, ProviderRequest, StreamEvent } from './provider-adapter';
+
+/**
+ * Anthropic API version header value
+ */
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Messages API request body
+ */
+interface AnthropicMessagesRequest {
+  model: string;
+  max_tokens: number;
+  system?: string;
+  messages: { role: 'user' | 'assistant'; content: string }[];
+  temperature?: number;
+  top_p?: number;
+  stream?: boolean;
+}
+
+/**
+ * Messages API response body
+ */
+interface AnthropicMessagesResponse {
+  content?: { type: string; text?: string }[];
+  stop_reason?: string;
+  usage?: AnthropicUsage;
+}
+
+/**
+ * Token usage object
+ */
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+/**
+ * Streaming event payload (only the fields we read)
+ */
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  error?: { type: string; message: string };
+  /** message_start carries the input token count */
+  message?: { usage?: AnthropicUsage };
+  /** message_delta carries the cumulative output token count */
+  usage?: AnthropicUsage;
+}
+
+export class AnthropicAdapter extends BaseProviderAdapter {
+  buildRequest(config: AIConfig, params: GenerationParams): ProviderRequest {
+    // The Messages API takes the system prompt as a top-level field
+    const system = params.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+
+    const body: AnthropicMessagesRequest = {
+      model: config.model,
+      max_tokens: params.maxTokens,
+      ...(system ? { system } : {}),
+      messages: params.messages
+        .filter((message) => message.role !== 'system')
+        .map((message) => ({
+          role: message.role as 'user' | 'assistant',
+          content: message.content,
+        })),
+      // Anthropic accepts temperatures between 0 and 1
+      temperature: Math.min(params.temperature, 1),
+      ...(params.topP !== undefined ? { top_p: params.topP } : {}),
+      ...(params.stream ? { stream: true } : {}),
+    };
+
+    return {
+      url: config.apiUrl,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiToken,
+        'anthropic-version': ANTHROPIC_VERSION,
+        // Required for calls made from a browser extension context
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body,
+    };
+  }
+
+  extractReplies(data: unknown): string[] {
+    const response = data as AnthropicMessagesResponse;
+
+    if (!response?.content || response.content.length === 0) {
+      throw new AppError(
+        ErrorType.INVALID_RESPONSE,
+        'No content in API response'
+      );
+    }
+
+    const text = response.content
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
+      .join('');
+
+    return this.requireReplies([text]);
+  }
+
+  extractUsage(data: unknown): TokenUsage | undefined {
+    const usage = (data as AnthropicMessagesResponse)?.usage;
+    if (!usage) return undefined;
+
+    const promptTokens = usage.input_tokens ?? 0;
+    const completionTokens = usage.output_tokens ?? 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    };
+  }
+
+  parseStreamEvent(data: string): StreamEvent {
+    const event = this.parseJSON<AnthropicStreamEvent>(data);
+    if (!event) return {};
+
+    switch (event.type) {
+      case 'content_block_delta':
+        return event.delta?.type === 'text_delta' && event.delta.text
+          ? { delta: event.delta.text }
+          : {};
+
+      case 'message_start':
+        return event.message?.usage?.input_tokens !== undefined
+          ? { usage: { promptTokens: event.message.usage.input_tokens } }
+          : {};
+
+      case 'message_delta':
+        return event.usage?.output_tokens !== undefined
+          ? { usage: { completionTokens: event.usage.output_tokens } }
+          : {};
+
+      case 'message_stop':
+        return { done: true };
+
+      case 'error':
+        throw this.mapStreamError(event.error);
+
+      default:
+        return {};
+    }
+  }
+
+  mapError(
+    status: number,
+    data: unknown,
+    headers: Record<string, string>,
+    error: unknown
+  ): AppError {
+    // 529: API temporarily overloaded
+    if (status === 529) {
+      return new AppError(
+        ErrorType.API_REQUEST_FAILED,
+        'Anthropic API is temporarily overloaded. Please try again later.',
+        { error, data }
+      );
+    }
+
+    return super.mapError(status, data, headers, error);
+  }
+
+  /**
+   * Map an error event received inside the SSE stream
+   */
+  private mapStreamError(streamError: AnthropicStreamEvent['error']): AppError {
+    if (streamError?.type === 'rate_limit_error') {
+      return new AppError(
+        ErrorType.RATE_LIMITED,
+        streamError.message,
+        streamError
+      );
+    }
+
+    return new AppError(
+      ErrorType.API_REQUEST_FAILED,
+      `API stream error: ${streamError?.message ?? 'unknown error'}`,
+      streamError
+    );
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Google Gemini Adapter
+ *
+ * generateContent / streamGenerateContent format
+ * https://ai.google.dev/api/generate-content
+ */
+
+import type { AIConfig, TokenUsage } from '../../types';
+import { ErrorType, AppError } from '../../types';
+import { BaseProviderAdapter } from './provider-adapter';
+import type { GenerationParams, ProviderRequest, StreamEvent } from './provider-adapter';
+
+/**
+ * generateContent request body
+ */
+interface GeminiGenerateContentRequest {
+  systemInstruction?: { parts: { text: string }[] };
+  contents: { role: 'user' | 'model'; parts: { text: string }[] }[];
+  generationConfig: {
+    temperature?: number;
+    topP?: number;
+    maxOutputTokens?: number;
+    candidateCount?: number;
+  };
+}
+
+/**
+ * generateContent response body (also used for each stream chunk)
+ */
+interface GeminiGenerateContentResponse {
+  candidates?: {
+    content?: { parts?: { text?: string }[] };
+    finishReason?: string;
+  }[];
+  promptFeedback?: { blockReason?: string };
+  /** Cumulative in stream chunks */
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+export class GeminiAdapter extends BaseProviderAdapter {
+  buildRequest(config: AIConfig, params: GenerationParams): ProviderRequest {
+    const system = params.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+
+    const body: GeminiGenerateContentRequest = {
+      ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+      contents: params.messages
+        .filter((message) => message.role !== 'system')
+        .map((message) => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }],
+        })),
+      generationConfig: {
+        temperature: params.temperature,
+        maxOutputTokens: params.maxTokens,
+        ...(params.topP !== undefined ? { topP: params.topP } : {}),
+        ...(params.n && params.n > 1 ? { candidateCount: params.n } : {}),
+      },
+    };
+
+    // apiUrl is the API base, e.g. https://generativelanguage.googleapis.com/v1beta
+    const base = config.apiUrl.replace(/\/+$/, '');
+    const model = encodeURIComponent(config.model.replace(/^models\//, ''));
+    const url = params.stream
+      ? `${base}/models/${model}:streamGenerateContent?alt=sse`
+      : `${base}/models/${model}:generateContent`;
+
+    return {
+      url,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': config.apiToken,
+      },
+      body,
+    };
+  }
+
+  extractReplies(data: unknown): string[] {
+    const response = data as GeminiGenerateContentResponse;
+
+    if (!response?.candidates || response.candidates.length === 0) {
+      const blockReason = response?.promptFeedback?.blockReason;
+      throw new AppError(
+        ErrorType.INVALID_RESPONSE,
+        blockReason
+          ? `Prompt was blocked by Gemini: ${blockReason}`
+          : 'No candidates in API response'
+      );
+    }
+
+    return this.requireReplies(
+      response.candidates.map((candidate) => this.getCandidateText(candidate))
+    );
+  }
+
+  extractUsage(data: unknown): TokenUsage | undefined {
+    const metadata = (data as GeminiGenerateContentResponse)?.usageMetadata;
+    if (!metadata) return undefined;
+
+    const promptTokens = metadata.promptTokenCount ?? 0;
+    const completionTokens = metadata.candidatesTokenCount ?? 0;
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: metadata.totalTokenCount ?? promptTokens + completionTokens,
+    };
+  }
+
+  parseStreamEvent(data: string): StreamEvent {
+    const chunk = this.parseJSON<GeminiGenerateContentResponse>(data);
+    if (!chunk) return {};
+
+    const candidate = chunk.candidates?.[0];
+    const delta = candidate ? this.getCandidateText(candidate) : '';
+    const usage = this.extractUsage(chunk);
+
+    // Gemini has no end marker; the stream simply closes after finishReason
+    return {
+      ...(delta ? { delta } : {}),
+      ...(usage ? { usage } : {}),
+    };
+  }
+
+  mapError(
+    status: number,
+    data: unknown,
+    headers: Record<string, string>,
+    error: unknown
+  ): AppError {
+    // Gemini reports invalid API keys as 400 INVALID_ARGUMENT
+    const message = this.extractErrorMessage(data);
+    if (status === 400 && message && /api key/i.test(message)) {
+      return new AppError(
+        ErrorType.INVALID_CONFIG,
+        `Invalid API key: ${message}`,
+        { error, data }
+      );
+    }
+
+    return super.mapError(status, data, headers, error);
+  }
+
+  /**
+   * Join the text parts of a candidate
+   */
+  private getCandidateText(
+    candidate: NonNullable<GeminiGenerateContentResponse['candidates']>[number]
+  ): string {
+    return (candidate.content?.parts ?? []).map((part) => part.text ?? '').join('');
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Provider adapter registry
+ */
+
+import type { AIProvider } from '../../types';
+import type { ProviderAdapter } from './provider-adapter';
+import { OpenAICompatibleAdapter } from './openai-adapter';
+import { AnthropicAdapter } from './anthropic-adapter';
+import { GeminiAdapter } from './gemini-adapter';
+import { LocalModelAdapter } from './local-adapter';
+
+export type {
+  ProviderAdapter,
+  GenerationParams,
+  ProviderRequest,
+  StreamEvent,
+} from './provider-adapter';
+
+const openAICompatibleAdapter = new OpenAICompatibleAdapter();
+
+/**
+ * Adapter used for each provider
+ */
+const PROVIDER_ADAPTERS: Record<AIProvider, ProviderAdapter> = {
+  siliconflow: openAICompatibleAdapter,
+  deepseek: openAICompatibleAdapter,
+  glm: openAICompatibleAdapter,
+  anthropic: new AnthropicAdapter(),
+  gemini: new GeminiAdapter(),
+  local: new LocalModelAdapter(),
+  custom: openAICompatibleAdapter,
+};
+
+/**
+ * Get the adapter for a provider
+ */
+export function getProviderAdapter(provider: AIProvider): ProviderAdapter {
+  return PROVIDER_ADAPTERS[provider];
+}
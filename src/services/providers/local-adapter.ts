@@ -0,0 +1,107 @@
+/**
+ * Local Model Adapter
+ *
+ * Ollama and llama.cpp server both expose an OpenAI-compatible
+ * /v1/chat/completions endpoint. Authentication is optional and installed
+ * models are discovered through the server's model-list endpoint.
+ */
+
+import type { AIConfig } from '../../types';
+import { ErrorType, AppError } from '../../types';
+import { OpenAICompatibleAdapter } from './openai-adapter';
+import type { GenerationParams, ProviderRequest } from './provider-adapter';
+
+/**
+ * Model-list response shapes
+ * - OpenAI-compatible /v1/models (Ollama, llama.cpp): { data: [{ id }] }
+ * - Ollama native /api/tags: { models: [{ name }] }
+ */
+interface LocalModelListResponse {
+  data?: { id?: string }[];
+  models?: { name?: string; model?: string }[];
+}
+
+export class LocalModelAdapter extends OpenAICompatibleAdapter {
+  buildRequest(config: AIConfig, params: GenerationParams): ProviderRequest {
+    const request = super.buildRequest(config, params);
+
+    // Only send Authorization when the server was started with an API key
+    if (!config.apiToken.trim()) {
+      delete request.headers.Authorization;
+    }
+
+    return request;
+  }
+
+  getModelListUrls(config: AIConfig): string[] {
+    const base = this.getServerBase(config.apiUrl);
+
+    // /api/tags covers older Ollama versions without /v1/models
+    return [`${base}/v1/models`, `${base}/api/tags`];
+  }
+
+  extractModelIds(data: unknown): string[] {
+    const response = data as LocalModelListResponse;
+
+    const ids = [
+      ...(response?.data ?? []).map((model) => model.id),
+      ...(response?.models ?? []).map((model) => model.name ?? model.model),
+    ].filter((id): id is string => typeof id === 'string' && id.trim() !== '');
+
+    return Array.from(new Set(ids));
+  }
+
+  mapError(
+    status: number,
+    data: unknown,
+    headers: Record<string, string>,
+    error: unknown
+  ): AppError {
+    const message = this.extractErrorMessage(data);
+
+    // Ollama rejects requests from origins not listed in OLLAMA_ORIGINS
+    if (status === 403) {
+      return new AppError(
+        ErrorType.INVALID_CONFIG,
+        'Local server rejected the request. For Ollama, allow this origin with the OLLAMA_ORIGINS environment variable.',
+        { error, data }
+      );
+    }
+
+    // Model not installed (e.g. "model 'llama3' not found, try pulling it first")
+    if (status === 404 && message) {
+      return new AppError(
+        ErrorType.INVALID_CONFIG,
+        `Local model unavailable: ${message}`,
+        { error, data }
+      );
+    }
+
+    return super.mapError(status, data, headers, error);
+  }
+
+  /**
+   * Ollama's native API reports errors as `{ error: "message" }`
+   */
+  protected extractErrorMessage(data: unknown): string | null {
+    if (data && typeof data === 'object' && 'error' in data) {
+      const errorData = data as { error?: unknown };
+      if (typeof errorData.error === 'string') {
+        return errorData.error;
+      }
+    }
+
+    return super.extractErrorMessage(data);
+  }
+
+  /**
+   * Strip the chat completions path to get the server base URL
+   * e.g. http://localhost:11434/v1/chat/completions -> http://localhost:11434
+   */
+  private getServerBase(apiUrl: string): string {
+    return apiUrl
+      .replace(/\/+$/, '')
+      .replace(/\/chat\/completions$/, '')
+      .replace(/\/v1$/, '');
+  }
+}
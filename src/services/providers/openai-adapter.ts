@@ -0,0 +1,99 @@
+/**
+ * OpenAI-compatible Adapter
+ *
+ * Chat Completions format used by SiliconFlow, DeepSeek, GLM and
+ * custom OpenAI-compatible endpoints
+ */
+
+import type {
+  AIConfig,
+  AIProvider,
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  TokenUsage,
+} from '../../types';
+import { ErrorType, AppError } from '../../types';
+import { BaseProviderAdapter } from './provider-adapter';
+import type { GenerationParams, ProviderRequest, StreamEvent } from './provider-adapter';
+
+/**
+ * Providers known to accept `stream_options.include_usage`
+ * Other OpenAI-compatible servers may reject unknown fields
+ */
+const STREAM_USAGE_PROVIDERS: AIProvider[] = ['siliconflow', 'deepseek'];
+
+export class OpenAICompatibleAdapter extends BaseProviderAdapter {
+  buildRequest(config: AIConfig, params: GenerationParams): ProviderRequest {
+    const body: ChatCompletionRequest = {
+      model: config.model,
+      messages: params.messages,
+      max_tokens: params.maxTokens,
+      // GLM accepts temperatures between 0 and 1
+      temperature: config.provider === 'glm' ? Math.min(params.temperature, 1) : params.temperature,
+      ...(params.topP !== undefined ? { top_p: params.topP } : {}),
+      ...(params.n && params.n > 1 ? { n: params.n } : {}),
+      ...(params.stream ? { stream: true } : {}),
+      ...(params.stream && STREAM_USAGE_PROVIDERS.includes(config.provider)
+        ? { stream_options: { include_usage: true } }
+        : {}),
+    };
+
+    return {
+      url: config.apiUrl,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(params.stream ? { Accept: 'text/event-stream' } : {}),
+        Authorization: `Bearer ${config.apiToken}`,
+      },
+      body,
+    };
+  }
+
+  extractReplies(data: unknown): string[] {
+    const response = data as ChatCompletionResponse;
+
+    if (!response?.choices || response.choices.length === 0) {
+      throw new AppError(
+        ErrorType.INVALID_RESPONSE,
+        'No choices in API response'
+      );
+    }
+
+    return this.requireReplies(
+      response.choices.map((choice) => choice.message?.content)
+    );
+  }
+
+  extractUsage(data: unknown): TokenUsage | undefined {
+    const usage = (data as ChatCompletionResponse)?.usage;
+    if (!usage) return undefined;
+
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+    };
+  }
+
+  parseStreamEvent(data: string): StreamEvent {
+    if (data === '[DONE]') {
+      return { done: true };
+    }
+
+    const chunk = this.parseJSON<ChatCompletionChunk>(data);
+    const delta = chunk?.choices?.[0]?.delta?.content;
+    const usage = chunk?.usage
+      ? {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        }
+      : undefined;
+
+    return {
+      ...(delta ? { delta } : {}),
+      ...(usage ? { usage } : {}),
+    };
+  }
+}
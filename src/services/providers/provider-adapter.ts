@@ -0,0 +1,234 @@
+/**
+ * Provider Adapter
+ *
+ * Common interface for AI provider adapters. Each adapter owns the wire
+ * format of one API family: request building, auth headers, response
+ * extraction, stream parsing and HTTP error mapping.
+ */
+
+import type { AIConfig, ChatMessage, TokenUsage } from '../../types';
+import { ErrorType, AppError } from '../../types';
+
+/**
+ * Provider-independent generation parameters
+ */
+export interface GenerationParams {
+  /** Conversation messages (system prompt first, if any) */
+  messages: ChatMessage[];
+  /** Maximum tokens to generate */
+  maxTokens: number;
+  /** Sampling temperature */
+  temperature: number;
+  /** Nucleus sampling */
+  topP?: number;
+  /** Number of choices to request (only sent when > 1) */
+  n?: number;
+  /** Request a streaming (SSE) response */
+  stream?: boolean;
+}
+
+/**
+ * HTTP request produced by an adapter
+ */
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Result of parsing one SSE `data:` payload
+ */
+export interface StreamEvent {
+  /** Newly generated text, if any */
+  delta?: string;
+  /** The stream has finished */
+  done?: boolean;
+  /** Token usage reported so far (merged field by field) */
+  usage?: Partial<TokenUsage>;
+}
+
+/**
+ * Provider adapter interface
+ */
+export interface ProviderAdapter {
+  /**
+   * Build the HTTP request for a generation call
+   */
+  buildRequest(config: AIConfig, params: GenerationParams): ProviderRequest;
+
+  /**
+   * Extract reply texts from a non-streaming response body
+   * @throws AppError(INVALID_RESPONSE) when the body has no usable content
+   */
+  extractReplies(data: unknown): string[];
+
+  /**
+   * Extract token usage from a non-streaming response body
+   */
+  extractUsage(data: unknown): TokenUsage | undefined;
+
+  /**
+   * Parse one SSE `data:` payload of a streaming response
+   * @throws AppError when the provider reports an error inside the stream
+   */
+  parseStreamEvent(data: string): StreamEvent;
+
+  /**
+   * Map an HTTP error response to AppError
+   */
+  mapError(
+    status: number,
+    data: unknown,
+    headers: Record<string, string>,
+    error: unknown
+  ): AppError;
+
+  /**
+   * Model-list endpoints for this config, tried in order
+   * Only implemented by providers that can discover installed models
+   */
+  getModelListUrls?(config: AIConfig): string[];
+
+  /**
+   * Extract model ids from a model-list response body
+   */
+  extractModelIds?(data: unknown): string[];
+}
+
+/**
+ * Base adapter with the HTTP error mapping shared by all providers
+ * Subclasses override extractErrorMessage for their error body format,
+ * or mapError itself for provider-specific status codes.
+ */
+export abstract class BaseProviderAdapter implements ProviderAdapter {
+  abstract buildRequest(config: AIConfig, params: GenerationParams): ProviderRequest;
+
+  abstract extractReplies(data: unknown): string[];
+
+  abstract extractUsage(data: unknown): TokenUsage | undefined;
+
+  abstract parseStreamEvent(data: string): StreamEvent;
+
+  /**
+   * Map an HTTP error response to AppError
+   */
+  mapError(
+    status: number,
+    data: unknown,
+    headers: Record<string, string>,
+    error: unknown
+  ): AppError {
+    console.error(`[AI Service] HTTP ${status} 错误:`, data);
+
+    const providerMessage = this.extractErrorMessage(data);
+
+    switch (status) {
+      case 401:
+        return new AppError(
+          ErrorType.INVALID_CONFIG,
+          'Invalid API token. Please check your API configuration.',
+          { error, data }
+        );
+
+      case 403:
+        return new AppError(
+          ErrorType.INVALID_CONFIG,
+          'Access forbidden. Please verify your API token has the necessary permissions.',
+          { error, data }
+        );
+
+      case 429: {
+        // Extract rate limit info if available
+        const retryAfter = headers['retry-after'];
+        const rateLimitMessage = retryAfter
+          ? `Rate limit exceeded. Please retry after ${retryAfter} seconds.`
+          : 'Rate limit exceeded. Please wait a few minutes and try again.';
+
+        return new AppError(
+          ErrorType.RATE_LIMITED,
+          rateLimitMessage,
+          { error, data, retryAfter }
+        );
+      }
+
+      case 400:
+        return new AppError(
+          ErrorType.INVALID_RESPONSE,
+          providerMessage
+            ? `Invalid request: ${providerMessage}`
+            : 'Invalid request. Please check your model configuration.',
+          { error, data }
+        );
+
+      case 404:
+        return new AppError(
+          ErrorType.INVALID_CONFIG,
+          'API endpoint not found. Please check your API URL configuration.',
+          { error, data }
+        );
+
+      case 500:
+      case 502:
+      case 503:
+      case 504:
+        return new AppError(
+          ErrorType.API_REQUEST_FAILED,
+          `API server error (${status}). The service may be temporarily unavailable. Please try again later.`,
+          { error, data }
+        );
+
+      default:
+        return new AppError(
+          ErrorType.API_REQUEST_FAILED,
+          `API request failed with status ${status}. Please check your configuration.`,
+          { error, data }
+        );
+    }
+  }
+
+  /**
+   * Extract the provider's error message from an error body
+   * Default handles the `{ error: { message } }` shape
+   */
+  protected extractErrorMessage(data: unknown): string | null {
+    if (data && typeof data === 'object' && 'error' in data) {
+      const errorData = data as { error?: { message?: unknown } };
+      if (typeof errorData.error?.message === 'string') {
+        return errorData.error.message;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse a JSON stream payload, returning null for malformed data
+   */
+  protected parseJSON<T>(data: string): T | null {
+    try {
+      return JSON.parse(data) as T;
+    } catch {
+      console.warn('[AI Service] 无法解析的流式数据:', data);
+      return null;
+    }
+  }
+
+  /**
+   * Throw INVALID_RESPONSE when no reply text was found
+   */
+  protected requireReplies(replies: (string | undefined)[]): string[] {
+    const valid = replies
+      .map((reply) => reply?.trim())
+      .filter((reply): reply is string => !!reply);
+
+    if (valid.length === 0) {
+      throw new AppError(
+        ErrorType.INVALID_RESPONSE,
+        'No content in API response'
+      );
+    }
+
+    return valid;
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Rate Limiter
+ *
+ * Client-side token bucket per provider. Generate calls wait in a FIFO
+ * queue for a token, and the queue is paused when the provider reports
+ * a rate limit through Retry-After or x-ratelimit-* headers.
+ */
+
+import type { AIProvider } from '../types';
+import {
+  RATE_LIMIT_MAX_WAIT,
+  RATE_LIMIT_DEFAULT_PAUSE,
+  PROVIDER_NAMES,
+  ErrorType,
+  AppError,
+} from '../types';
+import { StorageService } from './storage-service';
+
+/**
+ * Token bucket and queue state of one provider
+ */
+interface Bucket {
+  /** Available tokens (fractional while refilling) */
+  tokens: number;
+  /** Time tokens were last refilled (epoch ms) */
+  lastRefill: number;
+  /** The queue is paused until this time (epoch ms) */
+  pausedUntil: number;
+  /** Settles when the last queued caller has taken its token */
+  tail: Promise<void>;
+}
+
+/**
+ * Rate limiter class
+ * State lives in memory, so it resets when the service worker restarts
+ */
+export class RateLimiter {
+  private static buckets = new Map<AIProvider, Bucket>();
+
+  /**
+   * Wait for a request slot
+   * @param provider - Provider the request goes to
+   * @param signal - Leaves the queue when aborted
+   * @param onWait - Called with the time the request will be sent whenever it has to wait
+   * @throws AppError(RATE_LIMITED) when the wait would exceed RATE_LIMIT_MAX_WAIT
+   */
+  static acquire(
+    provider: AIProvider,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<void> {
+    const bucket = this.getBucket(provider);
+    const turn = bucket.tail.then(() => this.takeToken(provider, bucket, signal, onWait));
+
+    // A failed or cancelled caller must not block the ones behind it
+    bucket.tail = turn.catch(() => undefined);
+
+    return this.untilAborted(turn, signal);
+  }
+
+  /**
+   * Time until the next request to a provider could be sent (ms)
+   * Only accounts for pauses, not for the token refill
+   */
+  static getPauseTime(provider: AIProvider): number {
+    const bucket = this.buckets.get(provider);
+    return bucket ? Math.max(0, bucket.pausedUntil - Date.now()) : 0;
+  }
+
+  /**
+   * Pause the queue of a provider
+   * @param provider - Provider to pause
+   * @param ms - Pause length; an existing longer pause is kept
+   */
+  static pause(provider: AIProvider, ms: number): void {
+    const bucket = this.getBucket(provider);
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + ms);
+
+    console.warn(`[Rate Limiter] ${PROVIDER_NAMES[provider]} 暂停 ${Math.ceil(ms / 1000)} 秒`);
+  }
+
+  /**
+   * Apply the rate limit headers of a provider response
+   * @param provider - Provider that responded
+   * @param headers - Response headers (lower-case names)
+   * @param rateLimited - The response was a 429
+   */
+  static recordResponse(
+    provider: AIProvider,
+    headers: Record<string, string>,
+    rateLimited: boolean
+  ): void {
+    const pause = this.getPauseFromHeaders(headers, rateLimited);
+
+    if (pause !== null) {
+      this.pause(provider, pause);
+    } else if (rateLimited) {
+      this.pause(provider, RATE_LIMIT_DEFAULT_PAUSE);
+    }
+  }
+
+  /**
+   * Work out how long to pause from rate limit headers
+   * @returns Pause in ms, or null when the headers don't ask for one
+   */
+  private static getPauseFromHeaders(
+    headers: Record<string, string>,
+    rateLimited: boolean
+  ): number | null {
+    const retryAfterMs = Number(headers['retry-after-ms']);
+    if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) {
+      return retryAfterMs;
+    }
+
+    const retryAfter = this.parseRetryAfter(headers['retry-after']);
+    if (retryAfter !== null) {
+      return retryAfter;
+    }
+
+    // OpenAI style: x-ratelimit-remaining-requests / x-ratelimit-reset-requests;
+    // others send x-ratelimit-remaining / x-ratelimit-reset
+    for (const suffix of ['-requests', '']) {
+      const remaining = headers[`x-ratelimit-remaining${suffix}`];
+      const reset = this.parseResetTime(headers[`x-ratelimit-reset${suffix}`]);
+
+      if (remaining !== undefined && Number(remaining) <= 0 && reset !== null) {
+        return reset;
+      }
+
+      if (rateLimited && reset !== null) {
+        return reset;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse a Retry-After value (delay in seconds or an HTTP date)
+   * @returns Delay in ms, or null if absent or invalid
+   */
+  private static parseRetryAfter(value: string | undefined): number | null {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+      return seconds > 0 ? seconds * 1000 : null;
+    }
+
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) return null;
+
+    const delay = date - Date.now();
+    return delay > 0 ? delay : null;
+  }
+
+  /**
+   * Parse an x-ratelimit-reset value
+   * Accepts durations like "1s", "6m0s" or "250ms", plain seconds,
+   * and epoch seconds
+   * @returns Time until the reset in ms, or null if absent or invalid
+   */
+  private static parseResetTime(value: string | undefined): number | null {
+    if (!value) return null;
+
+    const number = Number(value);
+    if (Number.isFinite(number)) {
+      // Large values are an epoch timestamp rather than a delay
+      const delay = number > 1e9 ? number * 1000 - Date.now() : number * 1000;
+      return delay > 0 ? delay : null;
+    }
+
+    const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+    let total = 0;
+    let matched = '';
+
+    for (const match of value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+      total += Number(match[1]) * units[match[2]];
+      matched += match[0];
+    }
+
+    if (matched !== value.trim() || total <= 0) return null;
+
+    return total;
+  }
+
+  /**
+   * Wait until the bucket has a token and isn't paused, then take the token
+   */
+  private static async takeToken(
+    provider: AIProvider,
+    bucket: Bucket,
+    signal?: AbortSignal,
+    onWait?: (until: number) => void
+  ): Promise<void> {
+    for (;;) {
+      if (signal?.aborted) {
+        throw this.cancelledError();
+      }
+
+      const { requestsPerMinute, burst } = (await StorageService.getRateLimits())[provider];
+      const now = Date.now();
+
+      if (requestsPerMinute > 0) {
+        const refillRate = requestsPerMinute / 60000;
+        bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.lastRefill) * refillRate);
+      } else {
+        bucket.tokens = burst;
+      }
+      bucket.lastRefill = now;
+
+      const pauseWait = Math.max(0, bucket.pausedUntil - now);
+      const tokenWait = bucket.tokens >= 1 ? 0 : (1 - bucket.tokens) / (requestsPerMinute / 60000);
+      const wait = Math.ceil(Math.max(pauseWait, tokenWait));
+
+      if (wait <= 0) {
+        bucket.tokens -= 1;
+        return;
+      }
+
+      if (wait > RATE_LIMIT_MAX_WAIT) {
+        throw new AppError(
+          ErrorType.RATE_LIMITED,
+          `Rate limit exceeded. Please retry after ${Math.ceil(wait / 1000)} seconds.`,
+          { retryAfter: Math.ceil(wait / 1000) }
+        );
+      }
+
+      console.log(`[Rate Limiter] ${PROVIDER_NAMES[provider]} 请求排队 ${wait}ms`);
+      onWait?.(now + wait);
+
+      await this.sleep(wait, signal);
+    }
+  }
+
+  /**
+   * Get or create the bucket of a provider (starts full)
+   */
+  private static getBucket(provider: AIProvider): Bucket {
+    let bucket = this.buckets.get(provider);
+
+    if (!bucket) {
+      bucket = {
+        tokens: Infinity,
+        lastRefill: Date.now(),
+        pausedUntil: 0,
+        tail: Promise.resolve(),
+      };
+      this.buckets.set(provider, bucket);
+    }
+
+    return bucket;
+  }
+
+  /**
+   * Reject as soon as the signal aborts, even while still queued behind others
+   */
+  private static untilAborted(promise: Promise<void>, signal?: AbortSignal): Promise<void> {
+    if (!signal) return promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(this.cancelledError());
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Sleep, waking up early (with CANCELLED) when the signal aborts
+   */
+  private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.cancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Error for a caller that left the queue
+   */
+  private static cancelledError(): AppError {
+    return new AppError(ErrorType.CANCELLED, 'Generation cancelled');
+  }
+}
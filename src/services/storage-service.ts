@@ -5,15 +5,53 @@
  * Handles all data persistence for the extension
  */
 
-import type { AIConfig, CustomReplyStyle, ReplyStyle } from '../types';
+import type {
+  AIConfig,
+  AIProfile,
+  AIProvider,
+  CustomReplyStyle,
+  PortableStyle,
+  RateLimitSettings,
+  ReplyStyle,
+  StyleConflictStrategy,
+  StyleImportResult,
+  StylePackage,
+  UsageSettings,
+  UserPreferences,
+} from '../types';
 import {
   StorageKey,
   ErrorType,
   AppError,
   REPLY_STYLES,
+  PROVIDER_NAMES,
+  PROVIDER_REQUIRES_TOKEN,
   MAX_CUSTOM_STYLES,
+  MAX_PROFILES,
+  MAX_MODEL_PRICES,
+  MAX_REPLY_CANDIDATES,
+  MAX_REPLY_LENGTH,
   CUSTOM_STYLE_CONSTRAINTS,
+  CUSTOM_STYLE_KEY_PREFIX,
+  SYNC_ITEM_QUOTA_BYTES,
+  PROFILE_CONSTRAINTS,
+  PASSPHRASE_MIN_LENGTH,
+  DEFAULT_USER_PREFERENCES,
+  DEFAULT_RATE_LIMITS,
+  DEFAULT_USAGE_SETTINGS,
+  OUTPUT_LANGUAGE_NAMES,
+  PREFERENCE_CONSTRAINTS,
+  RATE_LIMIT_CONSTRAINTS,
+  STYLE_PACKAGE_FORMAT,
+  STYLE_PACKAGE_VERSION,
+  USAGE_CONSTRAINTS,
 } from '../types';
+import { TokenVault } from './token-vault';
+
+/**
+ * Name given to a configuration migrated from the single AI_CONFIG key
+ */
+const LEGACY_PROFILE_NAME = '默认配置';
 
 /**
  * Storage service class
@@ -21,37 +59,17 @@ import {
  */
 export class StorageService {
   /**
-   * Get AI configuration from storage
-   * @returns Promise<AIConfig | null> - Configuration or null if not set
+   * Get the active AI configuration
+   * @returns Promise<AIConfig | null> - Active profile's configuration, or null if none is active
    */
   static async getAIConfig(): Promise<AIConfig | null> {
-    try {
-      const result = await chrome.storage.sync.get(StorageKey.AI_CONFIG);
-      const config = result[StorageKey.AI_CONFIG];
-
-      if (!config) {
-        return null;
-      }
-
-      // Validate the stored config
-      if (!this.isValidAIConfig(config)) {
-        console.warn('Invalid AI config in storage, returning null');
-        return null;
-      }
-
-      return config as AIConfig;
-    } catch (error) {
-      console.error('Failed to get AI config:', error);
-      throw new AppError(
-        ErrorType.STORAGE_ERROR,
-        'Failed to retrieve configuration',
-        error
-      );
-    }
+    const profile = await this.getActiveProfile();
+    return profile ? profile.config : null;
   }
 
   /**
-   * Save AI configuration to storage
+   * Save the active AI configuration
+   * Updates the active profile, or creates and activates one if none is active
    * @param config - AI configuration to save
    */
   static async setAIConfig(config: AIConfig): Promise<void> {
@@ -64,9 +82,14 @@ export class StorageService {
         );
       }
 
-      await chrome.storage.sync.set({
-        [StorageKey.AI_CONFIG]: config,
-      });
+      const activeProfile = await this.getActiveProfile();
+
+      if (activeProfile) {
+        await this.updateProfile(activeProfile.id, { config: { ...config } });
+      } else {
+        const profile = await this.saveProfile(PROVIDER_NAMES[config.provider], config);
+        await this.setActiveProfile(profile.id);
+      }
 
       console.log('AI config saved successfully');
     } catch (error) {
@@ -86,7 +109,7 @@ export class StorageService {
 
   /**
    * Check if AI configuration exists
-   * @returns Promise<boolean> - True if config exists and is valid
+   * @returns Promise<boolean> - True if a valid profile is active
    */
   static async hasAIConfig(): Promise<boolean> {
     const config = await this.getAIConfig();
@@ -94,17 +117,67 @@ export class StorageService {
   }
 
   /**
-   * Clear AI configuration
+   * Clear the active AI configuration
+   * Deletes the active profile; no profile is active afterwards
    */
   static async clearAIConfig(): Promise<void> {
+    const activeProfile = await this.getActiveProfile();
+
+    if (activeProfile) {
+      await this.deleteProfile(activeProfile.id);
+    }
+
+    console.log('AI config cleared');
+  }
+
+  /**
+   * Move a configuration saved by an older version (single AI_CONFIG key)
+   * into a profile and make it active (schema migration v1)
+   * Safe to call repeatedly; does nothing once the legacy key is gone
+   */
+  static async migrateLegacyConfig(): Promise<void> {
     try {
-      await chrome.storage.sync.remove(StorageKey.AI_CONFIG);
-      console.log('AI config cleared');
+      const result = await chrome.storage.sync.get(StorageKey.AI_CONFIG);
+      const legacyConfig = result[StorageKey.AI_CONFIG];
+
+      if (legacyConfig === undefined) {
+        return;
+      }
+
+      if (this.isValidAIConfig(legacyConfig)) {
+        const profiles = await this.getProfiles();
+        const existing = profiles.find((profile) =>
+          this.isSameConfig(profile.config, legacyConfig)
+        );
+        const now = Date.now();
+        const profile: AIProfile = existing ?? {
+          id: `profile_${now}_${Math.random().toString(36).substr(2, 9)}`,
+          name: LEGACY_PROFILE_NAME,
+          config: { ...legacyConfig },
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        if (!existing) {
+          await TokenVault.setToken(profile.id, legacyConfig.apiToken);
+          await this.writeProfiles([...profiles, profile]);
+        }
+
+        await chrome.storage.sync.set({
+          [StorageKey.ACTIVE_PROFILE_ID]: profile.id,
+        });
+
+        console.log('Legacy AI config migrated to profile:', profile.id);
+      } else {
+        console.warn('Invalid legacy AI config in storage, discarding');
+      }
+
+      await chrome.storage.sync.remove<Record<string, unknown>>(StorageKey.AI_CONFIG);
     } catch (error) {
-      console.error('Failed to clear AI config:', error);
+      console.error('Failed to migrate legacy AI config:', error);
       throw new AppError(
         ErrorType.STORAGE_ERROR,
-        'Failed to clear configuration',
+        'Failed to migrate configuration',
         error
       );
     }
@@ -176,9 +249,10 @@ export class StorageService {
   /**
    * Validate AI configuration object
    * @param config - Configuration to validate
+   * @param requireToken - Whether providers that need a token must have one
    * @returns boolean - True if valid
    */
-  private static isValidAIConfig(config: any): boolean {
+  private static isValidAIConfig(config: any, requireToken = true): boolean {
     if (!config || typeof config !== 'object') {
       return false;
     }
@@ -189,19 +263,24 @@ export class StorageService {
       if (!(key in config) || typeof config[key] !== 'string') {
         return false;
       }
-
-      // Check for empty strings
-      if (config[key].trim() === '') {
-        return false;
-      }
     }
 
     // Validate provider value
-    const validProviders = ['siliconflow', 'deepseek', 'glm', 'custom'];
-    if (!validProviders.includes(config.provider)) {
+    if (!(config.provider in PROVIDER_NAMES)) {
       return false;
     }
 
+    // Check for empty strings (the token is optional for local servers)
+    for (const key of required) {
+      if (key === 'apiToken' && (!requireToken || !PROVIDER_REQUIRES_TOKEN[config.provider as AIProvider])) {
+        continue;
+      }
+
+      if (config[key].trim() === '') {
+        return false;
+      }
+    }
+
     // Validate URL format
     try {
       new URL(config.apiUrl);
@@ -213,8 +292,20 @@ export class StorageService {
   }
 
   /**
-   * Listen for storage changes
-   * @param callback - Function to call when storage changes
+   * Whether two configurations point at the same provider, model and key
+   */
+  private static isSameConfig(a: AIConfig, b: AIConfig): boolean {
+    return (
+      a.provider === b.provider &&
+      a.apiUrl === b.apiUrl &&
+      a.apiToken === b.apiToken &&
+      a.model === b.model
+    );
+  }
+
+  /**
+   * Listen for changes to the active configuration
+   * @param callback - Called with the active configuration after profiles change
    * @returns Unsubscribe function
    */
   static onConfigChange(
@@ -224,11 +315,15 @@ export class StorageService {
       changes: { [key: string]: chrome.storage.StorageChange },
       areaName: string
     ) => {
-      if (areaName !== 'sync') return;
-
-      if (StorageKey.AI_CONFIG in changes) {
-        const newValue = changes[StorageKey.AI_CONFIG].newValue;
-        callback(newValue || null);
+      const profilesChanged = areaName === 'sync' &&
+        (StorageKey.AI_PROFILES in changes || StorageKey.ACTIVE_PROFILE_ID in changes);
+      const tokensChanged = StorageKey.API_TOKENS in changes ||
+        (areaName === 'session' && StorageKey.TOKEN_KEY in changes);
+
+      if (profilesChanged || tokensChanged) {
+        this.getAIConfig().then(callback).catch((error) => {
+          console.error('Failed to reload AI config:', error);
+        });
       }
     };
 
@@ -240,86 +335,62 @@ export class StorageService {
     };
   }
 
-  // ==================== Custom Styles Management ====================
+  // ==================== User Preferences ====================
 
   /**
-   * Get all custom styles from storage
-   * @returns Promise<CustomReplyStyle[]> - Array of custom styles
+   * Get user preferences from storage
+   * Missing fields are filled with defaults
+   * @returns Promise<UserPreferences>
    */
-  static async getCustomStyles(): Promise<CustomReplyStyle[]> {
+  static async getUserPreferences(): Promise<UserPreferences> {
     try {
-      const result = await chrome.storage.sync.get(StorageKey.CUSTOM_STYLES);
-      const styles = result[StorageKey.CUSTOM_STYLES];
+      const result = await chrome.storage.sync.get(StorageKey.USER_PREFERENCES);
+      const stored = result[StorageKey.USER_PREFERENCES];
 
-      if (!styles || !Array.isArray(styles)) {
-        return [];
+      if (!stored || typeof stored !== 'object') {
+        return { ...DEFAULT_USER_PREFERENCES };
       }
 
-      // Validate and filter valid styles
-      const validStyles = styles.filter((style) =>
-        this.isValidCustomStyle(style)
-      );
+      const preferences: UserPreferences = { ...DEFAULT_USER_PREFERENCES, ...stored };
 
-      // Sort by creation date (newest first)
-      return validStyles.sort((a, b) => b.createdAt - a.createdAt);
+      // Validate the stored preferences
+      if (!ConfigValidator.validatePreferences(preferences).valid) {
+        console.warn('Invalid user preferences in storage, using defaults');
+        return { ...DEFAULT_USER_PREFERENCES };
+      }
+
+      return preferences;
     } catch (error) {
-      console.error('Failed to get custom styles:', error);
+      console.error('Failed to get user preferences:', error);
       throw new AppError(
         ErrorType.STORAGE_ERROR,
-        'Failed to retrieve custom styles',
+        'Failed to retrieve preferences',
         error
       );
     }
   }
 
   /**
-   * Save a new custom style
-   * @param styleData - Style data (without id, createdAt, updatedAt)
-   * @returns Promise<CustomReplyStyle> - The saved style with generated id
+   * Save user preferences to storage
+   * @param preferences - Preferences to save
    */
-  static async saveCustomStyle(
-    styleData: Omit<CustomReplyStyle, 'id' | 'createdAt' | 'updatedAt'>
-  ): Promise<CustomReplyStyle> {
+  static async setUserPreferences(preferences: UserPreferences): Promise<void> {
     try {
-      // Get existing styles
-      const existingStyles = await this.getCustomStyles();
-
-      // Check limit
-      if (existingStyles.length >= MAX_CUSTOM_STYLES) {
-        throw new AppError(
-          ErrorType.INVALID_CONFIG,
-          `Maximum ${MAX_CUSTOM_STYLES} custom styles allowed`
-        );
-      }
-
-      // Validate style data
-      const validation = ConfigValidator.validateCustomStyle(styleData);
+      const validation = ConfigValidator.validatePreferences(preferences);
       if (!validation.valid) {
         throw new AppError(
           ErrorType.INVALID_CONFIG,
-          `Invalid custom style: ${validation.errors.join(', ')}`
+          `Invalid preferences: ${validation.errors.join(', ')}`
         );
       }
 
-      // Create new style with generated id and timestamps
-      const now = Date.now();
-      const newStyle: CustomReplyStyle = {
-        ...styleData,
-        id: `custom_${now}_${Math.random().toString(36).substr(2, 9)}`,
-        createdAt: now,
-        updatedAt: now,
-      };
-
-      // Save to storage
-      const updatedStyles = [...existingStyles, newStyle];
       await chrome.storage.sync.set({
-        [StorageKey.CUSTOM_STYLES]: updatedStyles,
+        [StorageKey.USER_PREFERENCES]: preferences,
       });
 
-      console.log('Custom style saved:', newStyle.id);
-      return newStyle;
+      console.log('User preferences saved successfully');
     } catch (error) {
-      console.error('Failed to save custom style:', error);
+      console.error('Failed to save user preferences:', error);
 
       if (error instanceof AppError) {
         throw error;
@@ -327,59 +398,95 @@ export class StorageService {
 
       throw new AppError(
         ErrorType.STORAGE_ERROR,
-        'Failed to save custom style',
+        'Failed to save preferences',
         error
       );
     }
   }
 
   /**
-   * Update an existing custom style
-   * @param id - Style ID to update
-   * @param updates - Partial style data to update
+   * Listen for changes to the user preferences
+   * @param callback - Called with the updated preferences
+   * @returns Unsubscribe function
    */
-  static async updateCustomStyle(
-    id: string,
-    updates: Partial<Omit<CustomReplyStyle, 'id' | 'createdAt' | 'updatedAt'>>
-  ): Promise<void> {
+  static onPreferencesChange(
+    callback: (preferences: UserPreferences) => void
+  ): () => void {
+    const listener = (
+      changes: { [key: string]: chrome.storage.StorageChange },
+      areaName: string
+    ) => {
+      if (areaName !== 'sync') return;
+
+      if (StorageKey.USER_PREFERENCES in changes) {
+        this.getUserPreferences().then(callback).catch((error) => {
+          console.error('Failed to reload user preferences:', error);
+        });
+      }
+    };
+
+    chrome.storage.onChanged.addListener(listener);
+
+    return () => {
+      chrome.storage.onChanged.removeListener(listener);
+    };
+  }
+
+  // ==================== Rate Limits ====================
+
+  /**
+   * Get rate limits per provider
+   * Providers missing from storage use the defaults
+   * @returns Promise<RateLimitSettings>
+   */
+  static async getRateLimits(): Promise<RateLimitSettings> {
     try {
-      const existingStyles = await this.getCustomStyles();
-      const styleIndex = existingStyles.findIndex((s) => s.id === id);
+      const result = await chrome.storage.sync.get(StorageKey.RATE_LIMITS);
+      const stored = result[StorageKey.RATE_LIMITS];
 
-      if (styleIndex === -1) {
-        throw new AppError(
-          ErrorType.INVALID_CONFIG,
-          `Custom style not found: ${id}`
-        );
+      if (!stored || typeof stored !== 'object') {
+        return { ...DEFAULT_RATE_LIMITS };
       }
 
-      // Merge updates
-      const updatedStyle: CustomReplyStyle = {
-        ...existingStyles[styleIndex],
-        ...updates,
-        updatedAt: Date.now(),
-      };
+      const limits: RateLimitSettings = { ...DEFAULT_RATE_LIMITS, ...stored };
 
-      // Validate updated style
-      const validation = ConfigValidator.validateCustomStyle(updatedStyle);
+      if (!ConfigValidator.validateRateLimits(limits).valid) {
+        console.warn('Invalid rate limits in storage, using defaults');
+        return { ...DEFAULT_RATE_LIMITS };
+      }
+
+      return limits;
+    } catch (error) {
+      console.error('Failed to get rate limits:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to retrieve rate limits',
+        error
+      );
+    }
+  }
+
+  /**
+   * Save rate limits per provider
+   * @param limits - Rate limits to save
+   */
+  static async setRateLimits(limits: RateLimitSettings): Promise<void> {
+    try {
+      const validation = ConfigValidator.validateRateLimits(limits);
       if (!validation.valid) {
         throw new AppError(
           ErrorType.INVALID_CONFIG,
-          `Invalid custom style: ${validation.errors.join(', ')}`
+          `Invalid rate limits: ${validation.errors.join(', ')}`
         );
       }
 
-      // Update in array
-      existingStyles[styleIndex] = updatedStyle;
-
-      // Save to storage
       await chrome.storage.sync.set({
-        [StorageKey.CUSTOM_STYLES]: existingStyles,
+        [StorageKey.RATE_LIMITS]: limits,
       });
 
-      console.log('Custom style updated:', id);
+      console.log('Rate limits saved successfully');
     } catch (error) {
-      console.error('Failed to update custom style:', error);
+      console.error('Failed to save rate limits:', error);
 
       if (error instanceof AppError) {
         throw error;
@@ -387,35 +494,70 @@ export class StorageService {
 
       throw new AppError(
         ErrorType.STORAGE_ERROR,
-        'Failed to update custom style',
+        'Failed to save rate limits',
         error
       );
     }
   }
 
+  // ==================== Usage Settings ====================
+
   /**
-   * Delete a custom style
-   * @param id - Style ID to delete
+   * Get cost estimation settings (currency, monthly budget, price table)
+   * @returns Promise<UsageSettings>
    */
-  static async deleteCustomStyle(id: string): Promise<void> {
+  static async getUsageSettings(): Promise<UsageSettings> {
     try {
-      const existingStyles = await this.getCustomStyles();
-      const filteredStyles = existingStyles.filter((s) => s.id !== id);
+      const result = await chrome.storage.sync.get(StorageKey.USAGE_SETTINGS);
+      const stored = result[StorageKey.USAGE_SETTINGS];
+
+      if (!stored || typeof stored !== 'object') {
+        return { ...DEFAULT_USAGE_SETTINGS };
+      }
+
+      const settings: UsageSettings = { ...DEFAULT_USAGE_SETTINGS, ...stored };
+
+      if (!ConfigValidator.validateUsageSettings(settings).valid) {
+        console.warn('Invalid usage settings in storage, using defaults');
+        return { ...DEFAULT_USAGE_SETTINGS };
+      }
+
+      return settings;
+    } catch (error) {
+      console.error('Failed to get usage settings:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to retrieve usage settings',
+        error
+      );
+    }
+  }
 
-      if (filteredStyles.length === existingStyles.length) {
+  /**
+   * Save cost estimation settings
+   * @param settings - Settings to save
+   */
+  static async setUsageSettings(settings: UsageSettings): Promise<void> {
+    try {
+      const validation = ConfigValidator.validateUsageSettings(settings);
+      if (!validation.valid) {
         throw new AppError(
           ErrorType.INVALID_CONFIG,
-          `Custom style not found: ${id}`
+          `Invalid usage settings: ${validation.errors.join(', ')}`
         );
       }
 
       await chrome.storage.sync.set({
-        [StorageKey.CUSTOM_STYLES]: filteredStyles,
+        [StorageKey.USAGE_SETTINGS]: {
+          ...settings,
+          currency: settings.currency.trim(),
+          prices: settings.prices.map((price) => ({ ...price, model: price.model.trim() })),
+        },
       });
 
-      console.log('Custom style deleted:', id);
+      console.log('Usage settings saved successfully');
     } catch (error) {
-      console.error('Failed to delete custom style:', error);
+      console.error('Failed to save usage settings:', error);
 
       if (error instanceof AppError) {
         throw error;
@@ -423,101 +565,1041 @@ export class StorageService {
 
       throw new AppError(
         ErrorType.STORAGE_ERROR,
-        'Failed to delete custom style',
+        'Failed to save usage settings',
         error
       );
     }
   }
 
+  // ==================== Provider Profiles ====================
+
   /**
-   * Get all styles (preset + custom)
-   * @returns Promise<ReplyStyle[]> - All available styles
+   * Get all saved provider profiles
+   * Tokens come from the token vault; while it is locked, encrypted tokens
+   * are left empty
+   * @returns Promise<AIProfile[]> - Profiles, oldest first
    */
-  static async getAllStyles(): Promise<ReplyStyle[]> {
+  static async getProfiles(): Promise<AIProfile[]> {
     try {
-      const customStyles = await this.getCustomStyles();
-      // Combine preset styles with custom styles
-      return [...REPLY_STYLES, ...customStyles];
-    } catch (error) {
-      console.error('Failed to get all styles:', error);
-      // If custom styles fail to load, return only preset styles
-      return REPLY_STYLES;
-    }
-  }
+      const [result, tokens] = await Promise.all([
+        chrome.storage.sync.get(StorageKey.AI_PROFILES),
+        TokenVault.getTokens(),
+      ]);
+      const profiles = result[StorageKey.AI_PROFILES];
 
-  /**
-   * Validate custom style object
-   * @param style - Style to validate
-   * @returns boolean - True if valid
-   */
-  private static isValidCustomStyle(style: any): boolean {
-    if (!style || typeof style !== 'object') {
-      return false;
-    }
+      if (!profiles || !Array.isArray(profiles)) {
+        return [];
+      }
 
-    const required = [
-      'id',
-      'name',
-      'icon',
-      'description',
-      'systemPrompt',
-      'createdAt',
-      'updatedAt',
-    ];
+      return profiles
+        .filter((profile) => this.isValidProfile(profile))
+        .map((profile) => ({
+          ...profile,
+          config: { ...profile.config, apiToken: tokens[profile.id] ?? profile.config.apiToken },
+        }))
+        .sort((a, b) => a.createdAt - b.createdAt);
+    } catch (error) {
+      console.error('Failed to get profiles:', error);
 
-    for (const key of required) {
-      if (!(key in style)) {
-        return false;
+      if (error instanceof AppError) {
+        throw error;
       }
-    }
 
-    // Type checks
-    if (typeof style.id !== 'string') return false;
-    if (typeof style.name !== 'string') return false;
-    if (typeof style.icon !== 'string') return false;
-    if (typeof style.description !== 'string') return false;
-    if (typeof style.systemPrompt !== 'string') return false;
-    if (typeof style.createdAt !== 'number') return false;
-    if (typeof style.updatedAt !== 'number') return false;
-
-    return true;
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to retrieve profiles',
+        error
+      );
+    }
   }
-}
 
-/**
- * Validation utilities
- */
-export class ConfigValidator {
   /**
-   * Validate API URL format
-   * @param url - URL to validate
-   * @returns {valid: boolean, error?: string}
+   * Move the tokens still stored inside profiles into the token vault
+   * (schema migration v3)
+   * Safe to call repeatedly
+   * @throws AppError(TOKEN_LOCKED) while the vault is locked and tokens are left to
+   *   move, so the schema version isn't advanced; the background retries after unlock
    */
-  static validateApiUrl(url: string): { valid: boolean; error?: string } {
-    if (!url || url.trim() === '') {
-      return { valid: false, error: 'API URL is required' };
-    }
-
+  static async migrateProfileTokens(): Promise<void> {
     try {
-      const parsed = new URL(url);
+      const result = await chrome.storage.sync.get(StorageKey.AI_PROFILES);
+      const stored = result[StorageKey.AI_PROFILES];
 
-      // Enforce HTTPS for security
-      if (parsed.protocol !== 'https:') {
-        return { valid: false, error: 'API URL must use HTTPS' };
+      if (!stored || !Array.isArray(stored)) {
+        return;
       }
 
-      return { valid: true };
-    } catch {
-      return { valid: false, error: 'Invalid URL format' };
-    }
-  }
+      const profiles = stored.filter((profile) => this.isValidProfile(profile));
+      const withToken = profiles.filter((profile) => profile.config.apiToken !== '');
+
+      if (withToken.length === 0) {
+        return;
+      }
+
+      if (await TokenVault.isLocked()) {
+        console.warn('API tokens are locked, deferring token migration');
+        throw new AppError(
+          ErrorType.TOKEN_LOCKED,
+          'API tokens are locked; the token migration runs after unlocking'
+        );
+      }
+
+      for (const profile of withToken) {
+        await TokenVault.setToken(profile.id, profile.config.apiToken);
+      }
+
+      await this.writeProfiles(profiles);
+
+      console.log('API tokens moved to token vault:', withToken.length);
+    } catch (error) {
+      console.error('Failed to migrate API tokens:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to migrate API tokens',
+        error
+      );
+    }
+  }
+
+  /**
+   * Get a saved provider profile by ID
+   * @param id - Profile ID
+   * @returns Promise<AIProfile | null> - The profile, or null if it doesn't exist
+   */
+  static async getProfile(id: string): Promise<AIProfile | null> {
+    const profiles = await this.getProfiles();
+    return profiles.find((profile) => profile.id === id) ?? null;
+  }
+
+  /**
+   * Save a configuration as a new provider profile
+   * @param name - Profile name
+   * @param config - Provider configuration
+   * @returns Promise<AIProfile> - The saved profile with generated id
+   */
+  static async saveProfile(name: string, config: AIConfig): Promise<AIProfile> {
+    try {
+      const existingProfiles = await this.getProfiles();
+
+      if (existingProfiles.length >= MAX_PROFILES) {
+        throw new AppError(
+          ErrorType.INVALID_CONFIG,
+          `Maximum ${MAX_PROFILES} profiles allowed`
+        );
+      }
+
+      const nameValidation = ConfigValidator.validateProfileName(name);
+      if (!nameValidation.valid) {
+        throw new AppError(ErrorType.INVALID_CONFIG, nameValidation.error!);
+      }
+
+      if (!this.isValidAIConfig(config)) {
+        throw new AppError(
+          ErrorType.INVALID_CONFIG,
+          'Invalid configuration provided'
+        );
+      }
+
+      const now = Date.now();
+      const newProfile: AIProfile = {
+        id: `profile_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        name: name.trim(),
+        config: { ...config },
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await TokenVault.setToken(newProfile.id, config.apiToken);
+      await this.writeProfiles([...existingProfiles, newProfile]);
+
+      console.log('Profile saved:', newProfile.id);
+      return newProfile;
+    } catch (error) {
+      console.error('Failed to save profile:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to save profile',
+        error
+      );
+    }
+  }
+
+  /**
+   * Rename a provider profile
+   * @param id - Profile ID
+   * @param name - New name
+   */
+  static async renameProfile(id: string, name: string): Promise<void> {
+    const nameValidation = ConfigValidator.validateProfileName(name);
+    if (!nameValidation.valid) {
+      throw new AppError(ErrorType.INVALID_CONFIG, nameValidation.error!);
+    }
+
+    await this.updateProfile(id, { name: name.trim() });
+  }
+
+  /**
+   * Save a copy of a provider profile
+   * @param id - Profile ID to copy
+   * @returns Promise<AIProfile> - The new profile
+   */
+  static async duplicateProfile(id: string): Promise<AIProfile> {
+    const profile = await this.getProfile(id);
+
+    if (!profile) {
+      throw new AppError(
+        ErrorType.INVALID_CONFIG,
+        `Profile not found: ${id}`
+      );
+    }
+
+    const suffix = ' 副本';
+    const baseName = profile.name.slice(0, PROFILE_CONSTRAINTS.NAME_MAX_LENGTH - suffix.length);
+
+    return this.saveProfile(`${baseName}${suffix}`, profile.config);
+  }
+
+  /**
+   * Update a provider profile's name or configuration
+   * @param id - Profile ID
+   * @param changes - Fields to replace
+   */
+  private static async updateProfile(
+    id: string,
+    changes: Partial<Pick<AIProfile, 'name' | 'config'>>
+  ): Promise<void> {
+    try {
+      const existingProfiles = await this.getProfiles();
+      const profileIndex = existingProfiles.findIndex((p) => p.id === id);
+
+      if (profileIndex === -1) {
+        throw new AppError(
+          ErrorType.INVALID_CONFIG,
+          `Profile not found: ${id}`
+        );
+      }
+
+      existingProfiles[profileIndex] = {
+        ...existingProfiles[profileIndex],
+        ...changes,
+        updatedAt: Date.now(),
+      };
+
+      if (changes.config) {
+        await TokenVault.setToken(id, changes.config.apiToken);
+      }
+
+      await this.writeProfiles(existingProfiles);
+
+      console.log('Profile updated:', id);
+    } catch (error) {
+      console.error('Failed to update profile:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to update profile',
+        error
+      );
+    }
+  }
+
+  /**
+   * Get the ID of the active profile
+   * Migrates a legacy single configuration first
+   * @returns Promise<string | null> - Active profile ID, or null if none is active
+   */
+  static async getActiveProfileId(): Promise<string | null> {
+    await this.migrateLegacyConfig();
+
+    try {
+      const result = await chrome.storage.sync.get(StorageKey.ACTIVE_PROFILE_ID);
+      const id = result[StorageKey.ACTIVE_PROFILE_ID];
+
+      return typeof id === 'string' ? id : null;
+    } catch (error) {
+      console.error('Failed to get active profile:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to retrieve active profile',
+        error
+      );
+    }
+  }
+
+  /**
+   * Get the active profile
+   * @returns Promise<AIProfile | null> - Active profile, or null if none is active
+   */
+  static async getActiveProfile(): Promise<AIProfile | null> {
+    const id = await this.getActiveProfileId();
+    return id ? this.getProfile(id) : null;
+  }
+
+  /**
+   * Make a profile the active configuration
+   * @param id - Profile ID
+   */
+  static async setActiveProfile(id: string): Promise<void> {
+    const profile = await this.getProfile(id);
+
+    if (!profile) {
+      throw new AppError(
+        ErrorType.INVALID_CONFIG,
+        `Profile not found: ${id}`
+      );
+    }
+
+    try {
+      await chrome.storage.sync.set({
+        [StorageKey.ACTIVE_PROFILE_ID]: id,
+      });
+
+      console.log('Active profile set:', id);
+    } catch (error) {
+      console.error('Failed to set active profile:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to set active profile',
+        error
+      );
+    }
+  }
+
+  /**
+   * Delete a provider profile
+   * Styles that refer to it fall back to the active config; deleting the
+   * active profile leaves no profile active
+   * @param id - Profile ID to delete
+   */
+  static async deleteProfile(id: string): Promise<void> {
+    try {
+      const existingProfiles = await this.getProfiles();
+      const filteredProfiles = existingProfiles.filter((p) => p.id !== id);
+
+      if (filteredProfiles.length === existingProfiles.length) {
+        throw new AppError(
+          ErrorType.INVALID_CONFIG,
+          `Profile not found: ${id}`
+        );
+      }
+
+      const [fallbackIds, activeProfileId] = await Promise.all([
+        this.getFallbackProfileIds(),
+        this.getActiveProfileId(),
+      ]);
+
+      await this.writeProfiles(filteredProfiles);
+      await chrome.storage.sync.set({
+        [StorageKey.FALLBACK_PROFILES]: fallbackIds.filter((fallbackId) => fallbackId !== id),
+      });
+      await TokenVault.removeToken(id);
+
+      if (activeProfileId === id) {
+        await chrome.storage.sync.remove<Record<string, unknown>>(StorageKey.ACTIVE_PROFILE_ID);
+      }
+
+      console.log('Profile deleted:', id);
+    } catch (error) {
+      console.error('Failed to delete profile:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to delete profile',
+        error
+      );
+    }
+  }
+
+  /**
+   * Get the fallback chain: profile IDs tried in order when the primary fails
+   * @returns Promise<string[]> - Profile IDs
+   */
+  static async getFallbackProfileIds(): Promise<string[]> {
+    try {
+      const result = await chrome.storage.sync.get(StorageKey.FALLBACK_PROFILES);
+      const ids = result[StorageKey.FALLBACK_PROFILES];
+
+      if (!Array.isArray(ids)) {
+        return [];
+      }
+
+      return ids.filter((id): id is string => typeof id === 'string');
+    } catch (error) {
+      console.error('Failed to get fallback profiles:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to retrieve fallback profiles',
+        error
+      );
+    }
+  }
+
+  /**
+   * Save the fallback chain
+   * @param ids - Profile IDs in fallback order
+   */
+  static async setFallbackProfileIds(ids: string[]): Promise<void> {
+    try {
+      await chrome.storage.sync.set({
+        [StorageKey.FALLBACK_PROFILES]: Array.from(new Set(ids)),
+      });
+
+      console.log('Fallback profiles saved:', ids.length);
+    } catch (error) {
+      console.error('Failed to save fallback profiles:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to save fallback profiles',
+        error
+      );
+    }
+  }
+
+  /**
+   * Validate a stored provider profile
+   * @param profile - Profile to validate
+   * @returns boolean - True if valid
+   */
+  private static isValidProfile(profile: unknown): profile is AIProfile {
+    if (!profile || typeof profile !== 'object') {
+      return false;
+    }
+
+    const candidate = profile as Record<string, unknown>;
+
+    return (
+      typeof candidate.id === 'string' &&
+      typeof candidate.name === 'string' &&
+      typeof candidate.createdAt === 'number' &&
+      typeof candidate.updatedAt === 'number' &&
+      this.isValidAIConfig(candidate.config, false)
+    );
+  }
+
+  /**
+   * Write the profile list without the tokens held by the token vault
+   * Tokens not moved to the vault yet (before migration v3) stay in place
+   * @param profiles - Profiles to store
+   */
+  private static async writeProfiles(profiles: AIProfile[]): Promise<void> {
+    const tokens = await TokenVault.getTokens();
+
+    await chrome.storage.sync.set({
+      [StorageKey.AI_PROFILES]: profiles.map((profile) => ({
+        ...profile,
+        config: { ...profile.config, apiToken: profile.id in tokens ? '' : profile.config.apiToken },
+      })),
+    });
+  }
+
+  // ==================== Custom Styles Management ====================
+
+  /**
+   * Get all custom styles from storage
+   * Each style is stored under its own key (CUSTOM_STYLE_KEY_PREFIX + id),
+   * listed in CUSTOM_STYLE_INDEX
+   * @returns Promise<CustomReplyStyle[]> - Array of custom styles
+   */
+  static async getCustomStyles(): Promise<CustomReplyStyle[]> {
+    try {
+      let result = await chrome.storage.sync.get([StorageKey.CUSTOM_STYLES, StorageKey.CUSTOM_STYLE_INDEX]);
+
+      if (result[StorageKey.CUSTOM_STYLES] !== undefined) {
+        await this.migrateCustomStyles();
+        result = await chrome.storage.sync.get(StorageKey.CUSTOM_STYLE_INDEX);
+      }
+
+      const ids = this.readCustomStyleIndex(result[StorageKey.CUSTOM_STYLE_INDEX]);
+      if (ids.length === 0) {
+        return [];
+      }
+
+      // Read only the listed style keys
+      const items = await chrome.storage.sync.get(ids.map((id) => this.getCustomStyleKey(id)));
+
+      // Validate and filter valid styles
+      const validStyles = Object.values(items).filter((style) => this.isValidCustomStyle(style));
+
+      // Sort by creation date (newest first)
+      return validStyles.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (error) {
+      console.error('Failed to get custom styles:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to retrieve custom styles',
+        error
+      );
+    }
+  }
+
+  /**
+   * Save a new custom style
+   * @param styleData - Style data (without id, createdAt, updatedAt)
+   * @returns Promise<CustomReplyStyle> - The saved style with generated id
+   */
+  static async saveCustomStyle(
+    styleData: Omit<CustomReplyStyle, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<CustomReplyStyle> {
+    try {
+      // Get existing styles
+      const existingStyles = await this.getCustomStyles();
+
+      // Check limit
+      if (existingStyles.length >= MAX_CUSTOM_STYLES) {
+        throw new AppError(
+          ErrorType.INVALID_CONFIG,
+          `Maximum ${MAX_CUSTOM_STYLES} custom styles allowed`
+        );
+      }
+
+      // Validate style data
+      const validation = ConfigValidator.validateCustomStyle(styleData);
+      if (!validation.valid) {
+        throw new AppError(
+          ErrorType.INVALID_CONFIG,
+          `Invalid custom style: ${validation.errors.join(', ')}`
+        );
+      }
+
+      // Create new style with generated id and timestamps
+      const now = Date.now();
+      const newStyle: CustomReplyStyle = {
+        ...styleData,
+        id: `custom_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      // Save to storage
+      await this.writeCustomStyles([newStyle]);
+
+      console.log('Custom style saved:', newStyle.id);
+      return newStyle;
+    } catch (error) {
+      console.error('Failed to save custom style:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to save custom style',
+        error
+      );
+    }
+  }
+
+  /**
+   * Update an existing custom style
+   * @param id - Style ID to update
+   * @param updates - Partial style data to update
+   */
+  static async updateCustomStyle(
+    id: string,
+    updates: Partial<Omit<CustomReplyStyle, 'id' | 'createdAt' | 'updatedAt'>>
+  ): Promise<void> {
+    try {
+      const existingStyles = await this.getCustomStyles();
+      const styleIndex = existingStyles.findIndex((s) => s.id === id);
+
+      if (styleIndex === -1) {
+        throw new AppError(
+          ErrorType.INVALID_CONFIG,
+          `Custom style not found: ${id}`
+        );
+      }
+
+      // Merge updates
+      const updatedStyle: CustomReplyStyle = {
+        ...existingStyles[styleIndex],
+        ...updates,
+        updatedAt: Date.now(),
+      };
+
+      // Validate updated style
+      const validation = ConfigValidator.validateCustomStyle(updatedStyle);
+      if (!validation.valid) {
+        throw new AppError(
+          ErrorType.INVALID_CONFIG,
+          `Invalid custom style: ${validation.errors.join(', ')}`
+        );
+      }
+
+      // Save to storage
+      await this.writeCustomStyles([updatedStyle]);
+
+      console.log('Custom style updated:', id);
+    } catch (error) {
+      console.error('Failed to update custom style:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to update custom style',
+        error
+      );
+    }
+  }
+
+  /**
+   * Delete a custom style
+   * @param id - Style ID to delete
+   */
+  static async deleteCustomStyle(id: string): Promise<void> {
+    try {
+      const existingStyles = await this.getCustomStyles();
+
+      if (!existingStyles.some((s) => s.id === id)) {
+        throw new AppError(
+          ErrorType.INVALID_CONFIG,
+          `Custom style not found: ${id}`
+        );
+      }
+
+      await chrome.storage.sync.remove<Record<string, unknown>>(this.getCustomStyleKey(id));
+      await chrome.storage.sync.set({
+        [StorageKey.CUSTOM_STYLE_INDEX]: existingStyles.map((s) => s.id).filter((styleId) => styleId !== id),
+      });
+
+      console.log('Custom style deleted:', id);
+    } catch (error) {
+      console.error('Failed to delete custom style:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to delete custom style',
+        error
+      );
+    }
+  }
+
+  /**
+   * Export custom styles as a versioned package
+   * @param ids - Styles to export (all when omitted)
+   * @returns Promise<StylePackage> - Package ready to be written as JSON
+   */
+  static async exportCustomStyles(ids?: string[]): Promise<StylePackage> {
+    const styles = await this.getCustomStyles();
+    const selected = ids ? styles.filter((style) => ids.includes(style.id)) : styles;
+
+    return {
+      format: STYLE_PACKAGE_FORMAT,
+      version: STYLE_PACKAGE_VERSION,
+      exportedAt: Date.now(),
+      styles: selected
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map((style) => this.toPortableStyle(style)),
+    };
+  }
+
+  /**
+   * Import custom styles from a package
+   * A style conflicts when an existing style has the same ID or name.
+   * Invalid styles and styles beyond MAX_CUSTOM_STYLES are skipped.
+   * @param stylePackage - Package read from an export file
+   * @param strategy - How to handle conflicting styles
+   * @returns Promise<StyleImportResult> - What was imported, replaced and skipped
+   */
+  static async importCustomStyles(
+    stylePackage: StylePackage,
+    strategy: StyleConflictStrategy
+  ): Promise<StyleImportResult> {
+    try {
+      const packageValidation = ConfigValidator.validateStylePackage(stylePackage);
+      if (!packageValidation.valid) {
+        throw new AppError(
+          ErrorType.INVALID_CONFIG,
+          `Invalid style package: ${packageValidation.errors.join(', ')}`
+        );
+      }
+
+      const styles = await this.getCustomStyles();
+      const result: StyleImportResult = { imported: [], overwritten: [], skipped: [] };
+      const now = Date.now();
+      // Styles written by this import, so duplicates within the file don't replace each other
+      const written = new Set<string>();
+
+      stylePackage.styles.forEach((entry, index) => {
+        const incoming = this.toPortableStyle(entry ?? {});
+        const label = typeof incoming.name === 'string' && incoming.name.trim()
+          ? incoming.name.trim()
+          : `第 ${index + 1} 个风格`;
+
+        const validation = ConfigValidator.validateCustomStyle(incoming);
+        if (!validation.valid) {
+          result.skipped.push({ name: label, reason: validation.errors.join('；') });
+          return;
+        }
+
+        const normalizedName = incoming.name.trim().toLowerCase();
+        const idTaken = styles.some((style) => style.id === incoming.id);
+        let conflict = styles.findIndex((style) => style.id === incoming.id);
+        if (conflict === -1) {
+          conflict = styles.findIndex((style) => style.name.trim().toLowerCase() === normalizedName);
+        }
+
+        if (conflict !== -1 && strategy === 'skip') {
+          result.skipped.push({ name: label, reason: '已存在同名或同 ID 的风格' });
+          return;
+        }
+
+        if (conflict !== -1 && strategy === 'overwrite') {
+          const existing = styles[conflict];
+
+          if (written.has(existing.id)) {
+            result.skipped.push({ name: label, reason: '与文件中前面的风格同名或同 ID' });
+            return;
+          }
+
+          // Keep the identity and the device-specific profile of the replaced style
+          const replacement: CustomReplyStyle = {
+            ...incoming,
+            id: existing.id,
+            ...(existing.profileId ? { profileId: existing.profileId } : {}),
+            createdAt: existing.createdAt,
+            updatedAt: now,
+          };
+
+          if (this.getCustomStyleBytes(replacement) > SYNC_ITEM_QUOTA_BYTES) {
+            result.skipped.push({ name: label, reason: '超出同步存储单项容量，请缩短提示词' });
+            return;
+          }
+
+          styles[conflict] = replacement;
+          written.add(existing.id);
+          result.overwritten.push(existing.name);
+          return;
+        }
+
+        if (styles.length >= MAX_CUSTOM_STYLES) {
+          result.skipped.push({ name: label, reason: `已达到 ${MAX_CUSTOM_STYLES} 个自定义风格的上限` });
+          return;
+        }
+
+        // Keeping the exported ID lets a later import of the same pack overwrite it
+        const keepId = !idTaken && /^custom_[\w-]+$/.test(incoming.id);
+        const newStyle: CustomReplyStyle = {
+          ...incoming,
+          id: keepId ? incoming.id : `custom_${now}_${Math.random().toString(36).substr(2, 9)}`,
+          name: this.getUniqueStyleName(incoming.name.trim(), styles),
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        if (this.getCustomStyleBytes(newStyle) > SYNC_ITEM_QUOTA_BYTES) {
+          result.skipped.push({ name: label, reason: '超出同步存储单项容量，请缩短提示词' });
+          return;
+        }
+
+        styles.push(newStyle);
+        written.add(newStyle.id);
+        result.imported.push(newStyle.name);
+      });
+
+      if (written.size > 0) {
+        await this.writeCustomStyles(styles.filter((style) => written.has(style.id)));
+      }
+
+      console.log('Custom styles imported:', {
+        imported: result.imported.length,
+        overwritten: result.overwritten.length,
+        skipped: result.skipped.length,
+      });
+      return result;
+    } catch (error) {
+      console.error('Failed to import custom styles:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to import custom styles',
+        error
+      );
+    }
+  }
+
+  /**
+   * Get all styles (preset + custom)
+   * @returns Promise<ReplyStyle[]> - All available styles
+   */
+  static async getAllStyles(): Promise<ReplyStyle[]> {
+    try {
+      const customStyles = await this.getCustomStyles();
+      // Combine preset styles with custom styles
+      return [...REPLY_STYLES, ...customStyles];
+    } catch (error) {
+      console.error('Failed to get all styles:', error);
+      // If custom styles fail to load, return only preset styles
+      return REPLY_STYLES;
+    }
+  }
+
+  /**
+   * Move custom styles from the legacy CUSTOM_STYLES array to one key per style
+   * (schema migration v2)
+   * Safe to call repeatedly; does nothing once the array is gone
+   */
+  static async migrateCustomStyles(): Promise<void> {
+    try {
+      const result = await chrome.storage.sync.get(StorageKey.CUSTOM_STYLES);
+      const legacy = result[StorageKey.CUSTOM_STYLES];
+
+      if (legacy === undefined) {
+        return;
+      }
+
+      const styles = Array.isArray(legacy)
+        ? legacy.filter((style) => this.isValidCustomStyle(style))
+        : [];
+
+      // Write the new keys first, so a failure leaves the legacy array in place
+      if (styles.length > 0) {
+        await this.writeCustomStyles(styles);
+      }
+
+      await chrome.storage.sync.remove<Record<string, unknown>>(StorageKey.CUSTOM_STYLES);
+
+      console.log(`Migrated ${styles.length} custom styles to per-style keys`);
+    } catch (error) {
+      console.error('Failed to migrate custom styles:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to migrate custom styles',
+        error
+      );
+    }
+  }
+
+  /**
+   * Write custom styles to their keys and add their IDs to the index
+   * @param styles - Styles to write
+   * @throws AppError(STORAGE_QUOTA_EXCEEDED) naming the style when it doesn't fit
+   */
+  private static async writeCustomStyles(styles: CustomReplyStyle[]): Promise<void> {
+    for (const style of styles) {
+      const bytes = this.getCustomStyleBytes(style);
+
+      if (bytes > SYNC_ITEM_QUOTA_BYTES) {
+        throw new AppError(
+          ErrorType.STORAGE_QUOTA_EXCEEDED,
+          `Custom style "${style.name}" takes ${bytes} bytes, over the ${SYNC_ITEM_QUOTA_BYTES} byte sync item limit`,
+          { styleName: style.name, bytes }
+        );
+      }
+    }
+
+    const result = await chrome.storage.sync.get(StorageKey.CUSTOM_STYLE_INDEX);
+    const ids = this.readCustomStyleIndex(result[StorageKey.CUSTOM_STYLE_INDEX]);
+    const newIds = styles.map((style) => style.id).filter((id) => !ids.includes(id));
+
+    try {
+      // One set() call, so the index never lists a style that wasn't written
+      await chrome.storage.sync.set({
+        ...Object.fromEntries(styles.map((style) => [this.getCustomStyleKey(style.id), style])),
+        [StorageKey.CUSTOM_STYLE_INDEX]: [...ids, ...newIds],
+      });
+    } catch (error) {
+      // Chrome reports "QUOTA_BYTES quota exceeded" when the sync area is full
+      if (error instanceof Error && error.message.includes('QUOTA_BYTES')) {
+        throw new AppError(
+          ErrorType.STORAGE_QUOTA_EXCEEDED,
+          `Sync storage is full: ${error.message}`,
+          styles.length === 1 ? { styleName: styles[0].name } : undefined
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Style IDs from a stored CUSTOM_STYLE_INDEX value
+   * @param value - Stored value (undefined before the first style is saved)
+   */
+  private static readCustomStyleIndex(value: unknown): string[] {
+    return Array.isArray(value)
+      ? value.filter((id): id is string => typeof id === 'string')
+      : [];
+  }
+
+  /**
+   * Storage key of a custom style
+   */
+  private static getCustomStyleKey(id: string): string {
+    return `${CUSTOM_STYLE_KEY_PREFIX}${id}`;
+  }
+
+  /**
+   * Size of a custom style as counted against QUOTA_BYTES_PER_ITEM
+   * @returns number - UTF-8 bytes of the key plus the JSON value
+   */
+  static getCustomStyleBytes(style: CustomReplyStyle): number {
+    const encoder = new TextEncoder();
+    return encoder.encode(this.getCustomStyleKey(style.id) + JSON.stringify(style)).length;
+  }
+
+  /**
+   * Pick the portable fields of a style, dropping the profile and timestamps
+   * @param style - Stored style or an untrusted style from an export file
+   * @returns PortableStyle
+   */
+  private static toPortableStyle(style: Partial<CustomReplyStyle>): PortableStyle {
+    const { id, name = '', icon = '', description = '', systemPrompt = '', model, temperature, maxLength } = style;
+
+    return {
+      id: typeof id === 'string' ? id : '',
+      name,
+      icon,
+      description,
+      systemPrompt,
+      ...(model !== undefined ? { model } : {}),
+      ...(temperature !== undefined ? { temperature } : {}),
+      ...(maxLength !== undefined ? { maxLength } : {}),
+    };
+  }
+
+  /**
+   * Make a style name unique by appending a number ("名称 2", "名称 3", ...)
+   * @param name - Desired name
+   * @param styles - Existing styles
+   * @returns string - A name no existing style uses, within NAME_MAX_LENGTH
+   */
+  private static getUniqueStyleName(name: string, styles: CustomReplyStyle[]): string {
+    const taken = new Set(styles.map((style) => style.name.trim().toLowerCase()));
+
+    if (!taken.has(name.toLowerCase())) {
+      return name;
+    }
+
+    for (let n = 2; ; n++) {
+      const suffix = ` ${n}`;
+      const candidate = name.slice(0, CUSTOM_STYLE_CONSTRAINTS.NAME_MAX_LENGTH - suffix.length) + suffix;
+
+      if (!taken.has(candidate.toLowerCase())) {
+        return candidate;
+      }
+    }
+  }
+
+  /**
+   * Validate custom style object
+   * @param style - Style to validate
+   * @returns boolean - True if valid
+   */
+  private static isValidCustomStyle(style: unknown): style is CustomReplyStyle {
+    if (!style || typeof style !== 'object') {
+      return false;
+    }
+
+    const candidate = style as Record<string, unknown>;
+    const required = [
+      'id',
+      'name',
+      'icon',
+      'description',
+      'systemPrompt',
+      'createdAt',
+      'updatedAt',
+    ];
+
+    for (const key of required) {
+      if (!(key in candidate)) {
+        return false;
+      }
+    }
+
+    // Type checks
+    if (typeof candidate.id !== 'string') return false;
+    if (typeof candidate.name !== 'string') return false;
+    if (typeof candidate.icon !== 'string') return false;
+    if (typeof candidate.description !== 'string') return false;
+    if (typeof candidate.systemPrompt !== 'string') return false;
+    if (typeof candidate.createdAt !== 'number') return false;
+    if (typeof candidate.updatedAt !== 'number') return false;
+
+    // Optional overrides
+    if (candidate.profileId !== undefined && typeof candidate.profileId !== 'string') return false;
+    if (candidate.model !== undefined && typeof candidate.model !== 'string') return false;
+    if (candidate.temperature !== undefined && typeof candidate.temperature !== 'number') return false;
+    if (candidate.maxLength !== undefined && typeof candidate.maxLength !== 'number') return false;
+
+    return true;
+  }
+}
+
+/**
+ * Validation utilities
+ */
+export class ConfigValidator {
+  /**
+   * Validate API URL format
+   * @param url - URL to validate
+   * @returns {valid: boolean, error?: string}
+   */
+  static validateApiUrl(url: string): { valid: boolean; error?: string } {
+    if (!url || url.trim() === '') {
+      return { valid: false, error: 'API URL is required' };
+    }
+
+    try {
+      const parsed = new URL(url);
+
+      // Enforce HTTPS for security (plain HTTP is allowed for local servers)
+      const isLoopback = ['localhost', '127.0.0.1', '[::1]'].includes(parsed.hostname);
+      if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && isLoopback)) {
+        return { valid: false, error: 'API URL must use HTTPS' };
+      }
+
+      return { valid: true };
+    } catch {
+      return { valid: false, error: 'Invalid URL format' };
+    }
+  }
 
   /**
    * Validate API token
    * @param token - Token to validate
+   * @param provider - Provider the token is for (local servers need no token)
    * @returns {valid: boolean, error?: string}
    */
-  static validateApiToken(token: string): { valid: boolean; error?: string } {
+  static validateApiToken(
+    token: string,
+    provider?: AIProvider
+  ): { valid: boolean; error?: string } {
+    // Local servers run without a key or accept any key
+    if (provider && !PROVIDER_REQUIRES_TOKEN[provider]) {
+      return { valid: true };
+    }
+
     if (!token || token.trim() === '') {
       return { valid: false, error: 'API Token is required' };
     }
@@ -543,6 +1625,49 @@ export class ConfigValidator {
     return { valid: true };
   }
 
+  /**
+   * Validate provider profile name
+   * @param name - Profile name
+   * @returns Validation result
+   */
+  static validateProfileName(name: string): { valid: boolean; error?: string } {
+    const trimmed = (name || '').trim();
+
+    if (trimmed.length < PROFILE_CONSTRAINTS.NAME_MIN_LENGTH) {
+      return { valid: false, error: '档案名称不能为空' };
+    }
+
+    if (trimmed.length > PROFILE_CONSTRAINTS.NAME_MAX_LENGTH) {
+      return {
+        valid: false,
+        error: `档案名称不能超过 ${PROFILE_CONSTRAINTS.NAME_MAX_LENGTH} 个字符`,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate a new token passphrase
+   * @param passphrase - Passphrase
+   * @param confirmation - Passphrase entered again
+   * @returns {valid: boolean, error?: string}
+   */
+  static validatePassphrase(
+    passphrase: string,
+    confirmation: string
+  ): { valid: boolean; error?: string } {
+    if (passphrase.length < PASSPHRASE_MIN_LENGTH) {
+      return { valid: false, error: `口令至少需要 ${PASSPHRASE_MIN_LENGTH} 个字符` };
+    }
+
+    if (passphrase !== confirmation) {
+      return { valid: false, error: '两次输入的口令不一致' };
+    }
+
+    return { valid: true };
+  }
+
   /**
    * Validate complete AI configuration
    * @param config - Configuration to validate
@@ -559,7 +1684,7 @@ export class ConfigValidator {
       errors.push(urlResult.error!);
     }
 
-    const tokenResult = this.validateApiToken(config.apiToken);
+    const tokenResult = this.validateApiToken(config.apiToken, config.provider);
     if (!tokenResult.valid) {
       errors.push(tokenResult.error!);
     }
@@ -575,6 +1700,227 @@ export class ConfigValidator {
     };
   }
 
+  /**
+   * Validate user preferences
+   * @param preferences - Preferences to validate
+   * @returns {valid: boolean, errors: string[]}
+   */
+  static validatePreferences(preferences: UserPreferences): {
+    valid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+    const inRange = (value: unknown, min: number, max: number) =>
+      typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+    if (
+      !inRange(
+        preferences.temperature,
+        PREFERENCE_CONSTRAINTS.TEMPERATURE_MIN,
+        PREFERENCE_CONSTRAINTS.TEMPERATURE_MAX
+      )
+    ) {
+      errors.push(
+        `Temperature 需在 ${PREFERENCE_CONSTRAINTS.TEMPERATURE_MIN} 到 ${PREFERENCE_CONSTRAINTS.TEMPERATURE_MAX} 之间`
+      );
+    }
+
+    if (!inRange(preferences.topP, PREFERENCE_CONSTRAINTS.TOP_P_MIN, PREFERENCE_CONSTRAINTS.TOP_P_MAX)) {
+      errors.push(
+        `Top P 需在 ${PREFERENCE_CONSTRAINTS.TOP_P_MIN} 到 ${PREFERENCE_CONSTRAINTS.TOP_P_MAX} 之间`
+      );
+    }
+
+    if (
+      !Number.isInteger(preferences.maxTokens) ||
+      !inRange(
+        preferences.maxTokens,
+        PREFERENCE_CONSTRAINTS.MAX_TOKENS_MIN,
+        PREFERENCE_CONSTRAINTS.MAX_TOKENS_MAX
+      )
+    ) {
+      errors.push(
+        `最大 Token 数需为 ${PREFERENCE_CONSTRAINTS.MAX_TOKENS_MIN} 到 ${PREFERENCE_CONSTRAINTS.MAX_TOKENS_MAX} 之间的整数`
+      );
+    }
+
+    if (!preferences.defaultStyleId || typeof preferences.defaultStyleId !== 'string') {
+      errors.push('默认风格不能为空');
+    }
+
+    if (
+      !Number.isInteger(preferences.candidateCount) ||
+      !inRange(preferences.candidateCount, 1, MAX_REPLY_CANDIDATES)
+    ) {
+      errors.push(`候选数量需为 1 到 ${MAX_REPLY_CANDIDATES} 之间的整数`);
+    }
+
+    if (!(preferences.outputLanguage in OUTPUT_LANGUAGE_NAMES)) {
+      errors.push('不支持的输出语言');
+    }
+
+    if (typeof preferences.timelineMode !== 'boolean') {
+      errors.push('时间线模式设置无效');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate rate limits
+   * @param limits - Rate limits per provider
+   * @returns {valid: boolean, errors: string[]}
+   */
+  static validateRateLimits(limits: RateLimitSettings): {
+    valid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+    const isIntInRange = (value: unknown, min: number, max: number) =>
+      typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+    for (const provider of Object.keys(PROVIDER_NAMES) as AIProvider[]) {
+      const limit = limits[provider];
+      const name = PROVIDER_NAMES[provider];
+
+      if (!limit || typeof limit !== 'object') {
+        errors.push(`${name}：缺少限速设置`);
+        continue;
+      }
+
+      if (!isIntInRange(limit.requestsPerMinute, 0, RATE_LIMIT_CONSTRAINTS.REQUESTS_PER_MINUTE_MAX)) {
+        errors.push(
+          `${name}：每分钟请求数需为 0 到 ${RATE_LIMIT_CONSTRAINTS.REQUESTS_PER_MINUTE_MAX} 之间的整数`
+        );
+      }
+
+      if (!isIntInRange(limit.burst, RATE_LIMIT_CONSTRAINTS.BURST_MIN, RATE_LIMIT_CONSTRAINTS.BURST_MAX)) {
+        errors.push(
+          `${name}：突发请求数需为 ${RATE_LIMIT_CONSTRAINTS.BURST_MIN} 到 ${RATE_LIMIT_CONSTRAINTS.BURST_MAX} 之间的整数`
+        );
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate cost estimation settings
+   * @param settings - Settings to validate
+   * @returns {valid: boolean, errors: string[]}
+   */
+  static validateUsageSettings(settings: UsageSettings): {
+    valid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+    const isNumberInRange = (value: unknown, max: number) =>
+      typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max;
+
+    const currency = typeof settings.currency === 'string' ? settings.currency.trim() : '';
+    if (!currency || currency.length > USAGE_CONSTRAINTS.CURRENCY_MAX_LENGTH) {
+      errors.push(`货币符号需为 1 到 ${USAGE_CONSTRAINTS.CURRENCY_MAX_LENGTH} 个字符`);
+    }
+
+    if (!isNumberInRange(settings.monthlyBudget, USAGE_CONSTRAINTS.BUDGET_MAX)) {
+      errors.push(`每月预算需为 0 到 ${USAGE_CONSTRAINTS.BUDGET_MAX} 之间的数字`);
+    }
+
+    if (!Array.isArray(settings.prices)) {
+      errors.push('价格表格式无效');
+      return { valid: false, errors };
+    }
+
+    if (settings.prices.length > MAX_MODEL_PRICES) {
+      errors.push(`价格表最多 ${MAX_MODEL_PRICES} 项`);
+    }
+
+    const seen = new Set<string>();
+
+    settings.prices.forEach((price, index) => {
+      const label = `第 ${index + 1} 项`;
+
+      if (!price || typeof price !== 'object') {
+        errors.push(`${label}：格式无效`);
+        return;
+      }
+
+      if (!(price.provider in PROVIDER_NAMES)) {
+        errors.push(`${label}：未知的提供商`);
+      }
+
+      const model = typeof price.model === 'string' ? price.model.trim() : '';
+      if (!model || model.length > CUSTOM_STYLE_CONSTRAINTS.MODEL_MAX_LENGTH) {
+        errors.push(`${label}：模型名称需为 1 到 ${CUSTOM_STYLE_CONSTRAINTS.MODEL_MAX_LENGTH} 个字符`);
+      }
+
+      const key = `${price.provider}:${model}`;
+      if (model && seen.has(key)) {
+        errors.push(`${label}：${model} 重复`);
+      }
+      seen.add(key);
+
+      if (!isNumberInRange(price.inputPrice, USAGE_CONSTRAINTS.PRICE_MAX)) {
+        errors.push(`${label}：输入价格需为 0 到 ${USAGE_CONSTRAINTS.PRICE_MAX} 之间的数字`);
+      }
+
+      if (!isNumberInRange(price.outputPrice, USAGE_CONSTRAINTS.PRICE_MAX)) {
+        errors.push(`${label}：输出价格需为 0 到 ${USAGE_CONSTRAINTS.PRICE_MAX} 之间的数字`);
+      }
+    });
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate the envelope of a style export file
+   * The styles themselves are validated one by one on import
+   * @param data - Parsed file content
+   * @returns {valid: boolean, errors: string[]}
+   */
+  static validateStylePackage(data: unknown): {
+    valid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return { valid: false, errors: ['文件内容不是有效的风格导出文件'] };
+    }
+
+    const candidate = data as Record<string, unknown>;
+
+    if (candidate.format !== STYLE_PACKAGE_FORMAT) {
+      errors.push('文件内容不是有效的风格导出文件');
+    }
+
+    if (typeof candidate.version !== 'number' || !Number.isInteger(candidate.version) || candidate.version < 1) {
+      errors.push('文件版本号无效');
+    } else if (candidate.version > STYLE_PACKAGE_VERSION) {
+      errors.push('文件由更新版本的扩展导出，请先升级扩展');
+    }
+
+    if (!Array.isArray(candidate.styles)) {
+      errors.push('文件中缺少风格列表');
+    } else if (candidate.styles.length === 0) {
+      errors.push('文件中没有风格');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+    };
+  }
+
   /**
    * Validate custom style data
    * @param style - Custom style to validate
@@ -633,6 +1979,61 @@ export class ConfigValidator {
       }
     }
 
+    // Validate the stored size: a long CJK prompt passes the length check but
+    // can still exceed the per-item sync quota (about 3 bytes per character)
+    if (errors.length === 0) {
+      const now = Date.now();
+      const bytes = StorageService.getCustomStyleBytes({
+        id: `custom_${now}_xxxxxxxxx`,
+        createdAt: now,
+        updatedAt: now,
+        ...style,
+      } as CustomReplyStyle);
+
+      if (bytes > SYNC_ITEM_QUOTA_BYTES) {
+        errors.push(
+          `风格内容过大（${(bytes / 1024).toFixed(1)} KB），超出同步存储每个风格 ${SYNC_ITEM_QUOTA_BYTES / 1024} KB 的上限，请缩短系统提示词`
+        );
+      }
+    }
+
+    // Validate optional overrides
+    if (style.profileId !== undefined && (typeof style.profileId !== 'string' || style.profileId.trim() === '')) {
+      errors.push('配置档案无效');
+    }
+
+    if (style.model !== undefined) {
+      if (typeof style.model !== 'string' || style.model.trim() === '') {
+        errors.push('模型名称不能为空');
+      } else if (style.model.trim().length > CUSTOM_STYLE_CONSTRAINTS.MODEL_MAX_LENGTH) {
+        errors.push(`模型名称不能超过 ${CUSTOM_STYLE_CONSTRAINTS.MODEL_MAX_LENGTH} 个字符`);
+      }
+    }
+
+    if (
+      style.temperature !== undefined &&
+      (typeof style.temperature !== 'number' ||
+        !Number.isFinite(style.temperature) ||
+        style.temperature < PREFERENCE_CONSTRAINTS.TEMPERATURE_MIN ||
+        style.temperature > PREFERENCE_CONSTRAINTS.TEMPERATURE_MAX)
+    ) {
+      errors.push(
+        `Temperature 必须在 ${PREFERENCE_CONSTRAINTS.TEMPERATURE_MIN} 到 ${PREFERENCE_CONSTRAINTS.TEMPERATURE_MAX} 之间`
+      );
+    }
+
+    if (
+      style.maxLength !== undefined &&
+      (typeof style.maxLength !== 'number' ||
+        !Number.isInteger(style.maxLength) ||
+        style.maxLength < CUSTOM_STYLE_CONSTRAINTS.REPLY_LENGTH_MIN ||
+        style.maxLength > MAX_REPLY_LENGTH)
+    ) {
+      errors.push(
+        `最大长度必须是 ${CUSTOM_STYLE_CONSTRAINTS.REPLY_LENGTH_MIN} 到 ${MAX_REPLY_LENGTH} 之间的整数`
+      );
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -0,0 +1,446 @@
+/**
+ * Token Vault
+ *
+ * Keeps the API tokens of the provider profiles under their own key, in
+ * chrome.storage.sync or, when the user keeps them on this device only,
+ * in chrome.storage.local. Tokens can be encrypted with AES-GCM using a
+ * key derived from a passphrase (PBKDF2); the unlocked key is held in
+ * chrome.storage.session, which is cleared when the browser closes.
+ */
+
+import type {
+  EncryptedToken,
+  StoredTokens,
+  TokenEncryption,
+  TokenSecurityStatus,
+  TokenStorageArea,
+} from '../types';
+import {
+  StorageKey,
+  ErrorType,
+  AppError,
+  TOKEN_KDF_ITERATIONS,
+} from '../types';
+
+/**
+ * Text encrypted into the verifier, to tell a wrong passphrase apart
+ */
+const VERIFIER_TEXT = 'twitter-reply-assistant';
+
+/**
+ * Token vault class
+ */
+export class TokenVault {
+  /**
+   * Pending write, so read-modify-write cycles in this context don't interleave
+   */
+  private static writeQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Get the token protection of this device
+   * @returns Promise<TokenSecurityStatus>
+   */
+  static async getStatus(): Promise<TokenSecurityStatus> {
+    const area = await this.getArea();
+    const stored = await this.read(area);
+
+    return {
+      area,
+      encrypted: stored.encryption !== undefined,
+      unlocked: stored.encryption === undefined || (await this.getKey(stored.encryption)) !== null,
+    };
+  }
+
+  /**
+   * Whether the tokens are encrypted and not unlocked in this session
+   * @returns Promise<boolean>
+   */
+  static async isLocked(): Promise<boolean> {
+    return !(await this.getStatus()).unlocked;
+  }
+
+  /**
+   * Get the readable tokens
+   * Encrypted tokens are left out while locked
+   * @returns Promise<Record<string, string>> - Tokens by profile ID
+   */
+  static async getTokens(): Promise<Record<string, string>> {
+    const stored = await this.read(await this.getArea());
+    const key = stored.encryption ? await this.getKey(stored.encryption) : null;
+    const tokens: Record<string, string> = {};
+
+    for (const [profileId, token] of Object.entries(stored.tokens)) {
+      if (typeof token === 'string') {
+        tokens[profileId] = token;
+      } else if (key) {
+        try {
+          tokens[profileId] = await this.decrypt(key, token);
+        } catch (error) {
+          console.warn('[Token Vault] 无法解密 API Token:', profileId, error);
+        }
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Save the token of a profile (encrypted when encryption is on)
+   * @param profileId - Profile ID
+   * @param token - API token; an empty token removes the entry
+   * @throws AppError(TOKEN_LOCKED) when encrypted and locked
+   */
+  static async setToken(profileId: string, token: string): Promise<void> {
+    await this.update(async (stored) => {
+      const tokens = { ...stored.tokens };
+
+      if (stored.encryption) {
+        const key = await this.getKey(stored.encryption);
+        if (!key) {
+          throw this.lockedError();
+        }
+
+        if (token) {
+          tokens[profileId] = await this.encrypt(key, token);
+        } else {
+          delete tokens[profileId];
+        }
+      } else if (token) {
+        tokens[profileId] = token;
+      } else {
+        delete tokens[profileId];
+      }
+
+      return { ...stored, tokens };
+    });
+  }
+
+  /**
+   * Remove the token of a deleted profile (works while locked)
+   * @param profileId - Profile ID
+   */
+  static async removeToken(profileId: string): Promise<void> {
+    await this.update(async (stored) => {
+      const tokens = { ...stored.tokens };
+      delete tokens[profileId];
+      return { ...stored, tokens };
+    });
+  }
+
+  /**
+   * Encrypt all tokens with a key derived from a passphrase and unlock it
+   * for this session
+   * @param passphrase - New passphrase
+   */
+  static async enableEncryption(passphrase: string): Promise<void> {
+    await this.update(async (stored) => {
+      if (stored.encryption) {
+        throw new AppError(ErrorType.INVALID_CONFIG, 'Tokens are already encrypted');
+      }
+
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const key = await this.deriveKey(passphrase, salt, TOKEN_KDF_ITERATIONS);
+      const tokens: StoredTokens['tokens'] = {};
+
+      for (const [profileId, token] of Object.entries(stored.tokens)) {
+        tokens[profileId] = typeof token === 'string' ? await this.encrypt(key, token) : token;
+      }
+
+      await this.saveKey(key);
+
+      return {
+        encryption: {
+          salt: this.toBase64(salt),
+          iterations: TOKEN_KDF_ITERATIONS,
+          verifier: await this.encrypt(key, VERIFIER_TEXT),
+        },
+        tokens,
+      };
+    });
+
+    // The pre-migration backup may still hold the tokens in plaintext
+    await chrome.storage.local.remove<Record<string, unknown>>(StorageKey.STORAGE_BACKUP);
+
+    console.log('[Token Vault] 已启用 API Token 加密');
+  }
+
+  /**
+   * Decrypt all tokens and turn encryption off (must be unlocked)
+   */
+  static async disableEncryption(): Promise<void> {
+    await this.update(async (stored) => {
+      if (!stored.encryption) {
+        return stored;
+      }
+
+      const key = await this.getKey(stored.encryption);
+      if (!key) {
+        throw this.lockedError();
+      }
+
+      const tokens: Record<string, string> = {};
+
+      for (const [profileId, token] of Object.entries(stored.tokens)) {
+        tokens[profileId] = typeof token === 'string' ? token : await this.decrypt(key, token);
+      }
+
+      return { tokens };
+    });
+
+    await this.lock();
+
+    console.log('[Token Vault] 已关闭 API Token 加密');
+  }
+
+  /**
+   * Unlock the tokens for this browser session
+   * @param passphrase - Passphrase to try
+   * @returns Promise<boolean> - False when the passphrase is wrong
+   */
+  static async unlock(passphrase: string): Promise<boolean> {
+    const stored = await this.read(await this.getArea());
+
+    if (!stored.encryption) {
+      return true;
+    }
+
+    const { salt, iterations, verifier } = stored.encryption;
+    const key = await this.deriveKey(passphrase, this.fromBase64(salt), iterations);
+
+    if (!(await this.matchesVerifier(key, verifier))) {
+      return false;
+    }
+
+    await this.saveKey(key);
+
+    console.log('[Token Vault] 已解锁');
+    return true;
+  }
+
+  /**
+   * Forget the unlocked key until the next unlock
+   */
+  static async lock(): Promise<void> {
+    try {
+      await chrome.storage.session.remove<Record<string, unknown>>(StorageKey.TOKEN_KEY);
+    } catch (error) {
+      console.error('Failed to lock tokens:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to lock tokens',
+        error
+      );
+    }
+  }
+
+  /**
+   * Drop the encrypted tokens and turn encryption off (forgotten passphrase)
+   * Plaintext tokens are kept
+   */
+  static async resetEncryption(): Promise<void> {
+    await this.update(async (stored) => ({
+      tokens: Object.fromEntries(
+        Object.entries(stored.tokens).filter(([, token]) => typeof token === 'string')
+      ),
+    }));
+
+    await this.lock();
+
+    console.log('[Token Vault] 已重置加密，加密的 API Token 已删除');
+  }
+
+  /**
+   * Move the tokens to another storage area
+   * Moving to 'local' removes them from the synced storage of other devices
+   * @param area - Target area
+   */
+  static async setStorageArea(area: TokenStorageArea): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const current = await this.getArea();
+      if (current === area) return;
+
+      try {
+        const stored = await this.read(current);
+
+        await chrome.storage[area].set({ [StorageKey.API_TOKENS]: stored });
+        await chrome.storage.local.set({ [StorageKey.TOKEN_STORAGE_AREA]: area });
+        await chrome.storage[current].remove<Record<string, unknown>>(StorageKey.API_TOKENS);
+
+        console.log('[Token Vault] API Token 已移至', area);
+      } catch (error) {
+        console.error('Failed to move tokens:', error);
+        throw new AppError(
+          ErrorType.STORAGE_ERROR,
+          'Failed to move API tokens',
+          error
+        );
+      }
+    });
+
+    // Keep the queue alive after a failed write
+    this.writeQueue = write.catch(() => undefined);
+
+    return write;
+  }
+
+  /**
+   * Where this device keeps the tokens
+   */
+  private static async getArea(): Promise<TokenStorageArea> {
+    const result = await chrome.storage.local.get(StorageKey.TOKEN_STORAGE_AREA);
+    return result[StorageKey.TOKEN_STORAGE_AREA] === 'local' ? 'local' : 'sync';
+  }
+
+  /**
+   * Read the stored tokens of an area
+   */
+  private static async read(area: TokenStorageArea): Promise<StoredTokens> {
+    try {
+      const result = await chrome.storage[area].get(StorageKey.API_TOKENS);
+      const stored = result[StorageKey.API_TOKENS];
+
+      if (!stored || typeof stored !== 'object' || !stored.tokens || typeof stored.tokens !== 'object') {
+        return { tokens: {} };
+      }
+
+      return stored;
+    } catch (error) {
+      console.error('Failed to get API tokens:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to retrieve API tokens',
+        error
+      );
+    }
+  }
+
+  /**
+   * Apply a change to the stored tokens
+   * @param change - Function producing the new stored tokens
+   */
+  private static update(
+    change: (stored: StoredTokens) => Promise<StoredTokens>
+  ): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      try {
+        const area = await this.getArea();
+        const stored = await change(await this.read(area));
+
+        await chrome.storage[area].set({ [StorageKey.API_TOKENS]: stored });
+      } catch (error) {
+        console.error('Failed to update API tokens:', error);
+
+        if (error instanceof AppError) {
+          throw error;
+        }
+
+        throw new AppError(
+          ErrorType.STORAGE_ERROR,
+          'Failed to save API tokens',
+          error
+        );
+      }
+    });
+
+    // Keep the queue alive after a failed write
+    this.writeQueue = write.catch(() => undefined);
+
+    return write;
+  }
+
+  /**
+   * Get the unlocked key, if it matches the current encryption
+   * A key left from an earlier passphrase (changed on another device) counts as locked
+   */
+  private static async getKey(encryption: TokenEncryption): Promise<CryptoKey | null> {
+    const result = await chrome.storage.session.get(StorageKey.TOKEN_KEY);
+    const raw = result[StorageKey.TOKEN_KEY];
+
+    if (typeof raw !== 'string') {
+      return null;
+    }
+
+    const key = await crypto.subtle.importKey(
+      'raw',
+      this.fromBase64(raw),
+      'AES-GCM',
+      true,
+      ['encrypt', 'decrypt']
+    );
+
+    return (await this.matchesVerifier(key, encryption.verifier)) ? key : null;
+  }
+
+  /**
+   * Keep the key for this browser session
+   */
+  private static async saveKey(key: CryptoKey): Promise<void> {
+    const raw = new Uint8Array(await crypto.subtle.exportKey('raw', key));
+    await chrome.storage.session.set({ [StorageKey.TOKEN_KEY]: this.toBase64(raw) });
+  }
+
+  /**
+   * Derive an AES-GCM key from a passphrase
+   */
+  private static async deriveKey(
+    passphrase: string,
+    salt: Uint8Array<ArrayBuffer>,
+    iterations: number
+  ): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  /**
+   * Check a key against the verifier
+   */
+  private static async matchesVerifier(key: CryptoKey, verifier: EncryptedToken): Promise<boolean> {
+    try {
+      return (await this.decrypt(key, verifier)) === VERIFIER_TEXT;
+    } catch {
+      return false;
+    }
+  }
+
+  private static async encrypt(key: CryptoKey, text: string): Promise<EncryptedToken> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+
+    return { iv: this.toBase64(iv), data: this.toBase64(new Uint8Array(data)) };
+  }
+
+  private static async decrypt(key: CryptoKey, token: EncryptedToken): Promise<string> {
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.fromBase64(token.iv) },
+      key,
+      this.fromBase64(token.data)
+    );
+
+    return new TextDecoder().decode(data);
+  }
+
+  private static toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes));
+  }
+
+  private static fromBase64(value: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+  }
+
+  private static lockedError(): AppError {
+    return new AppError(ErrorType.TOKEN_LOCKED, 'API tokens are encrypted and locked');
+  }
+}
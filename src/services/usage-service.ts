@@ -0,0 +1,273 @@
+/**
+ * Usage Service
+ *
+ * Aggregates the token usage reported by providers into one record per
+ * local day, provider, model and style in chrome.storage.local, and turns
+ * it into cost estimates with the user's price table.
+ */
+
+import type {
+  GeneratedReply,
+  ModelPrice,
+  UsageRecord,
+  UsageSummary,
+} from '../types';
+import {
+  StorageKey,
+  ErrorType,
+  AppError,
+  USAGE_RETENTION_DAYS,
+} from '../types';
+
+/**
+ * Usage service class
+ * Wraps chrome.storage.local for the usage records
+ */
+export class UsageService {
+  /**
+   * Pending write, so read-modify-write cycles in this context don't interleave
+   */
+  private static writeQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Get all usage records
+   * @returns Promise<UsageRecord[]> - Records, newest day first
+   */
+  static async getRecords(): Promise<UsageRecord[]> {
+    try {
+      const result = await chrome.storage.local.get(StorageKey.USAGE_RECORDS);
+      const records = result[StorageKey.USAGE_RECORDS];
+
+      if (!records || !Array.isArray(records)) {
+        return [];
+      }
+
+      return records
+        .filter((record) => this.isValidRecord(record))
+        .sort((a, b) => b.date.localeCompare(a.date));
+    } catch (error) {
+      console.error('Failed to get usage records:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to retrieve usage records',
+        error
+      );
+    }
+  }
+
+  /**
+   * Add the usage of generated replies to today's records
+   * Replies without usage are skipped (extra choices of a request carry none)
+   * @param replies - Generated replies
+   * @param styleId - Reply style the replies were generated with
+   */
+  static async recordReplies(replies: GeneratedReply[], styleId: string): Promise<void> {
+    const withUsage = replies.filter((reply) => reply.usage);
+    if (withUsage.length === 0) return;
+
+    const date = this.getDateKey(Date.now());
+
+    await this.update((records) => {
+      for (const { provider, model, usage } of withUsage) {
+        const existing = records.find((record) =>
+          record.date === date &&
+          record.provider === provider &&
+          record.model === model &&
+          record.styleId === styleId
+        );
+
+        if (existing) {
+          existing.requests += 1;
+          existing.promptTokens += usage!.promptTokens;
+          existing.completionTokens += usage!.completionTokens;
+        } else {
+          records.push({
+            date,
+            provider,
+            model,
+            styleId,
+            requests: 1,
+            promptTokens: usage!.promptTokens,
+            completionTokens: usage!.completionTokens,
+          });
+        }
+      }
+
+      return records;
+    });
+  }
+
+  /**
+   * Delete all usage records
+   */
+  static async clearRecords(): Promise<void> {
+    try {
+      await chrome.storage.local.remove<Record<string, unknown>>(StorageKey.USAGE_RECORDS);
+      console.log('Usage records cleared');
+    } catch (error) {
+      console.error('Failed to clear usage records:', error);
+      throw new AppError(
+        ErrorType.STORAGE_ERROR,
+        'Failed to clear usage records',
+        error
+      );
+    }
+  }
+
+  /**
+   * Listen for usage changes (records are written by the background)
+   * @param callback - Function to call with the updated records
+   * @returns Unsubscribe function
+   */
+  static onUsageChange(callback: (records: UsageRecord[]) => void): () => void {
+    const listener = (
+      changes: { [key: string]: chrome.storage.StorageChange },
+      areaName: string
+    ) => {
+      if (areaName !== 'local') return;
+
+      if (StorageKey.USAGE_RECORDS in changes) {
+        this.getRecords().then(callback).catch((error) => {
+          console.error('Failed to reload usage records:', error);
+        });
+      }
+    };
+
+    chrome.storage.onChanged.addListener(listener);
+
+    return () => {
+      chrome.storage.onChanged.removeListener(listener);
+    };
+  }
+
+  /**
+   * Sum up records and estimate their cost
+   * Local models are free; other models need an entry in the price table
+   * @param records - Records to sum up
+   * @param prices - Price table (per million tokens)
+   * @returns UsageSummary
+   */
+  static summarize(records: UsageRecord[], prices: ModelPrice[]): UsageSummary {
+    const summary: UsageSummary = {
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+      unpricedTokens: 0,
+    };
+
+    for (const record of records) {
+      summary.requests += record.requests;
+      summary.promptTokens += record.promptTokens;
+      summary.completionTokens += record.completionTokens;
+
+      if (record.provider === 'local') continue;
+
+      const price = prices.find((p) => p.provider === record.provider && p.model === record.model);
+
+      if (price) {
+        summary.cost +=
+          (record.promptTokens * price.inputPrice + record.completionTokens * price.outputPrice) / 1e6;
+      } else {
+        summary.unpricedTokens += record.promptTokens + record.completionTokens;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Sum up records per group
+   * @param records - Records to group
+   * @param prices - Price table (per million tokens)
+   * @param getKey - Group key of a record
+   * @returns Groups sorted by token count, largest first
+   */
+  static summarizeBy(
+    records: UsageRecord[],
+    prices: ModelPrice[],
+    getKey: (record: UsageRecord) => string
+  ): Array<{ key: string; summary: UsageSummary }> {
+    const groups = new Map<string, UsageRecord[]>();
+
+    for (const record of records) {
+      const key = getKey(record);
+      groups.set(key, [...(groups.get(key) ?? []), record]);
+    }
+
+    const tokens = (summary: UsageSummary) => summary.promptTokens + summary.completionTokens;
+
+    return [...groups.entries()]
+      .map(([key, group]) => ({ key, summary: this.summarize(group, prices) }))
+      .sort((a, b) => tokens(b.summary) - tokens(a.summary));
+  }
+
+  /**
+   * Local calendar day of a timestamp
+   * @param time - Epoch ms
+   * @returns string - YYYY-MM-DD
+   */
+  static getDateKey(time: number): string {
+    const date = new Date(time);
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  /**
+   * Apply a change to the stored records, then drop days past the retention
+   * @param change - Function producing the new records
+   */
+  private static update(change: (records: UsageRecord[]) => UsageRecord[]): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      try {
+        const cutoff = this.getDateKey(Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+        const records = change(await this.getRecords()).filter((record) => record.date >= cutoff);
+
+        await chrome.storage.local.set({
+          [StorageKey.USAGE_RECORDS]: records,
+        });
+      } catch (error) {
+        console.error('Failed to update usage records:', error);
+
+        if (error instanceof AppError) {
+          throw error;
+        }
+
+        throw new AppError(
+          ErrorType.STORAGE_ERROR,
+          'Failed to save usage records',
+          error
+        );
+      }
+    });
+
+    // Keep the queue alive after a failed write
+    this.writeQueue = write.catch(() => undefined);
+
+    return write;
+  }
+
+  /**
+   * Validate a stored usage record
+   * @param record - Record to validate
+   * @returns boolean - True if valid
+   */
+  private static isValidRecord(record: unknown): record is UsageRecord {
+    if (!record || typeof record !== 'object') {
+      return false;
+    }
+
+    const candidate = record as Record<string, unknown>;
+
+    return (
+      typeof candidate.date === 'string' &&
+      typeof candidate.provider === 'string' &&
+      typeof candidate.model === 'string' &&
+      typeof candidate.styleId === 'string' &&
+      typeof candidate.requests === 'number' &&
+      typeof candidate.promptTokens === 'number' &&
+      typeof candidate.completionTokens === 'number'
+    );
+  }
+}
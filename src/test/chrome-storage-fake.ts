@@ -0,0 +1,121 @@
+/**
+ * In-memory chrome.storage fake for unit tests
+ *
+ * Implements the parts of the storage areas the services use (get, set,
+ * remove, clear and onChanged). Values are cloned on the way in and out,
+ * like the real API, so tests can't change stored data by reference.
+ */
+
+type StorageChanges = Record<string, chrome.storage.StorageChange>;
+type ChangeListener = (changes: StorageChanges, areaName: string) => void;
+
+/**
+ * One storage area (sync, local or session)
+ */
+export class FakeStorageArea {
+  private data: Record<string, unknown> = {};
+  private readonly areaName: string;
+  private readonly notify: ChangeListener;
+
+  constructor(areaName: string, notify: ChangeListener) {
+    this.areaName = areaName;
+    this.notify = notify;
+  }
+
+  async get(keys?: string | string[] | Record<string, unknown> | null): Promise<Record<string, unknown>> {
+    if (keys === null || keys === undefined) {
+      return structuredClone(this.data);
+    }
+
+    const defaults: Record<string, unknown> = typeof keys === 'string'
+      ? { [keys]: undefined }
+      : Array.isArray(keys)
+        ? Object.fromEntries(keys.map((key) => [key, undefined]))
+        : keys;
+
+    const result: Record<string, unknown> = {};
+
+    for (const [key, fallback] of Object.entries(defaults)) {
+      const value = key in this.data ? this.data[key] : fallback;
+      if (value !== undefined) {
+        result[key] = structuredClone(value);
+      }
+    }
+
+    return result;
+  }
+
+  async set(items: Record<string, unknown>): Promise<void> {
+    const changes: StorageChanges = {};
+
+    for (const [key, value] of Object.entries(items)) {
+      changes[key] = { oldValue: this.data[key], newValue: structuredClone(value) };
+      this.data[key] = structuredClone(value);
+    }
+
+    this.notify(changes, this.areaName);
+  }
+
+  async remove(keys: string | string[]): Promise<void> {
+    const changes: StorageChanges = {};
+
+    for (const key of typeof keys === 'string' ? [keys] : keys) {
+      if (key in this.data) {
+        changes[key] = { oldValue: this.data[key] };
+        delete this.data[key];
+      }
+    }
+
+    this.notify(changes, this.areaName);
+  }
+
+  async clear(): Promise<void> {
+    await this.remove(Object.keys(this.data));
+  }
+
+  /**
+   * Stored data, for assertions
+   */
+  dump(): Record<string, unknown> {
+    return structuredClone(this.data);
+  }
+}
+
+/**
+ * The fake chrome.storage API
+ */
+export interface FakeChromeStorage {
+  sync: FakeStorageArea;
+  local: FakeStorageArea;
+  session: FakeStorageArea;
+}
+
+/**
+ * Install a fresh chrome.storage fake as the global `chrome`
+ * @returns FakeChromeStorage - The installed storage areas
+ */
+export function installChromeStorageFake(): FakeChromeStorage {
+  const listeners = new Set<ChangeListener>();
+  const notify = (changes: StorageChanges, areaName: string) => {
+    if (Object.keys(changes).length === 0) return;
+    listeners.forEach((listener) => listener(changes, areaName));
+  };
+
+  const storage: FakeChromeStorage = {
+    sync: new FakeStorageArea('sync', notify),
+    local: new FakeStorageArea('local', notify),
+    session: new FakeStorageArea('session', notify),
+  };
+
+  (globalThis as { chrome?: unknown }).chrome = {
+    storage: {
+      ...storage,
+      onChanged: {
+        addListener: (listener: ChangeListener) => listeners.add(listener),
+        removeListener: (listener: ChangeListener) => listeners.delete(listener),
+      },
+    },
+  };
+
+  return storage;
+}
@@ -9,7 +9,14 @@
 /**
  * Supported AI providers
  */
-export type AIProvider = 'siliconflow' | 'deepseek' | 'glm' | 'custom';
+export type AIProvider =
+  | 'siliconflow'
+  | 'deepseek'
+  | 'glm'
+  | 'anthropic'
+  | 'gemini'
+  | 'local'
+  | 'custom';
 
 /**
  * AI model configuration
@@ -33,6 +40,11 @@ export const PROVIDER_URLS: Record<Exclude<AIProvider, 'custom'>, string> = {
   siliconflow: 'https://api.siliconflow.cn/v1/chat/completions',
   deepseek: 'https://api.deepseek.com/v1/chat/completions',
   glm: 'https://open.bigmodel.cn/api/paas/v4/chat/completions',
+  anthropic: 'https://api.anthropic.com/v1/messages',
+  // Gemini URLs are built per model: {base}/models/{model}:generateContent
+  gemini: 'https://generativelanguage.googleapis.com/v1beta',
+  // Ollama default port; llama.cpp server uses http://localhost:8080/v1/chat/completions
+  local: 'http://localhost:11434/v1/chat/completions',
 };
 
 /**
@@ -54,6 +66,49 @@ export const MODEL_SUGGESTIONS: Record<Exclude<AIProvider, 'custom'>, string[]>
     'glm-4',
     'glm-4-plus',
   ],
+  anthropic: [
+    'claude-sonnet-4-5',
+    'claude-haiku-4-5',
+    'claude-opus-4-1',
+  ],
+  gemini: [
+    'gemini-2.5-flash',
+    'gemini-2.5-pro',
+    'gemini-2.0-flash',
+  ],
+  // Installed models are listed from the local server in the popup
+  local: [
+    'llama3.2',
+    'qwen2.5:7b',
+  ],
+};
+
+/**
+ * Whether a provider can return multiple choices per request (`n` / `candidateCount`)
+ * Providers without it get candidates through parallel requests instead
+ */
+export const PROVIDER_SUPPORTS_N: Record<AIProvider, boolean> = {
+  siliconflow: true,
+  deepseek: false,
+  glm: false,
+  anthropic: false,
+  gemini: true,
+  local: false,
+  custom: true,
+};
+
+/**
+ * Whether a provider requires an API token
+ * Local servers usually run without authentication
+ */
+export const PROVIDER_REQUIRES_TOKEN: Record<AIProvider, boolean> = {
+  siliconflow: true,
+  deepseek: true,
+  glm: true,
+  anthropic: true,
+  gemini: true,
+  local: false,
+  custom: true,
 };
 
 /**
@@ -63,6 +118,9 @@ export const PROVIDER_NAMES: Record<AIProvider, string> = {
   siliconflow: 'SiliconFlow',
   deepseek: 'DeepSeek',
   glm: 'GLM (智谱清言)',
+  anthropic: 'Anthropic Claude',
+  gemini: 'Google Gemini',
+  local: '本地模型 (Ollama / llama.cpp)',
   custom: '自定义',
 };
 
@@ -75,10 +133,25 @@ export type ReplyStyleId =
   | 'supportive'     // 友好支持
   | 'questioning';   // 提问引导
 
+/**
+ * Optional generation overrides carried by a style
+ * Unset fields fall back to the active config and user preferences
+ */
+export interface StyleOverrides {
+  /** Saved provider profile to generate with instead of the active config */
+  profileId?: string;
+  /** Model name, applied on top of the profile or active config */
+  model?: string;
+  /** Sampling temperature */
+  temperature?: number;
+  /** Maximum reply length (weighted characters, see TweetLength) */
+  maxLength?: number;
+}
+
 /**
  * Reply style configuration
  */
-export interface ReplyStyle {
+export interface ReplyStyle extends StyleOverrides {
   /** Unique identifier */
   id: ReplyStyleId | string; // Support both preset and custom styles
   /** Display name (Chinese) */
@@ -94,7 +167,7 @@ export interface ReplyStyle {
 /**
  * Custom reply style (user-created)
  */
-export interface CustomReplyStyle {
+export interface CustomReplyStyle extends StyleOverrides {
   /** Unique identifier (timestamp-based) */
   id: string;
   /** Display name (Chinese) */
@@ -131,6 +204,116 @@ export const REPLY_STYLES: ReplyStyle[] = [
   },
 ];
 
+// ==================== Draft Rewrites ====================
+
+/**
+ * Operations for polishing a reply draft the user typed
+ */
+export type RewriteOperation = 'shorten' | 'friendlier' | 'grammar' | 'translate' | 'question';
+
+/**
+ * Draft rewrite operation configuration
+ */
+export interface RewriteOperationConfig {
+  id: RewriteOperation;
+  /** Display name (Chinese) */
+  name: string;
+  /** Icon/emoji */
+  icon: string;
+  /** Instruction added to the system prompt ({language} is replaced with the output language) */
+  instruction: string;
+}
+
+/**
+ * All draft rewrite operations
+ */
+export const REWRITE_OPERATIONS: RewriteOperationConfig[] = [
+  {
+    id: 'shorten',
+    name: '精简',
+    icon: '✂️',
+    instruction: '把草稿改得更简洁，删掉多余的词句，保留核心观点。',
+  },
+  {
+    id: 'friendlier',
+    name: '更友好',
+    icon: '😊',
+    instruction: '把草稿的语气改得更友好、更温和，避免显得生硬或有攻击性。',
+  },
+  {
+    id: 'grammar',
+    name: '修正语法',
+    icon: '📝',
+    instruction: '只修正草稿中的错别字、语法和标点错误，不改变措辞和语气。',
+  },
+  {
+    id: 'translate',
+    name: '翻译',
+    icon: '🌐',
+    instruction: '把草稿翻译成{language}，保持原意和语气，表达要地道自然。',
+  },
+  {
+    id: 'question',
+    name: '加个问题',
+    icon: '❓',
+    instruction: '保留草稿内容，在结尾加一个自然的问题，引导原作者或其他人继续讨论。',
+  },
+];
+
+/**
+ * Style ID prefix recorded in usage statistics for draft rewrites (e.g. "rewrite:shorten")
+ */
+export const REWRITE_STYLE_PREFIX = 'rewrite:';
+
+// ==================== Style Packages ====================
+
+/**
+ * Custom style as stored in an export file
+ * The profile is device-specific, so it is left out
+ */
+export type PortableStyle = Omit<CustomReplyStyle, 'profileId' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Export file with custom styles
+ */
+export interface StylePackage {
+  /** Always STYLE_PACKAGE_FORMAT */
+  format: string;
+  /** Format version the file was written with */
+  version: number;
+  /** Export timestamp */
+  exportedAt: number;
+  /** Exported styles */
+  styles: PortableStyle[];
+}
+
+/**
+ * What to do with an imported style whose ID or name already exists
+ */
+export type StyleConflictStrategy = 'skip' | 'rename' | 'overwrite';
+
+/**
+ * Outcome of importing a style package
+ */
+export interface StyleImportResult {
+  /** Names of the styles added */
+  imported: string[];
+  /** Names of the existing styles replaced */
+  overwritten: string[];
+  /** Styles left out, with the reason */
+  skipped: Array<{ name: string; reason: string }>;
+}
+
+/**
+ * Format identifier of style export files
+ */
+export const STYLE_PACKAGE_FORMAT = 'twitter-reply-assistant/styles';
+
+/**
+ * Current version of the style export format
+ */
+export const STYLE_PACKAGE_VERSION = 1;
+
 // ==================== API Communication ====================
 
 /**
@@ -142,7 +325,9 @@ export interface ChatCompletionRequest {
   max_tokens?: number;
   temperature?: number;
   top_p?: number;
+  n?: number;
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
 }
 
 /**
@@ -173,16 +358,475 @@ export interface ChatCompletionResponse {
   };
 }
 
+/**
+ * OpenAI-compatible streaming chunk format (one per SSE `data:` line)
+ */
+export interface ChatCompletionChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    delta: Partial<ChatMessage>;
+    finish_reason: string | null;
+  }[];
+  /** Only present on the final chunk when stream_options.include_usage is set */
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
+}
+
+/**
+ * Token usage reported by a provider, normalized across API formats
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * A generated reply with metadata about the request that produced it
+ */
+export interface GeneratedReply {
+  /** Reply text */
+  text: string;
+  /** Provider that generated the reply */
+  provider: AIProvider;
+  /** Model that generated the reply */
+  model: string;
+  /** Time from request start to completion, including retries (ms) */
+  latency: number;
+  /**
+   * Token usage of the request, if reported
+   * When one request returns several choices, only the first reply carries it
+   */
+  usage?: TokenUsage;
+  /** True when a fallback profile produced the reply after the primary failed */
+  isFallback?: boolean;
+}
+
+// ==================== Provider Profiles ====================
+
+/**
+ * Saved provider configuration
+ * The active profile is used for generation; styles can pin another one
+ */
+export interface AIProfile {
+  /** Unique identifier (timestamp-based) */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Provider configuration */
+  config: AIConfig;
+  /** Creation timestamp */
+  createdAt: number;
+  /** Last updated timestamp */
+  updatedAt: number;
+}
+
+/**
+ * Profile without its API token, safe to hand to page scripts
+ */
+export interface AIProfileSummary {
+  id: string;
+  name: string;
+  provider: AIProvider;
+  model: string;
+}
+
+// ==================== Token Security ====================
+
+/**
+ * AES-GCM ciphertext of one API token
+ */
+export interface EncryptedToken {
+  /** Initialization vector (base64) */
+  iv: string;
+  /** Ciphertext with authentication tag (base64) */
+  data: string;
+}
+
+/**
+ * Passphrase key parameters, stored next to the encrypted tokens
+ */
+export interface TokenEncryption {
+  /** PBKDF2 salt (base64) */
+  salt: string;
+  /** PBKDF2 iteration count */
+  iterations: number;
+  /** Fixed text encrypted with the key, used to check a passphrase */
+  verifier: EncryptedToken;
+}
+
+/**
+ * API tokens kept apart from the profiles, keyed by profile ID
+ */
+export interface StoredTokens {
+  /** Present when the tokens are encrypted */
+  encryption?: TokenEncryption;
+  /** Plaintext tokens, or ciphertext when encrypted */
+  tokens: Record<string, string | EncryptedToken>;
+}
+
+/**
+ * Where this device keeps the API tokens
+ * 'local' keeps them off other devices signed in to the same browser profile
+ */
+export type TokenStorageArea = 'sync' | 'local';
+
+/**
+ * Current token protection of this device
+ */
+export interface TokenSecurityStatus {
+  /** Storage area holding the tokens */
+  area: TokenStorageArea;
+  /** Whether the tokens are encrypted with a passphrase */
+  encrypted: boolean;
+  /** False while encrypted and the key isn't unlocked in this browser session */
+  unlocked: boolean;
+}
+
+/**
+ * PBKDF2-SHA-256 iterations for passphrase keys
+ */
+export const TOKEN_KDF_ITERATIONS = 600000;
+
+/**
+ * Minimum passphrase length
+ */
+export const PASSPHRASE_MIN_LENGTH = 8;
+
+// ==================== User Preferences ====================
+
+/**
+ * Language the replies are written in
+ * 'auto' follows the language of the original tweet
+ */
+export type OutputLanguage = 'auto' | 'zh-CN' | 'zh-TW' | 'en' | 'ja' | 'ko';
+
+/**
+ * Output language display names (also used in prompts)
+ */
+export const OUTPUT_LANGUAGE_NAMES: Record<OutputLanguage, string> = {
+  auto: '跟随原推文',
+  'zh-CN': '简体中文',
+  'zh-TW': '繁体中文',
+  en: '英文',
+  ja: '日文',
+  ko: '韩文',
+};
+
+/**
+ * Generation preferences
+ */
+export interface UserPreferences {
+  /** Sampling temperature */
+  temperature: number;
+  /** Nucleus sampling (1 = disabled) */
+  topP: number;
+  /** Maximum tokens to generate */
+  maxTokens: number;
+  /** Style used by default (preset or custom style ID) */
+  defaultStyleId: string;
+  /** Number of reply candidates generated per click */
+  candidateCount: number;
+  /** Language of the generated replies */
+  outputLanguage: OutputLanguage;
+  /** Show an AI button in the action bar of every timeline tweet */
+  timelineMode: boolean;
+}
+
+/**
+ * Preferences used until the user changes them
+ */
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  temperature: 0.7,
+  topP: 1,
+  maxTokens: 200,
+  defaultStyleId: 'supportive',
+  candidateCount: 1,
+  outputLanguage: 'auto',
+  timelineMode: false,
+};
+
+/**
+ * Allowed ranges for preference values
+ */
+export const PREFERENCE_CONSTRAINTS = {
+  TEMPERATURE_MIN: 0,
+  TEMPERATURE_MAX: 2,
+  TOP_P_MIN: 0.05,
+  TOP_P_MAX: 1,
+  MAX_TOKENS_MIN: 32,
+  MAX_TOKENS_MAX: 2048,
+} as const;
+
+// ==================== Rate Limits ====================
+
+/**
+ * Client-side token bucket for one provider
+ */
+export interface RateLimitConfig {
+  /** Sustained request rate (0 = unlimited) */
+  requestsPerMinute: number;
+  /** Requests that may be sent back to back before the rate applies */
+  burst: number;
+}
+
+/**
+ * Rate limits per provider
+ */
+export type RateLimitSettings = Record<AIProvider, RateLimitConfig>;
+
+/**
+ * Rate limits used until the user changes them
+ * Local servers have no quota to protect
+ */
+export const DEFAULT_RATE_LIMITS: RateLimitSettings = {
+  siliconflow: { requestsPerMinute: 20, burst: 3 },
+  deepseek: { requestsPerMinute: 20, burst: 3 },
+  glm: { requestsPerMinute: 20, burst: 3 },
+  anthropic: { requestsPerMinute: 20, burst: 3 },
+  gemini: { requestsPerMinute: 15, burst: 3 },
+  local: { requestsPerMinute: 0, burst: 1 },
+  custom: { requestsPerMinute: 20, burst: 3 },
+};
+
+/**
+ * Allowed ranges for rate limit values
+ */
+export const RATE_LIMIT_CONSTRAINTS = {
+  REQUESTS_PER_MINUTE_MAX: 600,
+  BURST_MIN: 1,
+  BURST_MAX: 20,
+} as const;
+
+// ==================== Usage Tracking ====================
+
+/**
+ * Token usage aggregated per local day, provider, model and style
+ */
+export interface UsageRecord {
+  /** Local calendar day (YYYY-MM-DD) */
+  date: string;
+  /** Provider that served the requests */
+  provider: AIProvider;
+  /** Model that served the requests */
+  model: string;
+  /** Reply style used (preset or custom style ID) */
+  styleId: string;
+  /** Requests that reported token usage */
+  requests: number;
+  /** Prompt (input) tokens */
+  promptTokens: number;
+  /** Completion (output) tokens */
+  completionTokens: number;
+}
+
+/**
+ * Price of one model per million tokens, in the currency of UsageSettings
+ */
+export interface ModelPrice {
+  /** Provider the model belongs to */
+  provider: AIProvider;
+  /** Model name as sent in requests */
+  model: string;
+  /** Price per million prompt tokens */
+  inputPrice: number;
+  /** Price per million completion tokens */
+  outputPrice: number;
+}
+
+/**
+ * Cost estimation settings
+ */
+export interface UsageSettings {
+  /** Currency symbol shown with costs */
+  currency: string;
+  /** Monthly budget in the same currency (0 = no budget) */
+  monthlyBudget: number;
+  /** Price table; models without an entry are reported as unpriced */
+  prices: ModelPrice[];
+}
+
+/**
+ * Totals over a set of usage records
+ */
+export interface UsageSummary {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Estimated cost of the priced tokens */
+  cost: number;
+  /** Tokens of models missing from the price table */
+  unpricedTokens: number;
+}
+
+/**
+ * Cost settings used until the user changes them
+ * Prices are a starting point in CNY; providers change them over time
+ */
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  currency: '¥',
+  monthlyBudget: 0,
+  prices: [
+    { provider: 'deepseek', model: 'deepseek-chat', inputPrice: 2, outputPrice: 8 },
+    { provider: 'glm', model: 'glm-4-flash', inputPrice: 0, outputPrice: 0 },
+    { provider: 'siliconflow', model: 'Qwen/Qwen2.5-7B-Instruct', inputPrice: 0, outputPrice: 0 },
+  ],
+};
+
+/**
+ * Allowed ranges for usage settings
+ */
+export const USAGE_CONSTRAINTS = {
+  CURRENCY_MAX_LENGTH: 4,
+  PRICE_MAX: 10000,
+  BUDGET_MAX: 1000000,
+} as const;
+
+// ==================== Tweet Context ====================
+
+/**
+ * A tweet as rendered on the page
+ */
+export interface TweetSnapshot {
+  /** Tweet text (empty for media-only tweets) */
+  text: string;
+  /** Author display name */
+  authorName?: string;
+  /** Author handle without the leading @ */
+  authorHandle?: string;
+  /** Tweet status ID */
+  tweetId?: string;
+}
+
+/**
+ * Conversation around the tweet being replied to
+ */
+export interface TweetContext {
+  /** The tweet being replied to */
+  target: TweetSnapshot;
+  /** Earlier tweets in the conversation visible on the page, oldest first */
+  parents: TweetSnapshot[];
+  /** Tweet quoted by the target tweet */
+  quoted?: TweetSnapshot;
+}
+
+// ==================== Reply History ====================
+
+/**
+ * Identifying details of the tweet being replied to
+ */
+export interface TweetInfo {
+  /** Tweet status ID */
+  tweetId?: string;
+  /** Canonical tweet URL */
+  tweetUrl?: string;
+  /** Author handle without the leading @ */
+  authorHandle?: string;
+}
+
+/**
+ * One generated reply in the history
+ */
+export interface ReplyHistoryEntry extends TweetInfo {
+  /** Unique identifier */
+  id: string;
+  /** Generation timestamp */
+  createdAt: number;
+  /** Text of the tweet that was replied to */
+  tweetText: string;
+  /** Reply style used (preset or custom style ID) */
+  styleId: string;
+  /** Generated reply text */
+  reply: string;
+  /** Provider that generated the reply */
+  provider: AIProvider;
+  /** Model that generated the reply */
+  model: string;
+  /** Generation latency (ms) */
+  latency: number;
+  /** Token usage, if reported by the provider */
+  usage?: TokenUsage;
+  /** Whether a fallback profile produced the reply */
+  isFallback?: boolean;
+  /** Whether the reply was inserted into the reply box */
+  inserted: boolean;
+}
+
 // ==================== Storage Keys ====================
 
 /**
  * Chrome storage keys
  */
 export enum StorageKey {
+  /** Legacy single configuration, migrated into a profile */
   AI_CONFIG = 'ai_config',
   REPLY_HISTORY = 'reply_history',
   USER_PREFERENCES = 'user_preferences',
+  /** Legacy array of all custom styles, migrated to one key per style */
   CUSTOM_STYLES = 'custom_styles',
+  /** IDs of the custom styles kept under CUSTOM_STYLE_KEY_PREFIX keys */
+  CUSTOM_STYLE_INDEX = 'custom_styles_index',
+  AI_PROFILES = 'ai_profiles',
+  FALLBACK_PROFILES = 'fallback_profiles',
+  ACTIVE_PROFILE_ID = 'active_profile_id',
+  RATE_LIMITS = 'rate_limits',
+  USAGE_RECORDS = 'usage_records',
+  USAGE_SETTINGS = 'usage_settings',
+  /** Storage schema version of this device (chrome.storage.local) */
+  SCHEMA_VERSION = 'schema_version',
+  /** Snapshot taken before the last migration (chrome.storage.local) */
+  STORAGE_BACKUP = 'storage_backup',
+  /** API tokens by profile ID (chrome.storage.sync, or local when device-only) */
+  API_TOKENS = 'api_tokens',
+  /** Where this device keeps the API tokens (chrome.storage.local) */
+  TOKEN_STORAGE_AREA = 'token_storage_area',
+  /** Unlocked token key (chrome.storage.session) */
+  TOKEN_KEY = 'token_key',
+}
+
+/**
+ * Key prefix of custom styles in chrome.storage.sync (one key per style ID)
+ * A single array would exceed QUOTA_BYTES_PER_ITEM with a few long prompts.
+ * The IDs are listed under StorageKey.CUSTOM_STYLE_INDEX, so readers fetch
+ * only these keys instead of the whole sync area (which holds the API tokens).
+ */
+export const CUSTOM_STYLE_KEY_PREFIX = 'custom_style_';
+
+// ==================== Storage Schema ====================
+
+/**
+ * One step of the storage schema
+ * Migrations must be safe to run again on data they already migrated:
+ * sync data is shared, so another device may have migrated it first
+ */
+export interface StorageMigration {
+  /** Schema version reached after this migration */
+  version: number;
+  /** What the migration changes */
+  description: string;
+  /** Apply the migration */
+  migrate: () => Promise<void>;
+}
+
+/**
+ * Storage contents saved before migrating
+ */
+export interface StorageBackup {
+  /** Snapshot timestamp */
+  createdAt: number;
+  /** Schema version of the snapshot */
+  schemaVersion: number;
+  /** chrome.storage.sync contents */
+  sync: Record<string, unknown>;
+  /** chrome.storage.local contents (without earlier backups) */
+  local: Record<string, unknown>;
 }
 
 // ==================== Error Types ====================
@@ -198,8 +842,11 @@ export enum ErrorType {
   RATE_LIMITED = 'RATE_LIMITED',
   NETWORK_ERROR = 'NETWORK_ERROR',
   STORAGE_ERROR = 'STORAGE_ERROR',
+  STORAGE_QUOTA_EXCEEDED = 'STORAGE_QUOTA_EXCEEDED',
+  TOKEN_LOCKED = 'TOKEN_LOCKED',
   TWITTER_DOM_ERROR = 'TWITTER_DOM_ERROR',
   GENERATION_FAILED = 'GENERATION_FAILED',
+  CANCELLED = 'CANCELLED',
 }
 
 /**
@@ -213,8 +860,11 @@ export const ERROR_MESSAGES: Record<ErrorType, string> = {
   [ErrorType.RATE_LIMITED]: 'API 调用频率限制，请稍后再试',
   [ErrorType.NETWORK_ERROR]: '网络连接失败，请检查您的网络',
   [ErrorType.STORAGE_ERROR]: '存储操作失败，请重试',
+  [ErrorType.STORAGE_QUOTA_EXCEEDED]: '超出浏览器同步存储容量，无法保存',
+  [ErrorType.TOKEN_LOCKED]: 'API Token 已加密，请先在扩展弹窗中解锁',
   [ErrorType.TWITTER_DOM_ERROR]: 'Twitter 页面元素未找到，请刷新页面',
   [ErrorType.GENERATION_FAILED]: 'AI 回复生成失败，请重试',
+  [ErrorType.CANCELLED]: '已取消生成',
 };
 
 /**
@@ -277,6 +927,21 @@ export const ERROR_DESCRIPTIONS: Record<ErrorType, { description: string; tips:
       '确认浏览器权限正常',
     ],
   },
+  [ErrorType.STORAGE_QUOTA_EXCEEDED]: {
+    description: '同步存储每项最多 8KB、总计 100KB，中文每个字约占 3 字节',
+    tips: [
+      '缩短该风格的系统提示词或描述',
+      '删除不再使用的自定义风格或配置档案',
+    ],
+  },
+  [ErrorType.TOKEN_LOCKED]: {
+    description: '加密的 API Token 需要口令解锁，浏览器重启后需重新解锁',
+    tips: [
+      '点击浏览器工具栏中的扩展图标打开弹窗',
+      '输入加密口令并解锁',
+      '忘记口令时可重置加密，再重新填写 API Token',
+    ],
+  },
   [ErrorType.TWITTER_DOM_ERROR]: {
     description: '无法在页面中找到 Twitter 元素',
     tips: [
@@ -293,6 +958,12 @@ export const ERROR_DESCRIPTIONS: Record<ErrorType, { description: string; tips:
       '确认 API 配置正确',
     ],
   },
+  [ErrorType.CANCELLED]: {
+    description: '生成请求已被取消',
+    tips: [
+      '重新选择风格即可再次生成',
+    ],
+  },
 };
 
 /**
@@ -312,6 +983,14 @@ export class AppError extends Error {
    * Get user-friendly error message
    */
   getUserMessage(): string {
+    // Name the style that doesn't fit, and its size when it is over the per-item limit
+    if (this.type === ErrorType.STORAGE_QUOTA_EXCEEDED && typeof this.details?.styleName === 'string') {
+      const size = typeof this.details.bytes === 'number'
+        ? `（${(this.details.bytes / 1024).toFixed(1)} KB，每个风格最多 ${SYNC_ITEM_QUOTA_BYTES / 1024} KB）`
+        : '';
+      return `风格「${this.details.styleName}」${size}${ERROR_MESSAGES[this.type]}`;
+    }
+
     return ERROR_MESSAGES[this.type] || this.message;
   }
 
@@ -333,6 +1012,9 @@ export class AppError extends Error {
       ErrorType.INVALID_CONFIG,
       ErrorType.RATE_LIMITED,
       ErrorType.INVALID_RESPONSE,
+      ErrorType.STORAGE_QUOTA_EXCEEDED,
+      ErrorType.TOKEN_LOCKED,
+      ErrorType.CANCELLED,
     ].includes(this.type);
   }
 }
@@ -357,6 +1039,13 @@ export class ErrorHelper {
     return '发生未知错误，请重试';
   }
 
+  /**
+   * Check if the error is a user cancellation (not a failure)
+   */
+  static isCancelled(error: unknown): boolean {
+    return error instanceof AppError && error.type === ErrorType.CANCELLED;
+  }
+
   /**
    * Check if error should show retry button
    */
@@ -379,11 +1068,133 @@ export class ErrorHelper {
       [ErrorType.RATE_LIMITED]: '🚦',
       [ErrorType.NETWORK_ERROR]: '🌐',
       [ErrorType.STORAGE_ERROR]: '💾',
+      [ErrorType.STORAGE_QUOTA_EXCEEDED]: '📦',
+      [ErrorType.TOKEN_LOCKED]: '🔒',
       [ErrorType.TWITTER_DOM_ERROR]: '🔍',
       [ErrorType.GENERATION_FAILED]: '🤖',
+      [ErrorType.CANCELLED]: '⏹️',
     };
     return icons[errorType] || '❌';
   }
+
+  /**
+   * Convert an error into a plain object that can be sent between contexts
+   */
+  static serialize(error: unknown): SerializedError {
+    if (error instanceof AppError) {
+      return { type: error.type, message: error.message };
+    }
+
+    return {
+      type: ErrorType.GENERATION_FAILED,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  /**
+   * Rebuild an AppError received from another context
+   */
+  static deserialize(error: SerializedError): AppError {
+    return new AppError(error.type, error.message);
+  }
+}
+
+// ==================== Background Messaging ====================
+
+/**
+ * Requests sent to the background service worker via chrome.runtime.sendMessage
+ * The service worker makes all provider calls, so pages never need the API token
+ */
+export type BackgroundRequest =
+  | {
+      type: 'generate';
+      /** Caller-chosen ID, used to cancel the request */
+      requestId: string;
+      /** Tweet text, or the tweet with its conversation context */
+      tweet: TweetContext | string;
+      styleId: string;
+      /** Number of candidates (defaults to the user preference) */
+      count?: number;
+    }
+  | {
+      type: 'rewrite';
+      /** Caller-chosen ID, used to cancel the request */
+      requestId: string;
+      /** Tweet text, or the tweet with its conversation context */
+      tweet: TweetContext | string;
+      /** Reply draft typed by the user */
+      draft: string;
+      operation: RewriteOperation;
+    }
+  | { type: 'cancel'; requestId: string }
+  | { type: 'test-config'; config: AIConfig }
+  | { type: 'list-models'; config: AIConfig }
+  | { type: 'config-status' }
+  | { type: 'list-profiles' }
+  | { type: 'set-active-profile'; profileId: string };
+
+/**
+ * Response data for each background request type
+ */
+export interface BackgroundResponseData {
+  generate: GeneratedReply[];
+  rewrite: GeneratedReply;
+  cancel: { cancelled: boolean };
+  'test-config': { success: boolean; error?: string; latency?: number };
+  'list-models': string[];
+  'config-status': { configured: boolean };
+  'list-profiles': { profiles: AIProfileSummary[]; activeProfileId: string | null };
+  'set-active-profile': { activeProfileId: string };
+}
+
+/**
+ * AppError in a form that survives structured cloning
+ */
+export interface SerializedError {
+  type: ErrorType;
+  message: string;
+}
+
+/**
+ * Envelope for background responses
+ */
+export type BackgroundResponse<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: SerializedError };
+
+/**
+ * Name of the chrome.runtime.Port used for streaming generation
+ */
+export const STREAM_PORT_NAME = 'generate-stream';
+
+/**
+ * First message on a streaming port; disconnecting the port cancels it
+ */
+export interface StreamGenerateRequest {
+  type: 'generate';
+  tweet: TweetContext | string;
+  styleId: string;
+}
+
+/**
+ * Messages sent back over a streaming port
+ */
+export type StreamPortMessage =
+  | { type: 'chunk'; text: string }
+  | { type: 'done'; reply: GeneratedReply }
+  | { type: 'error'; error: SerializedError }
+  /** Queued by the rate limiter until the given time (epoch ms) */
+  | { type: 'waiting'; until: number };
+
+/**
+ * Sent by the service worker while a one-shot generate request is queued
+ * by the rate limiter (to the requesting tab, or to extension pages)
+ */
+export interface GenerateWaitingMessage {
+  type: 'generate-waiting';
+  requestId: string;
+  /** Time the request will be sent (epoch ms) */
+  until: number;
 }
 
 // ==================== UI State ====================
@@ -409,31 +1220,154 @@ export const TWITTER_SELECTORS = {
   TWEET_TEXT: '[data-testid="tweetText"]',
   REPLY_BUTTON: '[data-testid="reply"]',
   REPLY_TEXTAREA: '[data-testid="tweetTextarea_0"]',
+  // Thread composers number their posts tweetTextarea_0, _1, _2, ...
+  // (also matches the tweetTextarea_N_label wrappers, see TwitterDOM.getReplyBoxes)
+  ANY_REPLY_TEXTAREA: '[data-testid^="tweetTextarea_"]',
   TWEET_BUTTON: '[data-testid="tweetButtonInline"]',
 } as const;
 
+/**
+ * Where a reply composer is shown
+ * - dialog: the modal opened by a tweet's reply button
+ * - inline: the "Post your reply" box under the tweet on /status/<id> pages
+ */
+export type ComposerKind = 'dialog' | 'inline';
+
+/**
+ * A reply composer found on the page
+ */
+export interface ReplyComposer {
+  kind: ComposerKind;
+  /** Element holding the text boxes and their toolbar (the dialog for modals) */
+  root: HTMLElement;
+  /** First Draft.js contenteditable text box */
+  replyBox: HTMLElement;
+  /** All text boxes, in post order (several in the thread composer) */
+  replyBoxes: HTMLElement[];
+}
+
+/**
+ * How a generated reply is put into the text box
+ * - replace: overwrite everything already typed
+ * - append: add after the existing text
+ * - cursor: insert at the caret
+ * - selection: replace the selected text
+ */
+export type InsertMode = 'replace' | 'append' | 'cursor' | 'selection';
+
+/**
+ * Insert modes shown in the toolbar style selector
+ */
+export const INSERT_MODES: { id: InsertMode; name: string; description: string }[] = [
+  { id: 'replace', name: '替换', description: '覆盖输入框中的全部内容' },
+  { id: 'append', name: '追加', description: '添加到已输入内容的末尾' },
+  { id: 'cursor', name: '光标处', description: '插入到光标位置' },
+  { id: 'selection', name: '替换选中', description: '替换选中的文字' },
+];
+
+/**
+ * Selection inside a text box, as character offsets into its text content
+ * Offsets survive Draft.js re-rendering the text nodes, unlike a DOM Range
+ */
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
 // ==================== Constants ====================
 
 /**
  * Maximum reply length (Twitter limit is 280, we use 280 for full utilization)
+ * Measured in Twitter's weighted units, see utils/tweet-length
  */
 export const MAX_REPLY_LENGTH = 280;
 
+/**
+ * Maximum number of reply candidates generated at once
+ */
+export const MAX_REPLY_CANDIDATES = 3;
+
+/**
+ * Maximum number of composer snapshots kept for undoing AI insertions
+ * (per composer, the oldest are dropped first)
+ */
+export const MAX_UNDO_SNAPSHOTS = 10;
+
+/**
+ * Maximum number of parent tweets included as conversation history
+ * The closest parents are kept
+ */
+export const MAX_CONTEXT_PARENTS = 5;
+
 /**
  * API request timeout in milliseconds
  */
 export const API_TIMEOUT = 30000; // 30 seconds
 
+/**
+ * API request timeout for local models in milliseconds
+ * Local servers load the model on the first request, which can take a while
+ */
+export const LOCAL_API_TIMEOUT = 120000; // 2 minutes
+
+/**
+ * Base retry delay for local models in milliseconds
+ * Gives a server that is still loading the model time to become ready
+ */
+export const LOCAL_RETRY_DELAY = 5000;
+
 /**
  * Maximum retry attempts for API calls
  */
 export const MAX_RETRY_ATTEMPTS = 2;
 
+/**
+ * Longest the rate limiter queues a request (milliseconds)
+ * Longer pauses fail with RATE_LIMITED so the fallback chain can take over
+ */
+export const RATE_LIMIT_MAX_WAIT = 60000;
+
+/**
+ * Pause after a 429 response without Retry-After or reset headers (milliseconds)
+ */
+export const RATE_LIMIT_DEFAULT_PAUSE = 20000;
+
 /**
  * Debounce delay for DOM operations (milliseconds)
  */
 export const DOM_DEBOUNCE_DELAY = 100;
 
+/**
+ * Maximum number of reply history entries kept
+ */
+export const MAX_HISTORY_ENTRIES = 500;
+
+/**
+ * Maximum serialized size of the reply history (bytes)
+ * chrome.storage.local allows 10 MB per extension
+ */
+export const MAX_HISTORY_BYTES = 2 * 1024 * 1024; // 2 MB
+
+/**
+ * Size limit of one chrome.storage.sync item (key plus JSON value, in bytes)
+ */
+export const SYNC_ITEM_QUOTA_BYTES = 8192;
+
+/**
+ * Days of usage records kept (covers the previous year for monthly totals)
+ */
+export const USAGE_RETENTION_DAYS = 400;
+
+/**
+ * Share of the monthly budget at which the usage tab starts warning
+ */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/**
+ * Maximum number of entries in the price table
+ */
+export const MAX_MODEL_PRICES = 50;
+
 // ==================== Custom Style Constraints ====================
 
 /**
@@ -451,4 +1385,19 @@ export const CUSTOM_STYLE_CONSTRAINTS = {
   PROMPT_MAX_LENGTH: 3000,
   PROMPT_MIN_LENGTH: 10,
   ICON_MAX_LENGTH: 4, // Support multi-char emojis
+  MODEL_MAX_LENGTH: 100,
+  REPLY_LENGTH_MIN: 20, // Upper bound is MAX_REPLY_LENGTH
+} as const;
+
+/**
+ * Maximum number of saved provider profiles
+ */
+export const MAX_PROFILES = 10;
+
+/**
+ * Provider profile validation constraints
+ */
+export const PROFILE_CONSTRAINTS = {
+  NAME_MIN_LENGTH: 1,
+  NAME_MAX_LENGTH: 30,
 } as const;
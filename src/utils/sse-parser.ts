@@ -0,0 +1,63 @@
+/**
+ * Server-Sent Events 解析工具
+ *
+ * 将 fetch 返回的字节流解析为 SSE 事件的 data 负载
+ */
+
+/**
+ * SSE 解析器
+ */
+export class SSEParser {
+  /**
+   * 逐个读取事件的 data 内容
+   * 多行 data 按规范以换行拼接，注释行（以 ":" 开头）和其他字段会被忽略
+   */
+  static async *readData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let dataLines: string[] = [];
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+
+        buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+        // 末尾的 \r 可能是被拆到两段数据中的 \r\n，等下一段到达后再判断
+        const holdCR = !done && buffer.endsWith('\r');
+
+        // 按行切分，保留最后一个不完整的行
+        const lines = (holdCR ? buffer.slice(0, -1) : buffer).split(/\r\n|\r|\n/);
+        buffer = done ? '' : (lines.pop() ?? '') + (holdCR ? '\r' : '');
+
+        for (const line of lines) {
+          // 空行表示一个事件结束
+          if (line === '') {
+            if (dataLines.length > 0) {
+              yield dataLines.join('\n');
+              dataLines = [];
+            }
+            continue;
+          }
+
+          if (line.startsWith(':')) continue;
+
+          if (line.startsWith('data:')) {
+            const data = line.slice(5);
+            dataLines.push(data.startsWith(' ') ? data.slice(1) : data);
+          }
+        }
+
+        if (done) break;
+      }
+
+      // 流结束时可能没有结尾空行
+      if (dataLines.length > 0) {
+        yield dataLines.join('\n');
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * 页面提示工具
+ *
+ * 在 Twitter 页面右上角显示生成结果和错误提示（不依赖 React，按钮卸载后仍会显示）
+ */
+
+import { ErrorHelper } from '../types';
+import type { AppError } from '../types';
+
+/**
+ * 提示中的操作按钮
+ */
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+/**
+ * 页面提示
+ */
+export class Toast {
+  /**
+   * 简单提示，3 秒后消失；带操作按钮时 6 秒后消失
+   */
+  static show(message: string, backgroundColor: string, action?: ToastAction): void {
+    const toast = document.createElement('div');
+    Object.assign(toast.style, {
+      position: 'fixed',
+      top: '20px',
+      right: '20px',
+      backgroundColor,
+      color: 'white',
+      padding: '12px 24px',
+      borderRadius: '8px',
+      boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+      zIndex: '10000',
+      fontSize: '14px',
+      fontWeight: '600',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '12px',
+    });
+
+    const text = document.createElement('span');
+    text.textContent = message;
+    toast.appendChild(text);
+
+    if (action) {
+      const button = document.createElement('button');
+      button.textContent = action.label;
+      Object.assign(button.style, {
+        padding: '4px 10px',
+        background: 'rgba(255, 255, 255, 0.2)',
+        border: '1px solid rgba(255, 255, 255, 0.3)',
+        borderRadius: '6px',
+        color: 'white',
+        fontSize: '12px',
+        fontWeight: '600',
+        cursor: 'pointer',
+        whiteSpace: 'nowrap',
+      });
+      button.addEventListener('click', () => {
+        toast.remove();
+        action.onClick();
+      });
+      toast.appendChild(button);
+    }
+
+    document.body.appendChild(toast);
+
+    setTimeout(() => {
+      toast.remove();
+    }, action ? 6000 : 3000);
+  }
+
+  /**
+   * 成功提示
+   */
+  static success(message: string, action?: ToastAction): void {
+    this.show(message, '#00ba7c', action);
+  }
+
+  /**
+   * 详细的错误提示，可重试的错误带重试按钮，8 秒后消失
+   */
+  static error(error: AppError, onRetry?: () => void): void {
+    const toast = document.createElement('div');
+    const errorIcon = ErrorHelper.getErrorIcon(error.type);
+    const userMessage = error.getUserMessage();
+    const info = error.getDetailedInfo();
+    const canRetry = onRetry !== undefined && ErrorHelper.shouldShowRetry(error);
+
+    Object.assign(toast.style, {
+      position: 'fixed',
+      top: '20px',
+      right: '20px',
+      backgroundColor: '#f4212e',
+      color: 'white',
+      padding: '16px',
+      borderRadius: '12px',
+      boxShadow: '0 4px 16px rgba(0, 0, 0, 0.2)',
+      zIndex: '10000',
+      fontSize: '13px',
+      maxWidth: '350px',
+      fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif',
+    });
+
+    let content = `
+      <div style="display: flex; align-items: start; gap: 8px;">
+        <span style="font-size: 20px;">${errorIcon}</span>
+        <div style="flex: 1;">
+          <div style="font-weight: 600; margin-bottom: 6px;">${userMessage}</div>
+          <div style="font-size: 12px; opacity: 0.9; line-height: 1.4;">
+            ${info.tips.slice(0, 2).map(tip => `• ${tip}`).join('<br>')}
+          </div>
+    `;
+
+    // 可重试时添加重试按钮
+    if (canRetry) {
+      content += `
+          <button
+            id="ai-reply-retry-btn"
+            style="
+              margin-top: 10px;
+              padding: 6px 12px;
+              background: rgba(255, 255, 255, 0.2);
+              border: 1px solid rgba(255, 255, 255, 0.3);
+              border-radius: 6px;
+              color: white;
+              font-size: 12px;
+              font-weight: 600;
+              cursor: pointer;
+              transition: background 0.2s;
+            "
+            onmouseover="this.style.background='rgba(255, 255, 255, 0.3)'"
+            onmouseout="this.style.background='rgba(255, 255, 255, 0.2)'"
+          >
+            🔄 重试
+          </button>
+      `;
+    }
+
+    content += `
+        </div>
+      </div>
+    `;
+
+    toast.innerHTML = content;
+    document.body.appendChild(toast);
+
+    if (canRetry) {
+      const retryBtn = toast.querySelector('#ai-reply-retry-btn');
+      if (retryBtn) {
+        retryBtn.addEventListener('click', () => {
+          toast.remove();
+          onRetry();
+        });
+      }
+    }
+
+    setTimeout(() => {
+      toast.remove();
+    }, 8000);
+  }
+}
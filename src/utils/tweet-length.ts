@@ -0,0 +1,174 @@
+/**
+ * 推文加权长度计算
+ *
+ * 与 twitter-text v3 的计数规则保持一致：
+ * - 拉丁字母、常用标点等（见 TWITTER_TEXT_CONFIG.ranges）每个计 1
+ * - 其他字符（CJK、大部分符号）每个计 2
+ * - emoji（包括 ZWJ 组合序列）整体计 2
+ * - 任意 URL 固定计 23
+ */
+
+import { MAX_REPLY_LENGTH } from '../types';
+
+/**
+ * twitter-text v3 配置（权重按 scale 放大为整数）
+ */
+const TWITTER_TEXT_CONFIG = {
+  scale: 100,
+  defaultWeight: 200,
+  transformedURLLength: 23,
+  ranges: [
+    { start: 0, end: 4351, weight: 100 },
+    { start: 8192, end: 8205, weight: 100 },
+    { start: 8208, end: 8223, weight: 100 },
+    { start: 8242, end: 8247, weight: 100 },
+  ],
+} as const;
+
+/**
+ * URL 匹配（带协议、www 开头、或常见顶级域名的裸域名）
+ */
+const URL_PATTERN =
+  /(?:https?:\/\/|www\.)[^\s<>"'\u3000-\u303f\uff00-\uffef]+|\b[a-z0-9][a-z0-9-]*(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|co|cn|me|ai|dev|app|ly|gg|tv|xyz|info|edu|gov|jp|uk|de)\b(?:\/[^\s<>"'\u3000-\u303f\uff00-\uffef]*)?/giu;
+
+/**
+ * emoji 匹配（国旗、键帽、带肤色修饰、ZWJ 组合序列）
+ */
+const EMOJI_PATTERN =
+  /\p{Regional_Indicator}{2}|(?:\p{Extended_Pictographic}|[#*0-9]\uFE0F?\u20E3)(?:\uFE0F|\p{Emoji_Modifier})?(?:\u200D\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?)*/gu;
+
+/**
+ * URL 末尾不计入链接的标点
+ */
+const URL_TRAILING_PUNCTUATION = /[.,:;!?)\]}'"]+$/;
+
+/**
+ * 文本中的一个计数片段
+ */
+interface WeightedSegment {
+  /** 片段文本 */
+  text: string;
+  /** 片段权重（已按 scale 放大） */
+  weight: number;
+}
+
+/**
+ * 推文长度工具类
+ */
+export class TweetLength {
+  /**
+   * 计算文本的加权长度（与 X 输入框的计数一致）
+   */
+  static getWeightedLength(text: string): number {
+    const total = this.segment(text).reduce((sum, segment) => sum + segment.weight, 0);
+    return Math.ceil(total / TWITTER_TEXT_CONFIG.scale);
+  }
+
+  /**
+   * 计算剩余可用长度（可能为负数）
+   */
+  static getRemaining(text: string, maxLength = MAX_REPLY_LENGTH): number {
+    return maxLength - this.getWeightedLength(text);
+  }
+
+  /**
+   * 检查文本是否在长度限制内
+   */
+  static isWithinLimit(text: string, maxLength = MAX_REPLY_LENGTH): boolean {
+    return this.getWeightedLength(text) <= maxLength;
+  }
+
+  /**
+   * 截取不超过加权长度限制的最长前缀
+   * 不会从 URL 或 emoji 中间截断
+   */
+  static truncate(text: string, maxLength = MAX_REPLY_LENGTH): string {
+    const limit = maxLength * TWITTER_TEXT_CONFIG.scale;
+    let total = 0;
+    let result = '';
+
+    for (const segment of this.segment(text)) {
+      if (total + segment.weight > limit) break;
+      total += segment.weight;
+      result += segment.text;
+    }
+
+    return result;
+  }
+
+  /**
+   * 将文本拆分为带权重的片段：URL、emoji 各为一个片段，其余按码点拆分
+   */
+  private static segment(text: string): WeightedSegment[] {
+    const normalized = text.normalize('NFC');
+    const entities = this.findEntities(normalized);
+    const segments: WeightedSegment[] = [];
+    let index = 0;
+
+    for (const entity of entities) {
+      this.pushCodePoints(normalized.slice(index, entity.start), segments);
+      segments.push({ text: entity.text, weight: entity.weight });
+      index = entity.start + entity.text.length;
+    }
+
+    this.pushCodePoints(normalized.slice(index), segments);
+
+    return segments;
+  }
+
+  /**
+   * 找出 URL 和 emoji 实体（按位置排序，互不重叠）
+   */
+  private static findEntities(
+    text: string
+  ): { start: number; text: string; weight: number }[] {
+    const entities: { start: number; text: string; weight: number }[] = [];
+
+    for (const match of text.matchAll(URL_PATTERN)) {
+      const url = match[0].replace(URL_TRAILING_PUNCTUATION, '');
+      if (url.length === 0) continue;
+
+      entities.push({
+        start: match.index,
+        text: url,
+        weight: TWITTER_TEXT_CONFIG.transformedURLLength * TWITTER_TEXT_CONFIG.scale,
+      });
+    }
+
+    for (const match of text.matchAll(EMOJI_PATTERN)) {
+      const start = match.index;
+      const end = start + match[0].length;
+      const overlapsUrl = entities.some(
+        (entity) => start < entity.start + entity.text.length && end > entity.start
+      );
+      if (overlapsUrl) continue;
+
+      entities.push({
+        start,
+        text: match[0],
+        weight: TWITTER_TEXT_CONFIG.defaultWeight,
+      });
+    }
+
+    return entities.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * 按码点拆分普通文本并计算权重
+   */
+  private static pushCodePoints(text: string, segments: WeightedSegment[]): void {
+    for (const char of text) {
+      segments.push({ text: char, weight: this.getCharWeight(char.codePointAt(0) ?? 0) });
+    }
+  }
+
+  /**
+   * 获取单个码点的权重
+   */
+  private static getCharWeight(codePoint: number): number {
+    const range = TWITTER_TEXT_CONFIG.ranges.find(
+      (r) => codePoint >= r.start && codePoint <= r.end
+    );
+    return range ? range.weight : TWITTER_TEXT_CONFIG.defaultWeight;
+  }
+}
@@ -4,7 +4,8 @@
  * 提供与 Twitter DOM 交互的工具方法
  */
 
-import { TWITTER_SELECTORS } from '../types';
+import { TWITTER_SELECTORS, MAX_CONTEXT_PARENTS } from '../types';
+import type { InsertMode, ReplyComposer, TextSelection, TweetContext, TweetInfo, TweetSnapshot } from '../types';
 
 /**
  * Twitter DOM 工具类
@@ -47,12 +48,14 @@ export class TwitterDOM {
 
   /**
    * 等待回复框出现
+   * @param inDialog 只查找回复弹窗中的输入框（推文详情页上还有内联回复框）
    */
-  static async waitForReplyBox(timeout = 3000): Promise<HTMLElement | null> {
+  static async waitForReplyBox(timeout = 3000, inDialog = false): Promise<HTMLElement | null> {
     const startTime = Date.now();
 
     while (Date.now() - startTime < timeout) {
-      const replyBox = document.querySelector(TWITTER_SELECTORS.REPLY_TEXTAREA) as HTMLElement;
+      const root = inDialog ? this.findReplyDialog() : document;
+      const replyBox = root?.querySelector(TWITTER_SELECTORS.REPLY_TEXTAREA) as HTMLElement | null;
       if (replyBox) {
         return replyBox;
       }
@@ -67,97 +70,276 @@ export class TwitterDOM {
   /**
    * 填充回复文本到输入框
    * Twitter 使用 Draft.js 编辑器（contenteditable div），不是传统的 textarea
+   *
+   * 依次尝试模拟粘贴、execCommand('insertText')、直接修改 DOM，每一步之后
+   * 检查输入框内容是否与预期一致，全部失败时抛出错误
+   *
+   * @param mode 插入方式，默认覆盖全部内容
+   * @param selection 插入位置（cursor / selection 模式），通常在用户点击 AI 按钮前
+   *   用 getSelectionOffsets 记录；没有时 cursor 模式退化为追加，selection 模式退化为光标处
    */
-  static fillReplyText(element: HTMLElement, text: string): void {
-    try {
-      console.log('[TwitterDOM] 开始填充文本，元素类型:', element.tagName);
-      console.log('[TwitterDOM] contenteditable:', element.getAttribute('contenteditable'));
-
-      // 调试：打印元素上的所有属性键
-      const allKeys = Object.keys(element);
-      console.log('[TwitterDOM] 元素上的所有键:', allKeys);
-      const reactKeys = allKeys.filter(k => k.includes('react') || k.includes('React') || k.includes('fiber'));
-      console.log('[TwitterDOM] React 相关的键:', reactKeys);
+  static async fillReplyText(
+    element: HTMLElement,
+    text: string,
+    mode: InsertMode = 'replace',
+    selection: TextSelection | null = null
+  ): Promise<void> {
+    const currentText = element.textContent || '';
+    const range = this.resolveInsertRange(currentText, mode, selection);
+
+    const insertText = this.needsSeparator(currentText, mode, range) ? ` ${text}` : text;
+    const expected = currentText.slice(0, range.start) + insertText + currentText.slice(range.end);
+
+    console.log(`[TwitterDOM] 开始填充文本，模式: ${mode}，位置: ${range.start}-${range.end}`);
+
+    const strategies: [string, () => void][] = [
+      ['paste', () => this.insertByPaste(element, insertText)],
+      ['execCommand', () => this.insertByCommand(insertText)],
+      ['dom', () => this.insertByDOM(element, insertText)],
+    ];
 
-      // 聚焦元素
+    for (const [name, insert] of strategies) {
+      // 每次都重新设置选区：上一步可能移动了光标
       element.focus();
-      console.log('[TwitterDOM] 元素已聚焦');
-
-      // 等待焦点生效后再操作
-      setTimeout(() => {
-        try {
-          // 新策略：模拟真实的键盘输入
-          // 先清空现有内容（如果有）
-          const currentText = element.textContent || '';
-          if (currentText.length > 0) {
-            // 如果有内容，先全选
-            const selection = window.getSelection();
-            const range = document.createRange();
-            range.selectNodeContents(element);
-            selection?.removeAllRanges();
-            selection?.addRange(range);
-            console.log('[TwitterDOM] 已选中现有内容');
-          }
-
-          // 使用 DataTransfer 模拟粘贴操作
-          const dataTransfer = new DataTransfer();
-          dataTransfer.setData('text/plain', text);
-
-          // 触发 paste 事件
-          const pasteEvent = new ClipboardEvent('paste', {
-            bubbles: true,
-            cancelable: true,
-            clipboardData: dataTransfer
-          });
-
-          const handled = element.dispatchEvent(pasteEvent);
-          console.log('[TwitterDOM] paste 事件已触发，handled:', handled);
-
-          // 如果 paste 事件没有被处理，使用备用方案
-          if (!pasteEvent.defaultPrevented) {
-            console.log('[TwitterDOM] paste 事件未被处理，使用直接设置方案');
-
-            // 清空并设置新内容
-            element.innerHTML = '';
-            const textNode = document.createTextNode(text);
-            element.appendChild(textNode);
-
-            // 移动光标到末尾
-            const range = document.createRange();
-            const sel = window.getSelection();
-            range.setStart(textNode, text.length);
-            range.collapse(true);
-            sel?.removeAllRanges();
-            sel?.addRange(range);
-
-            // 触发 beforeinput 和 input 事件
-            element.dispatchEvent(new InputEvent('beforeinput', {
-              bubbles: true,
-              cancelable: true,
-              data: text,
-              inputType: 'insertText'
-            }));
-
-            element.dispatchEvent(new InputEvent('input', {
-              bubbles: true,
-              cancelable: true,
-              data: text,
-              inputType: 'insertText'
-            }));
-          }
+      this.setSelectionOffsets(element, range);
+      // 等待 selectionchange 传到 Draft.js，否则粘贴会用到旧的选区
+      await this.delay(50);
+
+      try {
+        insert();
+      } catch (error) {
+        console.warn(`[TwitterDOM] ${name} 插入出错:`, error);
+      }
 
-          console.log('[TwitterDOM] ✅ 文本填充成功:', text.substring(0, 50) + '...');
+      if (await this.waitForText(element, expected)) {
+        console.log(`[TwitterDOM] ✅ 文本填充成功（${name}）:`, text.substring(0, 50) + '...');
+        return;
+      }
 
-        } catch (innerError) {
-          console.error('[TwitterDOM] 填充过程出错:', innerError);
-          element.textContent = text;
+      // 内容已变化但与预期不同时不再尝试，避免重复插入
+      const actual = this.normalizeText(element.textContent || '');
+      if (actual !== this.normalizeText(currentText)) {
+        if (actual.includes(this.normalizeText(text))) {
+          console.warn(`[TwitterDOM] ${name} 插入后的内容与预期不完全一致`);
+          return;
         }
-      }, 100);
+        break;
+      }
+
+      console.log(`[TwitterDOM] ${name} 插入未生效，尝试下一种方式`);
+    }
+
+    throw new Error('Reply text box did not accept the inserted text');
+  }
+
+  /**
+   * 读取输入框中的文本（保留段落之间的换行，用于撤销时恢复）
+   */
+  static getReplyText(element: HTMLElement): string {
+    return (element.innerText ?? element.textContent ?? '').replace(/\n$/, '');
+  }
+
+  /**
+   * 记录输入框中的选区（字符偏移），选区不在输入框内时返回 null
+   */
+  static getSelectionOffsets(element: HTMLElement): TextSelection | null {
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) return null;
+
+    const range = selection.getRangeAt(0);
+    if (!element.contains(range.startContainer) || !element.contains(range.endContainer)) {
+      return null;
+    }
+
+    const offsetOf = (node: Node, offset: number): number => {
+      const before = document.createRange();
+      before.selectNodeContents(element);
+      before.setEnd(node, offset);
+      return before.toString().length;
+    };
+
+    return {
+      start: offsetOf(range.startContainer, range.startOffset),
+      end: offsetOf(range.endContainer, range.endOffset),
+    };
+  }
+
+  /**
+   * 按插入方式插入后输入框中保留的原有文本（用于计算剩余字数）
+   */
+  static getKeptText(
+    element: HTMLElement,
+    mode: InsertMode,
+    selection: TextSelection | null = null
+  ): string {
+    const currentText = element.textContent || '';
+    const range = this.resolveInsertRange(currentText, mode, selection);
+    const kept = currentText.slice(0, range.start) + currentText.slice(range.end);
+
+    return this.needsSeparator(currentText, mode, range) ? `${kept} ` : kept;
+  }
+
+  /**
+   * 追加时与已有内容之间是否需要补一个空格
+   */
+  private static needsSeparator(currentText: string, mode: InsertMode, range: TextSelection): boolean {
+    return mode === 'append' && range.start > 0 && !/\s$/.test(currentText);
+  }
+
+  /**
+   * 计算本次插入要替换的字符范围
+   */
+  private static resolveInsertRange(
+    currentText: string,
+    mode: InsertMode,
+    selection: TextSelection | null
+  ): TextSelection {
+    const length = currentText.length;
+    const clamp = (offset: number) => Math.min(Math.max(offset, 0), length);
+
+    if (mode === 'replace') {
+      return { start: 0, end: length };
+    }
+
+    if (!selection || mode === 'append') {
+      return { start: length, end: length };
+    }
+
+    const start = clamp(Math.min(selection.start, selection.end));
+    const end = clamp(Math.max(selection.start, selection.end));
+
+    // 光标处插入不覆盖选中的文字
+    return mode === 'selection' ? { start, end } : { start: end, end };
+  }
+
+  /**
+   * 按字符偏移设置输入框中的选区
+   */
+  private static setSelectionOffsets(element: HTMLElement, target: TextSelection): void {
+    const selection = window.getSelection();
+    // 空输入框聚焦后光标已在正确位置，Draft.js 的占位节点里没有可定位的文本节点
+    if (!selection || !element.textContent) return;
+
+    const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+    const range = document.createRange();
+    range.selectNodeContents(element);
+    range.collapse(false);
+
+    let startSet = false;
+    let passed = 0;
+    let node = walker.nextNode();
+    let lastNode: Node | null = null;
+
+    while (node) {
+      const length = node.textContent?.length ?? 0;
+
+      if (!startSet && target.start <= passed + length) {
+        range.setStart(node, target.start - passed);
+        startSet = true;
+      }
+      if (startSet && target.end <= passed + length) {
+        range.setEnd(node, target.end - passed);
+        break;
+      }
+
+      passed += length;
+      lastNode = node;
+      node = walker.nextNode();
+    }
+
+    // 偏移超出文本长度时放到最后一个文本节点末尾
+    if (!node && lastNode) {
+      const lastLength = lastNode.textContent?.length ?? 0;
+      if (!startSet) range.setStart(lastNode, lastLength);
+      range.setEnd(lastNode, lastLength);
+    }
 
-    } catch (error) {
-      console.error('[TwitterDOM] fillReplyText 失败:', error);
-      throw error;
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+
+  /**
+   * 模拟粘贴（Draft.js 会处理 paste 事件并更新编辑器状态）
+   */
+  private static insertByPaste(element: HTMLElement, text: string): void {
+    const dataTransfer = new DataTransfer();
+    dataTransfer.setData('text/plain', text);
+
+    element.dispatchEvent(new ClipboardEvent('paste', {
+      bubbles: true,
+      cancelable: true,
+      clipboardData: dataTransfer,
+    }));
+  }
+
+  /**
+   * 用 execCommand 插入（触发原生 beforeinput，Draft.js 同样会处理）
+   * 插入空文本时改为删除选中内容（撤销到空输入框时）
+   */
+  private static insertByCommand(text: string): void {
+    if (text) {
+      document.execCommand('insertText', false, text);
+    } else {
+      document.execCommand('delete');
+    }
+  }
+
+  /**
+   * 直接修改 DOM 并触发 input 事件（最后的备用方案，Draft.js 状态可能不同步）
+   */
+  private static insertByDOM(element: HTMLElement, text: string): void {
+    const selection = window.getSelection();
+    const textNode = document.createTextNode(text);
+
+    if (selection && selection.rangeCount > 0 && element.contains(selection.getRangeAt(0).commonAncestorContainer)) {
+      const range = selection.getRangeAt(0);
+      range.deleteContents();
+      range.insertNode(textNode);
+
+      // 光标移到插入文本之后
+      range.setStartAfter(textNode);
+      range.collapse(true);
+      selection.removeAllRanges();
+      selection.addRange(range);
+    } else {
+      // 选区不在输入框内时追加到末尾
+      element.appendChild(textNode);
     }
+
+    element.dispatchEvent(new InputEvent('input', {
+      bubbles: true,
+      cancelable: true,
+      data: text,
+      inputType: 'insertText',
+    }));
+  }
+
+  /**
+   * 等待输入框内容变为预期文本（Draft.js 重新渲染是异步的）
+   */
+  private static async waitForText(element: HTMLElement, expected: string, timeout = 500): Promise<boolean> {
+    const target = this.normalizeText(expected);
+    const startTime = Date.now();
+
+    while (Date.now() - startTime < timeout) {
+      if (this.normalizeText(element.textContent || '') === target) {
+        return true;
+      }
+      await this.delay(50);
+    }
+
+    return false;
+  }
+
+  /**
+   * 比较文本时忽略空白（Draft.js 的 textContent 不包含段落之间的换行）
+   */
+  private static normalizeText(text: string): string {
+    return text.replace(/[\s\u200B]/g, '');
+  }
+
+  private static delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
   }
 
   /**
@@ -172,10 +354,11 @@ export class TwitterDOM {
    * 用于防止重复注入
    */
   static getTweetId(tweetElement: HTMLElement): string | null {
-    // 尝试从多个属性获取唯一 ID
+    // 尝试从多个属性获取唯一 ID，最后从发布时间链接中提取
     const id =
       tweetElement.getAttribute('data-tweet-id') ||
       tweetElement.getAttribute('id') ||
+      this.getTweetSnapshot(tweetElement)?.tweetId ||
       null;
 
     return id;
@@ -183,16 +366,21 @@ export class TwitterDOM {
 
   /**
    * 标记推文已处理
+   * 记录处理时的推文 ID：虚拟列表会把同一个元素复用给其他推文
    */
-  static markAsProcessed(tweetElement: HTMLElement): void {
-    tweetElement.setAttribute('data-ai-reply-processed', 'true');
+  static markAsProcessed(tweetElement: HTMLElement, tweetId?: string | null): void {
+    tweetElement.setAttribute('data-ai-reply-processed', tweetId ?? 'true');
   }
 
   /**
    * 检查推文是否已处理
+   * @param tweetId 传入时还要求处理时的推文 ID 相同
    */
-  static isProcessed(tweetElement: HTMLElement): boolean {
-    return tweetElement.hasAttribute('data-ai-reply-processed');
+  static isProcessed(tweetElement: HTMLElement, tweetId?: string | null): boolean {
+    const processedId = tweetElement.getAttribute('data-ai-reply-processed');
+    if (processedId === null) return false;
+
+    return tweetId === undefined || processedId === (tweetId ?? 'true');
   }
 
   /**
@@ -285,71 +473,370 @@ export class TwitterDOM {
 
   /**
    * 查找 Twitter 回复弹窗
+   * 同时打开多个弹窗时（如在引用弹窗上再打开回复），返回最上层（最后打开）的一个
    */
   static findReplyDialog(): HTMLElement | null {
-    // Twitter 回复弹窗的选择器
-    const dialogSelectors = [
-      '[role="dialog"]',
-      '[data-testid="tweetTextarea_0"]',
-    ];
+    const dialogs = this.findReplyDialogs();
+    return dialogs[dialogs.length - 1] ?? null;
+  }
 
-    for (const selector of dialogSelectors) {
-      const element = document.querySelector(selector);
-      if (element) {
-        // 如果是 textarea，返回它的对话框容器
-        if (selector === '[data-testid="tweetTextarea_0"]') {
-          return element.closest('[role="dialog"]') as HTMLElement;
-        }
-        // 验证这是回复弹窗（包含 textarea）
-        const textarea = element.querySelector('[data-testid="tweetTextarea_0"]');
-        if (textarea) {
-          return element as HTMLElement;
-        }
+  /**
+   * 查找所有包含输入框的弹窗
+   */
+  static findReplyDialogs(): HTMLElement[] {
+    return Array.from(document.querySelectorAll<HTMLElement>('[role="dialog"]')).filter(
+      (dialog) => dialog.querySelector(TWITTER_SELECTORS.REPLY_TEXTAREA) &&
+        // 嵌套的 dialog 只保留最内层
+        !dialog.querySelector(`:scope [role="dialog"] ${TWITTER_SELECTORS.REPLY_TEXTAREA}`)
+    );
+  }
+
+  /**
+   * 获取容器中的所有输入框，按串推中的顺序排列
+   */
+  static getReplyBoxes(root: ParentNode): HTMLElement[] {
+    const indexOf = (box: HTMLElement) =>
+      Number(box.getAttribute('data-testid')?.match(/^tweetTextarea_(\d+)$/)?.[1] ?? NaN);
+
+    return Array.from(root.querySelectorAll<HTMLElement>(TWITTER_SELECTORS.ANY_REPLY_TEXTAREA))
+      .filter((box) => !Number.isNaN(indexOf(box)))
+      .sort((a, b) => indexOf(a) - indexOf(b));
+  }
+
+  /**
+   * 查找页面上所有的回复框
+   * - 回复弹窗（包括串推编辑器，一个弹窗中有多个输入框）
+   * - 推文详情页（/status/<id>）主推文下方的内联回复框
+   * 首页「有什么新鲜事」发帖框不是回复，不包括在内
+   */
+  static findReplyComposers(): ReplyComposer[] {
+    const onStatusPage = /\/status\/\d+/.test(window.location.pathname);
+    const composers = new Map<HTMLElement, ReplyComposer>();
+
+    for (const replyBox of this.getReplyBoxes(document)) {
+      const dialog = replyBox.closest<HTMLElement>('[role="dialog"]');
+      const root = dialog ?? (onStatusPage ? this.getInlineComposerRoot(replyBox) : null);
+
+      if (!root) continue;
+
+      const composer = composers.get(root);
+      if (composer) {
+        composer.replyBoxes.push(replyBox);
+      } else {
+        composers.set(root, {
+          kind: dialog ? 'dialog' : 'inline',
+          root,
+          replyBox,
+          replyBoxes: [replyBox],
+        });
       }
     }
 
+    return Array.from(composers.values());
+  }
+
+  /**
+   * 获取内联回复框的容器：包含输入框和回复按钮的最近祖先元素
+   */
+  private static getInlineComposerRoot(replyBox: HTMLElement): HTMLElement | null {
+    let parent = replyBox.parentElement;
+
+    while (parent && parent !== document.body) {
+      if (parent.querySelector(TWITTER_SELECTORS.TWEET_BUTTON)) {
+        return parent;
+      }
+      parent = parent.parentElement;
+    }
+
     return null;
   }
 
+  /**
+   * 获取内联回复框所回复的推文
+   * 1. 与页面 URL 中 ID 相同的主推文
+   * 2. 回复框之前的最后一条推文
+   */
+  private static getInlineReplyTarget(root: HTMLElement): HTMLElement | null {
+    const urlMatch = window.location.pathname.match(/\/status\/(\d+)/);
+    const focusTweet = urlMatch ? this.findTweetById(urlMatch[1]) : null;
+
+    if (focusTweet) {
+      return focusTweet;
+    }
+
+    const preceding = this.getAllTweets().filter(
+      (tweet) => tweet.compareDocumentPosition(root) & Node.DOCUMENT_POSITION_FOLLOWING
+    );
+
+    return preceding[preceding.length - 1] ?? null;
+  }
+
+  /**
+   * 从回复框中提取所回复推文的结构化上下文
+   */
+  static getTweetContextFromComposer(composer: ReplyComposer): TweetContext {
+    if (composer.kind === 'dialog') {
+      return this.getTweetContextFromReplyDialog(composer.root);
+    }
+
+    const tweet = this.getInlineReplyTarget(composer.root);
+
+    return tweet
+      ? this.getTweetContext(tweet)
+      : this.buildTweetContext(null, null, this.getTweetInfoFromComposer(composer));
+  }
+
+  /**
+   * 获取回复框所回复推文的 ID、链接和作者
+   */
+  static getTweetInfoFromComposer(composer: ReplyComposer): TweetInfo {
+    if (composer.kind === 'dialog') {
+      return this.getTweetInfoFromReplyDialog(composer.root);
+    }
+
+    const tweet = this.getInlineReplyTarget(composer.root);
+    const info = tweet ? this.getTweetInfo(tweet) : {};
+
+    if (info.tweetId) {
+      return info;
+    }
+
+    // 推文尚未渲染时使用页面 URL
+    const urlMatch = window.location.pathname.match(/^\/([A-Za-z0-9_]+)\/status\/(\d+)/);
+    if (!urlMatch) {
+      return info;
+    }
+
+    return {
+      tweetId: urlMatch[2],
+      authorHandle: urlMatch[1],
+      tweetUrl: `https://x.com/${urlMatch[1]}/status/${urlMatch[2]}`,
+    };
+  }
+
   /**
    * 从回复弹窗中获取原推文文本
-   * 策略：
-   * 1. 在弹窗中查找引用的推文内容
-   * 2. 从 URL 中提取推文 ID，然后在页面中查找对应推文
    */
   static getTweetTextFromReplyDialog(dialog: HTMLElement): string | null {
-    // 策略 1: 在弹窗内部查找引用的推文
-    const quotedTweet = dialog.querySelector('[data-testid="tweetText"]');
-    if (quotedTweet) {
-      return quotedTweet.textContent?.trim() || null;
+    return this.getTweetContextFromReplyDialog(dialog).target.text || null;
+  }
+
+  /**
+   * 从回复弹窗中提取结构化的推文上下文
+   * 目标推文的查找策略：
+   * 1. 弹窗内展示的推文（排除其中的引用推文）
+   * 2. 按推文 ID 在页面中查找对应推文
+   * 3. 页面上的第一条推文
+   * 上文推文仅在推文详情页可用，取自主推文及其之前的推文
+   */
+  static getTweetContextFromReplyDialog(dialog: HTMLElement): TweetContext {
+    const info = this.getTweetInfoFromReplyDialog(dialog);
+
+    let container: HTMLElement | null = dialog;
+    let target = this.getTweetSnapshot(dialog);
+
+    // 策略 2: 按 ID 在页面中查找
+    if (!target && info.tweetId) {
+      container = this.findTweetById(info.tweetId);
+      target = container ? this.getTweetSnapshot(container) : null;
     }
 
-    // 策略 2: 从 URL 获取推文 ID，然后在页面中查找
-    const urlMatch = window.location.pathname.match(/\/status\/(\d+)/);
-    if (urlMatch) {
-      const tweetId = urlMatch[1];
-      // 在页面中查找包含此 ID 的推文
-      const tweets = this.getAllTweets();
-      for (const tweet of tweets) {
-        const link = tweet.querySelector(`a[href*="/status/${tweetId}"]`);
-        if (link) {
-          return this.getTweetText(tweet);
-        }
-      }
+    // 策略 3: 页面上的第一条推文
+    if (!target) {
+      container = this.getAllTweets()[0] ?? null;
+      target = container ? this.getTweetSnapshot(container) : null;
     }
 
-    // 策略 3: 查找弹窗上方最近的推文
-    const allTweets = this.getAllTweets();
-    if (allTweets.length > 0) {
-      // 返回第一条推文（通常是正在回复的推文）
-      return this.getTweetText(allTweets[0]);
+    return this.buildTweetContext(container, target, info);
+  }
+
+  /**
+   * 从时间线上的推文元素中提取结构化的推文上下文
+   */
+  static getTweetContext(tweetElement: HTMLElement): TweetContext {
+    return this.buildTweetContext(tweetElement, this.getTweetSnapshot(tweetElement), {});
+  }
+
+  /**
+   * 获取时间线上推文的 ID、链接和作者（用于回复历史）
+   */
+  static getTweetInfo(tweetElement: HTMLElement): TweetInfo {
+    const snapshot = this.getTweetSnapshot(tweetElement);
+    const info: TweetInfo = {
+      tweetId: snapshot?.tweetId,
+      authorHandle: snapshot?.authorHandle,
+    };
+
+    if (info.tweetId) {
+      info.tweetUrl = `https://x.com/${info.authorHandle ?? 'i'}/status/${info.tweetId}`;
+    }
+
+    return info;
+  }
+
+  /**
+   * 由目标推文及其所在容器组装推文上下文
+   * @param info 目标推文缺少作者或 ID 时使用的备用信息
+   */
+  private static buildTweetContext(
+    container: HTMLElement | null,
+    target: TweetSnapshot | null,
+    info: TweetInfo
+  ): TweetContext {
+    const quotedElement = container ? this.getQuotedTweetElement(container) : null;
+    const targetId = target?.tweetId ?? info.tweetId;
+
+    return {
+      target: {
+        text: target?.text ?? '',
+        authorName: target?.authorName,
+        authorHandle: target?.authorHandle ?? info.authorHandle,
+        tweetId: targetId,
+      },
+      parents: this.getParentTweets(targetId),
+      quoted: quotedElement ? this.getTweetSnapshot(quotedElement) ?? undefined : undefined,
+    };
+  }
+
+  /**
+   * 从推文容器中提取推文内容和作者（不包括其中的引用推文）
+   * @returns 容器中没有推文内容时返回 null
+   */
+  static getTweetSnapshot(container: HTMLElement): TweetSnapshot | null {
+    const quotedElement = this.getQuotedTweetElement(container);
+    const isOwn = (element: Element) => !quotedElement || !quotedElement.contains(element);
+
+    const textElement = Array.from(container.querySelectorAll(TWITTER_SELECTORS.TWEET_TEXT))
+      .find(isOwn);
+    const userName = Array.from(container.querySelectorAll('[data-testid="User-Name"]'))
+      .find(isOwn);
+
+    if (!textElement && !userName) {
+      return null;
+    }
+
+    // User-Name 中依次是显示名称、@handle 和发布时间
+    const spanTexts = Array.from(userName?.querySelectorAll('span') ?? [])
+      .map((span) => span.textContent?.trim() ?? '')
+      .filter((text) => text !== '');
+    const handleText = spanTexts.find((text) => /^@[A-Za-z0-9_]+$/.test(text));
+    const authorName = spanTexts.find((text) => !text.startsWith('@') && text !== '·');
+
+    // 发布时间链接指向推文本身
+    const statusLink = Array.from(container.querySelectorAll<HTMLAnchorElement>('a[href*="/status/"]'))
+      .filter(isOwn)
+      .find((link) => link.querySelector('time'));
+    const idMatch = statusLink?.getAttribute('href')?.match(/\/status\/(\d+)/);
+
+    return {
+      text: textElement?.textContent?.trim() ?? '',
+      authorName,
+      authorHandle: handleText?.slice(1),
+      tweetId: idMatch?.[1],
+    };
+  }
+
+  /**
+   * 获取推文中的引用推文卡片
+   */
+  static getQuotedTweetElement(container: HTMLElement): HTMLElement | null {
+    // 引用推文渲染为可点击的卡片（role="link"），内含作者信息
+    const cards = container.querySelectorAll<HTMLElement>('[role="link"]');
+    for (const card of cards) {
+      if (card.querySelector('[data-testid="User-Name"]')) {
+        return card;
+      }
     }
 
     return null;
   }
 
   /**
-   * 从回复弹窗中获取工具栏元素
+   * 在页面中按 ID 查找推文元素
+   */
+  static findTweetById(tweetId: string): HTMLElement | null {
+    return this.getAllTweets().find(
+      (tweet) => this.getTweetSnapshot(tweet)?.tweetId === tweetId
+    ) ?? null;
+  }
+
+  /**
+   * 获取推文详情页上目标推文之前的对话（从早到晚）
+   * - 回复主推文或其上文时：取目标推文之前的推文
+   * - 回复主推文下方的评论时：取到主推文为止（无法可靠区分同级评论）
+   */
+  private static getParentTweets(targetId?: string): TweetSnapshot[] {
+    const focusMatch = window.location.pathname.match(/\/status\/(\d+)/);
+    if (!focusMatch || !targetId) {
+      return [];
+    }
+
+    const snapshots = this.getAllTweets().map((tweet) => this.getTweetSnapshot(tweet));
+    const focusIndex = snapshots.findIndex((snapshot) => snapshot?.tweetId === focusMatch[1]);
+    const targetIndex = snapshots.findIndex((snapshot) => snapshot?.tweetId === targetId);
+
+    if (focusIndex === -1 || targetIndex === -1) {
+      return [];
+    }
+
+    const end = targetIndex <= focusIndex ? targetIndex : focusIndex + 1;
+
+    return snapshots
+      .slice(0, end)
+      .filter((snapshot): snapshot is TweetSnapshot => snapshot !== null)
+      .slice(-MAX_CONTEXT_PARENTS);
+  }
+
+  /**
+   * 从回复弹窗中获取原推文的 ID、链接和作者
+   * 策略：
+   * 1. 弹窗内指向推文详情的链接（/handle/status/id）
+   * 2. 弹窗内的作者信息（User-Name 中的 @handle）
+   * 3. 当前页面 URL 中的推文 ID
+   */
+  static getTweetInfoFromReplyDialog(dialog: HTMLElement): TweetInfo {
+    const info: TweetInfo = {};
+
+    // 策略 1: 推文链接
+    const statusLinks = dialog.querySelectorAll<HTMLAnchorElement>('a[href*="/status/"]');
+    for (const link of statusLinks) {
+      const match = link.getAttribute('href')?.match(/^\/([A-Za-z0-9_]+)\/status\/(\d+)/);
+      if (match) {
+        info.authorHandle = match[1];
+        info.tweetId = match[2];
+        break;
+      }
+    }
+
+    // 策略 2: 作者信息
+    if (!info.authorHandle) {
+      const userName = dialog.querySelector('[data-testid="User-Name"]');
+      const handleText = Array.from(userName?.querySelectorAll('span') ?? [])
+        .map((span) => span.textContent?.trim() ?? '')
+        .find((text) => /^@[A-Za-z0-9_]+$/.test(text));
+
+      if (handleText) {
+        info.authorHandle = handleText.slice(1);
+      }
+    }
+
+    // 策略 3: 页面 URL
+    if (!info.tweetId) {
+      const urlMatch = window.location.pathname.match(/\/status\/(\d+)/);
+      if (urlMatch) {
+        info.tweetId = urlMatch[1];
+      }
+    }
+
+    if (info.tweetId) {
+      info.tweetUrl = `https://x.com/${info.authorHandle ?? 'i'}/status/${info.tweetId}`;
+    }
+
+    return info;
+  }
+
+  /**
+   * 从回复框容器（回复弹窗或内联回复框）中获取工具栏元素
    */
   static getToolbarFromReplyDialog(dialog: HTMLElement): HTMLElement | null {
     // 更新的工具栏选择器策略
@@ -445,7 +932,7 @@ export class TwitterDOM {
   }
 
   /**
-   * 检查回复框是否已经注入了 AI 按钮
+   * 检查回复框容器是否已经注入了 AI 按钮
    */
   static hasToolbarAIButton(dialog: HTMLElement): boolean {
     return dialog.querySelector('.twitter-ai-toolbar-container') !== null;
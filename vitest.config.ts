@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests run in Node against in-memory fakes of the chrome APIs,
+// so the extension build plugins from vite.config.ts are left out
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
+})